@@ -1,52 +1,355 @@
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Database, Brain, BarChart3 } from 'lucide-react'
+import { Database, Brain, BarChart3, AlertTriangle, X } from 'lucide-react'
 import FileUpload from './components/FileUpload'
+import SheetPicker from './components/SheetPicker'
+import CsvPreview from './components/CsvPreview'
 import DataOverview from './components/DataOverview'
 import ChatInterface from './components/ChatInterface'
-import { DataProcessor } from './services/dataProcessor'
-import { DataRow } from './types'
-
-interface ProcessedData {
-  data: DataRow[]
-  columns: string[]
-  metadata: {
-    fileName: string
-    fileSize: number
-    rowCount: number
-    columnCount: number
-    dataQualityScore: number
-  }
+import WorkspacePanel from './components/WorkspacePanel'
+import DatasetLibrary from './components/DatasetLibrary'
+import CleaningPanel from './components/CleaningPanel'
+import ExploreFeed from './components/ExploreFeed'
+import { WorkspaceManager } from './services/workspace'
+import { AIAgent } from './services/aiAgent'
+import { ParseCancelledError, WorkbookParser } from './services/workbookParser'
+import { createRepository, DatasetRepository } from './services/persistence'
+import { LocaleParser } from './services/localeParser'
+import { DataCleaner } from './services/dataCleaner'
+import {
+  AnalysisResult,
+  CleaningStep,
+  CsvOptions,
+  CsvPreview as CsvPreviewData,
+  Dataset,
+  DataTable,
+  ParseProgress,
+  Query,
+  SheetSelection,
+  SheetSummary,
+  Workspace
+} from './types'
+
+// The parsed workbook itself stays inside the parser's worker
+interface PendingWorkbook {
+  file: File
+  sheets: SheetSummary[]
+}
+
+interface PendingCsv {
+  file: File
+  preview: CsvPreviewData
+}
+
+// The saves of one dataset run one at a time, so a save that follows right after the first
+// one updates the dataset it created instead of creating another
+interface SaveQueue {
+  datasetId: string | null
+  pending: Promise<void>
 }
 
+const newSaveQueue = (datasetId: string | null = null): SaveQueue => ({ datasetId, pending: Promise.resolve() })
+
 function App() {
-  const [processedData, setProcessedData] = useState<ProcessedData | null>(null)
+  const [workspace, setWorkspace] = useState<Workspace | null>(null)
+  const [activeTableName, setActiveTableName] = useState<string | null>(null)
+  const [isAddingFile, setIsAddingFile] = useState(false)
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null)
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null)
+  const [isUpdatingPreview, setIsUpdatingPreview] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [progress, setProgress] = useState<ParseProgress | null>(null)
+  const parserRef = useRef<WorkbookParser | null>(null)
+  // How text dates and numbers in uploaded files are read
+  const [localePreset, setLocalePreset] = useState('auto')
+  // Earlier versions of each table, most recent last, for undoing cleaning steps
+  const [cleaningHistory, setCleaningHistory] = useState<Record<string, DataTable[]>>({})
   const [error, setError] = useState<string | null>(null)
+  const [repository, setRepository] = useState<DatasetRepository | null>(null)
+  const [datasets, setDatasets] = useState<Dataset[]>([])
+  const saveQueueRef = useRef<SaveQueue>(newSaveQueue())
+  const [savedQueries, setSavedQueries] = useState<Query[]>([])
+  // A finding's question waiting to be asked in the chat
+  const [queuedQuestion, setQueuedQuestion] = useState<string | null>(null)
+  const chatRef = useRef<HTMLDivElement>(null)
+  // Persistence failures and a misconfigured language model never block analysis, so they are shown as a dismissible warning
+  const [warning, setWarning] = useState<string | null>(AIAgent.configurationProblem)
+
+  useEffect(() => () => parserRef.current?.dispose(), [])
+
+  useEffect(() => {
+    createRepository()
+      .then(setRepository)
+      .catch(err => setWarning(`Saving is unavailable: ${errorMessage(err)}`))
+  }, [])
+
+  // Refresh the library whenever the landing page is shown
+  useEffect(() => {
+    if (!repository || workspace) return
+    repository.listDatasets()
+      .then(setDatasets)
+      .catch(err => setWarning(`Could not load saved datasets: ${errorMessage(err)}`))
+  }, [repository, workspace])
+
+  const activeTable = workspace
+    ? WorkspaceManager.getTable(workspace, activeTableName ?? '') ?? workspace.tables[0] ?? null
+    : null
+
+  const persistWorkspace = (updated: Workspace) => {
+    if (!repository) return
+    const queue = saveQueueRef.current
+    queue.pending = queue.pending.then(async () => {
+      try {
+        const dataset = queue.datasetId
+          ? await repository.updateWorkspace(queue.datasetId, updated)
+          : await repository.saveWorkspace(updated)
+        queue.datasetId = dataset.id
+      } catch (err) {
+        setWarning(`Your data was loaded but could not be saved: ${errorMessage(err)}`)
+      }
+    })
+  }
+
+  const loadTables = async (parser: WorkbookParser, load: (parser: WorkbookParser) => Promise<DataTable[]>) => {
+    const tables = await load(parser)
+    parser.dispose()
+    parserRef.current = null
+
+    const updated = workspace
+      ? WorkspaceManager.addTables(workspace, tables)
+      : WorkspaceManager.create(tables)
+
+    setWorkspace(updated)
+    // Added tables may have been renamed to stay unique, so pick the first new one by position
+    setActiveTableName(updated.tables[updated.tables.length - tables.length].name)
+    setPendingWorkbook(null)
+    setPendingCsv(null)
+    setIsAddingFile(false)
+    persistWorkspace(updated)
+  }
 
   const handleFileUpload = async (file: File) => {
+    parserRef.current?.dispose()
+    const parser = new WorkbookParser(setProgress)
+    parserRef.current = parser
+
+    setIsProcessing(true)
+    setProgress(null)
+    setError(null)
+
+    try {
+      const result = await parser.read(file)
+      if (result.type === 'csvPreview') {
+        setPendingCsv({ file, preview: result.preview })
+      } else if (result.sheets.length === 1) {
+        const selection: SheetSelection = { sheets: [result.sheets[0].name], mode: 'single' }
+        await loadTables(parser, current => current.load(selection, LocaleParser.resolve(localePreset)))
+      } else {
+        setPendingWorkbook({ file, sheets: result.sheets })
+      }
+    } catch (err) {
+      if (!(err instanceof ParseCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to process file')
+      }
+    } finally {
+      setIsProcessing(false)
+      setProgress(null)
+    }
+  }
+
+  const loadPending = async (load: (parser: WorkbookParser) => Promise<DataTable[]>, failure: string) => {
+    const parser = parserRef.current
+    if (!parser) return
     setIsProcessing(true)
     setError(null)
 
     try {
-      const result = await DataProcessor.processExcelFile(file)
-      setProcessedData({
-        data: result.data,
-        columns: result.columns,
-        metadata: result.metadata
-      })
+      await loadTables(parser, load)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process file')
+      if (!(err instanceof ParseCancelledError)) {
+        setError(err instanceof Error ? err.message : failure)
+      }
     } finally {
       setIsProcessing(false)
+      setProgress(null)
+    }
+  }
+
+  const handleSheetSelection = (selection: SheetSelection) =>
+    loadPending(parser => parser.load(selection, LocaleParser.resolve(localePreset)), 'Failed to load sheets')
+
+  const handleCsvConfirm = (options: CsvOptions) =>
+    loadPending(parser => parser.loadCsv(options, LocaleParser.resolve(localePreset)), 'Failed to load file')
+
+  const handleCsvOptionsChange = async (options: CsvOptions) => {
+    const parser = parserRef.current
+    if (!pendingCsv || !parser) return
+    setIsUpdatingPreview(true)
+    setError(null)
+
+    try {
+      const preview = await parser.previewCsv(options)
+      setPendingCsv({ file: pendingCsv.file, preview })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview file')
+    } finally {
+      setIsUpdatingPreview(false)
     }
   }
 
+  const handleCancelParse = () => {
+    parserRef.current?.cancel()
+    parserRef.current = null
+    setPendingWorkbook(null)
+    setPendingCsv(null)
+  }
+
+  const handleCancelUpload = () => {
+    parserRef.current?.dispose()
+    parserRef.current = null
+    setPendingWorkbook(null)
+    setPendingCsv(null)
+    setIsAddingFile(false)
+    setError(null)
+  }
+
+  const handleRemoveTable = (name: string) => {
+    if (!workspace) return
+    const updated = WorkspaceManager.removeTable(workspace, name)
+    const { [name]: _removed, ...history } = cleaningHistory
+    setCleaningHistory(history)
+    setWorkspace(updated)
+    if (name === activeTableName) setActiveTableName(null)
+    persistWorkspace(updated)
+  }
+
+  // Throws so the cleaning panel can show why a step or recipe did not apply
+  const handleApplyCleaning = (steps: CleaningStep[]) => {
+    if (!workspace || !activeTable) return
+    const cleaned = DataCleaner.applyAll(activeTable, steps)
+    const updated = WorkspaceManager.replaceTable(workspace, cleaned)
+    setCleaningHistory({
+      ...cleaningHistory,
+      [activeTable.name]: [...(cleaningHistory[activeTable.name] ?? []), activeTable]
+    })
+    setWorkspace(updated)
+    persistWorkspace(updated)
+  }
+
+  const handleUndoCleaning = () => {
+    if (!workspace || !activeTable) return
+    const history = cleaningHistory[activeTable.name] ?? []
+    const previous = history[history.length - 1]
+    if (!previous) return
+
+    const updated = WorkspaceManager.replaceTable(workspace, previous)
+    setCleaningHistory({ ...cleaningHistory, [activeTable.name]: history.slice(0, -1) })
+    setWorkspace(updated)
+    persistWorkspace(updated)
+  }
+
   const handleNewFile = () => {
-    setProcessedData(null)
+    parserRef.current?.dispose()
+    parserRef.current = null
+    setWorkspace(null)
+    setActiveTableName(null)
+    setIsAddingFile(false)
+    setPendingWorkbook(null)
+    setPendingCsv(null)
+    saveQueueRef.current = newSaveQueue()
+    setSavedQueries([])
+    setCleaningHistory({})
+    setQueuedQuestion(null)
     setError(null)
   }
 
+  const handleOpenDataset = async (dataset: Dataset) => {
+    if (!repository) return
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const [stored, queries] = await Promise.all([
+        repository.loadWorkspace(dataset.id),
+        repository.listQueries(dataset.id)
+      ])
+      setSavedQueries(queries)
+      saveQueueRef.current = newSaveQueue(dataset.id)
+      setActiveTableName(null)
+      setCleaningHistory({})
+      setWorkspace(stored)
+    } catch (err) {
+      setError(`Failed to open ${dataset.name}: ${errorMessage(err)}`)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDeleteDataset = async (dataset: Dataset) => {
+    if (!repository || !window.confirm(`Delete "${dataset.name}" and its question history?`)) return
+
+    try {
+      await repository.deleteDataset(dataset.id)
+      setDatasets(prev => prev.filter(entry => entry.id !== dataset.id))
+    } catch (err) {
+      setWarning(`Could not delete ${dataset.name}: ${errorMessage(err)}`)
+    }
+  }
+
+  // Waits for the dataset's pending save, which may be the one that creates it
+  const handleQueryResult = (question: string, result: AnalysisResult) => {
+    if (!repository) return
+    const queue = saveQueueRef.current
+    queue.pending = queue.pending.then(async () => {
+      if (!queue.datasetId) return
+      await repository.saveQuery(queue.datasetId, question, result)
+        .catch(err => setWarning(`This answer could not be saved: ${errorMessage(err)}`))
+    })
+  }
+
+  const handleAskFinding = (question: string) => {
+    setQueuedQuestion(question)
+    chatRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }
+
+  const renderUploader = () => pendingWorkbook && !isProcessing ? (
+    <>
+      <SheetPicker
+        fileName={pendingWorkbook.file.name}
+        sheets={pendingWorkbook.sheets}
+        onConfirm={handleSheetSelection}
+        onCancel={handleCancelUpload}
+      />
+      {error && (
+        <p className="mt-4 text-sm text-red-600 text-center">{error}</p>
+      )}
+    </>
+  ) : pendingCsv && !isProcessing ? (
+    <>
+      <CsvPreview
+        fileName={pendingCsv.file.name}
+        preview={pendingCsv.preview}
+        isUpdating={isUpdatingPreview}
+        onChangeOptions={handleCsvOptionsChange}
+        onConfirm={handleCsvConfirm}
+        onCancel={handleCancelUpload}
+      />
+      {error && (
+        <p className="mt-4 text-sm text-red-600 text-center">{error}</p>
+      )}
+    </>
+  ) : (
+    <FileUpload 
+      onFileUpload={handleFileUpload}
+      isProcessing={isProcessing}
+      error={error}
+      progress={progress}
+      onCancel={progress ? handleCancelParse : undefined}
+      localePreset={localePreset}
+      onLocaleChange={setLocalePreset}
+    />
+  )
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
       {/* Header */}
@@ -63,7 +366,7 @@ function App() {
               </div>
             </div>
             
-            {processedData && (
+            {activeTable && (
               <button
                 onClick={handleNewFile}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors"
@@ -76,8 +379,18 @@ function App() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {warning && (
+          <div className="mb-6 flex items-start p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span className="flex-1">{warning}</span>
+            <button onClick={() => setWarning(null)} aria-label="Dismiss warning" className="ml-2 hover:text-yellow-900">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <AnimatePresence mode="wait">
-          {!processedData ? (
+          {!workspace || !activeTable ? (
             <motion.div
               key="upload"
               initial={{ opacity: 0, y: 20 }}
@@ -151,11 +464,16 @@ function App() {
                 </div>
               </div>
 
-              <FileUpload 
-                onFileUpload={handleFileUpload}
-                isProcessing={isProcessing}
-                error={error}
-              />
+              {renderUploader()}
+
+              {!pendingWorkbook && !pendingCsv && (
+                <DatasetLibrary
+                  datasets={datasets}
+                  onOpen={handleOpenDataset}
+                  onDelete={handleDeleteDataset}
+                  disabled={isProcessing}
+                />
+              )}
             </motion.div>
           ) : (
             <motion.div
@@ -165,19 +483,60 @@ function App() {
               exit={{ opacity: 0, y: -20 }}
               className="space-y-6"
             >
+              <WorkspacePanel
+                workspace={workspace}
+                activeTable={activeTable.name}
+                onSelectTable={setActiveTableName}
+                onRemoveTable={handleRemoveTable}
+                onAddFile={() => setIsAddingFile(true)}
+              />
+
+              {isAddingFile && (
+                <div className="bg-white rounded-xl border border-gray-200 p-6">
+                  {renderUploader()}
+                  {!pendingWorkbook && !pendingCsv && (
+                    <div className="text-center mt-4">
+                      <button
+                        onClick={handleCancelUpload}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <DataOverview
-                fileName={processedData.metadata.fileName}
-                rowCount={processedData.metadata.rowCount}
-                columnCount={processedData.metadata.columnCount}
-                fileSize={processedData.metadata.fileSize}
-                dataQualityScore={processedData.metadata.dataQualityScore}
-                columns={processedData.columns}
+                fileName={activeTable.metadata.fileName}
+                rowCount={activeTable.metadata.rowCount}
+                columnCount={activeTable.metadata.columnCount}
+                fileSize={activeTable.metadata.fileSize}
+                dataQualityScore={activeTable.metadata.dataQualityScore}
+                columns={activeTable.schema}
+                data={activeTable.data}
+                parseIssues={activeTable.metadata.parseIssues}
               />
-              
-              <ChatInterface
-                data={processedData.data}
-                columns={processedData.columns}
+
+              <CleaningPanel
+                key={activeTable.name}
+                table={activeTable}
+                canUndo={(cleaningHistory[activeTable.name] ?? []).length > 0}
+                onApply={handleApplyCleaning}
+                onUndo={handleUndoCleaning}
               />
+
+              <ExploreFeed workspace={workspace} onAsk={handleAskFinding} />
+
+              <div ref={chatRef}>
+                <ChatInterface
+                  workspace={workspace}
+                  savedQueries={savedQueries}
+                  onResult={handleQueryResult}
+                  queuedQuestion={queuedQuestion}
+                  onQueuedQuestionTaken={() => setQueuedQuestion(null)}
+                />
+              </div>
             </motion.div>
           )}
         </AnimatePresence>
@@ -198,4 +557,8 @@ function App() {
   )
 }
 
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
 export default App
@@ -1,6 +1,6 @@
 import React from 'react'
 import { motion } from 'framer-motion'
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, AreaChart, Area } from 'recharts'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, AreaChart, Area, ScatterChart, Scatter } from 'recharts'
 import { ChartData } from '../types'
 
 interface ChartVisualizationProps {
@@ -11,9 +11,43 @@ const COLORS = ['#3b82f6', '#10b981', '#f97316', '#ef4444', '#8b5cf6', '#06b6d4'
 
 export default function ChartVisualization({ data }: ChartVisualizationProps) {
   const renderChart = () => {
+    // Time series are plotted in period order whatever order the rows arrived in
+    const points = data.timeAxis
+      ? [...data.data].sort((a, b) => String(a.date).localeCompare(String(b.date)))
+      : data.data
     const commonProps = {
-      data: data.data,
-      margin: { top: 5, right: 30, left: 20, bottom: 5 }
+      data: points,
+      margin: { top: 5, right: 30, left: 20, bottom: data.xAxis ? 20 : 5 }
+    }
+    const xAxisLabel = data.xAxis ? { value: data.xAxis, position: 'insideBottom' as const, offset: -10 } : undefined
+    const yAxisLabel = data.yAxis ? { value: data.yAxis, angle: -90, position: 'insideLeft' as const } : undefined
+    const seriesName = data.yAxis ?? 'value'
+    const series = data.series ?? [{ key: 'value', name: seriesName }]
+    const legend = series.length > 1 ? <Legend verticalAlign="top" height={28} /> : null
+    const stackId = data.stacked ? 'stack' : undefined
+    const color = (index: number) => COLORS[index % COLORS.length]
+
+    // A measure on a very different scale gets an axis of its own on the right
+    const hasRightAxis = series.some(entry => entry.axis === 'right')
+    const yAxes = (
+      <>
+        <YAxis yAxisId="left" label={yAxisLabel} />
+        {hasRightAxis && (
+          <YAxis
+            yAxisId="right"
+            orientation="right"
+            label={data.yAxisRight ? { value: data.yAxisRight, angle: 90, position: 'insideRight' as const } : undefined}
+          />
+        )}
+      </>
+    )
+
+    // Each distinct value of the colorBy field gets the next colour, in order of appearance
+    const categoryColors = new Map<string, string>()
+    const colorFor = (point: any) => {
+      const category = String(point[data.colorBy as string])
+      if (!categoryColors.has(category)) categoryColors.set(category, color(categoryColors.size))
+      return categoryColors.get(category) as string
     }
 
     switch (data.type) {
@@ -21,10 +55,23 @@ export default function ChartVisualization({ data }: ChartVisualizationProps) {
         return (
           <LineChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="name" />
-            <YAxis />
+            <XAxis dataKey="name" label={xAxisLabel} />
+            {yAxes}
             <Tooltip />
-            <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} />
+            {legend}
+            {series.map((entry, index) => (
+              <Line
+                key={entry.key}
+                yAxisId={entry.axis ?? 'left'}
+                type="monotone"
+                dataKey={entry.key}
+                name={entry.name}
+                stroke={color(index)}
+                strokeWidth={2}
+                dot={points.length <= 60}
+                connectNulls
+              />
+            ))}
           </LineChart>
         )
 
@@ -42,7 +89,7 @@ export default function ChartVisualization({ data }: ChartVisualizationProps) {
               dataKey="value"
             >
               {data.data.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                <Cell key={`cell-${index}`} fill={color(index)} />
               ))}
             </Pie>
             <Tooltip />
@@ -53,21 +100,70 @@ export default function ChartVisualization({ data }: ChartVisualizationProps) {
         return (
           <AreaChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="name" />
-            <YAxis />
+            <XAxis dataKey="name" label={xAxisLabel} />
+            {yAxes}
             <Tooltip />
-            <Area type="monotone" dataKey="value" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} />
+            {legend}
+            {series.map((entry, index) => (
+              <Area
+                key={entry.key}
+                yAxisId={entry.axis ?? 'left'}
+                stackId={entry.axis === 'right' ? undefined : stackId}
+                type="monotone"
+                dataKey={entry.key}
+                name={entry.name}
+                stroke={color(index)}
+                fill={color(index)}
+                fillOpacity={0.3}
+              />
+            ))}
           </AreaChart>
         )
 
-      default: // bar chart
+      case 'scatter': {
+        // Coloured by category, the points of each value form their own group in the legend
+        const groups = data.colorBy
+          ? Array.from(new Set(points.map(point => String(point[data.colorBy as string]))))
+              .map(category => ({ name: category, points: points.filter(point => String(point[data.colorBy as string]) === category) }))
+          : [{ name: data.yAxis, points }]
+        return (
+          <ScatterChart margin={commonProps.margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="x" name={data.xAxis} domain={['auto', 'auto']} label={xAxisLabel} />
+            <YAxis type="number" dataKey="y" name={data.yAxis} domain={['auto', 'auto']} label={yAxisLabel} />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            {groups.length > 1 && <Legend verticalAlign="top" height={28} />}
+            {groups.map((group, index) => (
+              <Scatter key={group.name ?? index} name={group.name} data={group.points} fill={color(index)} fillOpacity={0.6} />
+            ))}
+          </ScatterChart>
+        )
+      }
+
+      default: // bar chart, grouped unless stacked
         return (
           <BarChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="name" />
-            <YAxis />
+            <XAxis dataKey="name" label={xAxisLabel} />
+            {yAxes}
             <Tooltip />
-            <Bar dataKey="value" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            {legend}
+            {series.map((entry, index) => (
+              <Bar
+                key={entry.key}
+                yAxisId={entry.axis ?? 'left'}
+                stackId={entry.axis === 'right' ? undefined : stackId}
+                dataKey={entry.key}
+                name={entry.name}
+                fill={color(index)}
+                // Only the top of a stack is rounded
+                radius={!stackId || index === series.length - 1 ? [4, 4, 0, 0] : undefined}
+              >
+                {data.colorBy && series.length === 1 && points.map((point, pointIndex) => (
+                  <Cell key={`cell-${pointIndex}`} fill={colorFor(point)} />
+                ))}
+              </Bar>
+            ))}
           </BarChart>
         )
     }
@@ -1,11 +1,14 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, User, Bot, Loader, BarChart3, Table, Lightbulb } from 'lucide-react'
-import { AnalysisResult, DataRow } from '../types'
+import { Send, User, Bot, Loader, BarChart3, Table, Lightbulb, CornerDownRight, Link2, Sparkles, Gauge, HelpCircle } from 'lucide-react'
+import { AnalysisResult, CarriedContext, ChartData, ClarificationChoice, ClarificationData, ClarificationOption, ConversationState, InsightData, Query, TableData, Workspace } from '../types'
 import { AIAgent } from '../services/aiAgent'
+import { QueryExplainer } from '../services/queryExplainer'
+import { QuestionSuggester } from '../services/questionSuggester'
 import ChartVisualization from './ChartVisualization'
 import TableVisualization from './TableVisualization'
 import InsightVisualization from './InsightVisualization'
+import SQLPanel from './SQLPanel'
 
 interface ChatMessage {
   id: string
@@ -16,18 +19,89 @@ interface ChatMessage {
 }
 
 interface ChatInterfaceProps {
-  data: DataRow[]
-  columns: string[]
+  workspace: Workspace
+  // Earlier questions on a reopened dataset, oldest first
+  savedQueries?: Query[]
+  onResult?: (question: string, result: AnalysisResult) => void
+  // A question picked outside the chat, such as from the exploration feed, asked as if typed
+  queuedQuestion?: string | null
+  onQueuedQuestionTaken?: () => void
 }
 
-export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([
+const WELCOME_MESSAGE_ID = '1'
+
+const CARRIED_LABELS: Record<CarriedContext['kind'], string> = {
+  measure: 'Measure',
+  filter: 'Filter',
+  grouping: 'Grouped by'
+}
+
+const confidenceColor = (score: number) => {
+  if (score >= 0.8) return 'text-green-700 bg-green-100'
+  if (score >= 0.6) return 'text-yellow-700 bg-yellow-100'
+  return 'text-red-700 bg-red-100'
+}
+
+// Answers say how their numbers were computed; older saved answers without an explanation get a general note
+const generateResponseText = (result: AnalysisResult): string => {
+  if (result.explanation && result.explanation.length > 0) return QueryExplainer.toSentence(result.explanation)
+  switch (result.type) {
+    case 'chart':
+      return `I've created a visualization to answer your question. The chart shows the data distribution and patterns that match your query.`
+    case 'table':
+      return `Here are the results from your query. I've organized the data in a table format for easy review.`
+    case 'insight':
+      return `Based on my analysis of your data, I've identified some key insights that answer your question.`
+    case 'clarification':
+      return (result.data as ClarificationData).prompt
+    default:
+      return `I've processed your question and prepared the results below.`
+  }
+}
+
+const toMessages = (query: Query): ChatMessage[] => {
+  const timestamp = new Date(query.created_at)
+  return [
+    { id: `${query.id}-question`, type: 'user', content: query.question, timestamp },
     {
-      id: '1',
+      id: `${query.id}-answer`,
       type: 'assistant',
-      content: 'Hello! I\'m your AI data analyst. You can ask me questions about your uploaded data in natural language. Try asking things like:\n\n• "What\'s the average value in the data?"\n• "Show me a breakdown by category"\n• "How many records are there?"\n• "What trends do you see?"',
-      timestamp: new Date()
+      content: generateResponseText(query.result_data),
+      result: query.result_data,
+      timestamp
     }
+  ]
+}
+
+// An answer re-run with edited SQL takes the place of the answer it was edited from, as it did in the chat
+const restoreHistory = (queries: Query[]): ChatMessage[] => {
+  const kept: Query[] = []
+  for (const query of queries) {
+    const origin = query.result_data.generated_sql
+    const edited = origin === undefined ? -1 : kept.map(earlier =>
+      earlier.question === query.question && (earlier.result_data.generated_sql ?? earlier.sql_query) === origin
+    ).lastIndexOf(true)
+    if (edited >= 0) kept[edited] = query
+    else kept.push(query)
+  }
+  return kept.flatMap(toMessages)
+}
+
+export default function ChatInterface({
+  workspace,
+  savedQueries = [],
+  onResult,
+  queuedQuestion,
+  onQueuedQuestionTaken
+}: ChatInterfaceProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [
+    {
+      id: WELCOME_MESSAGE_ID,
+      type: 'assistant',
+      content: 'Hello! I\'m your AI data analyst. You can ask me questions about your uploaded data in natural language, or start with one of the suggestions below.',
+      timestamp: new Date()
+    },
+    ...restoreHistory(savedQueries)
   ])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
@@ -37,33 +111,69 @@ export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Suggestions follow the latest answer, or the loaded columns before anything is answered
+  const suggestions = useMemo(() => {
+    const last = messages[messages.length - 1]
+    const asked = messages.filter(message => message.type === 'user').map(message => message.content)
+    return last?.result
+      ? QuestionSuggester.followUps(last.result, workspace, asked)
+      : QuestionSuggester.initial(workspace, asked)
+  }, [messages, workspace])
+
+  useEffect(() => {
+    if (!queuedQuestion || isLoading) return
+    onQueuedQuestionTaken?.()
+    ask(queuedQuestion)
+  }, [queuedQuestion, isLoading])
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!input.trim() || isLoading) return
+    setInput('')
+
+    // Typing one of the offered options answers the clarifying question
+    const last = messages[messages.length - 1]?.result
+    if (last?.type === 'clarification') {
+      const clarification = last.data as ClarificationData
+      const option = clarification.options.find(entry => entry.label.toLowerCase() === input.trim().toLowerCase())
+      if (option) return choose(clarification, option)
+    }
+    ask(input.trim())
+  }
+
+  // Resumes the clarified question with the picked column, showing the pick as the user's reply
+  const choose = (clarification: ClarificationData, option: ClarificationOption) => {
+    ask(clarification.question, [
+      ...clarification.chosen,
+      { term: clarification.term, table: option.table, column: option.column }
+    ], option.label)
+  }
 
+  const ask = async (question: string, chosen: ClarificationChoice[] = [], shown = question) => {
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
-      content: input.trim(),
+      content: shown,
       timestamp: new Date()
     }
 
     setMessages(prev => [...prev, userMessage])
-    setInput('')
     setIsLoading(true)
 
     try {
-      const result = await AIAgent.processQuery(input.trim(), data, columns)
+      const result = await AIAgent.processQuery(question, workspace, buildConversation(messages), chosen)
       
       const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: this.generateResponseText(result),
+        content: generateResponseText(result),
         result,
         timestamp: new Date()
       }
 
       setMessages(prev => [...prev, assistantMessage])
+      // Only answers are kept; a clarifying question is saved once it has been answered
+      if (result.type !== 'clarification') onResult?.(question, result)
     } catch (error) {
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -77,17 +187,31 @@ export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
     }
   }
 
-  const generateResponseText = (result: AnalysisResult): string => {
-    switch (result.type) {
-      case 'chart':
-        return `I've created a visualization to answer your question. The chart shows the data distribution and patterns that match your query.`
-      case 'table':
-        return `Here are the results from your query. I've organized the data in a table format for easy review.`
-      case 'insight':
-        return `Based on my analysis of your data, I've identified some key insights that answer your question.`
-      default:
-        return `I've processed your question and prepared the results below.`
-    }
+  // An edited query answers the same question in place of the message's result; problems with it are thrown to the panel.
+  // The edited answer is saved like any other, so it is still there when the dataset is reopened.
+  const rerun = (answer: ChatMessage, sql: string) => {
+    const result = answer.result
+    if (!result) return
+    const question = result.context?.question ?? ''
+    const edited = AIAgent.runSQL(question, sql, workspace, result.generated_sql ?? result.sql_query)
+    setMessages(prev => prev.map(message =>
+      message.id === answer.id ? { ...message, content: generateResponseText(edited), result: edited } : message
+    ))
+    onResult?.(question, edited)
+  }
+
+  // The welcome message is not part of the conversation the model should see.
+  // Follow-up questions build on the most recent answer that ran a query.
+  const buildConversation = (chat: ChatMessage[]): ConversationState => {
+    const turns = chat
+      .filter(message => message.id !== WELCOME_MESSAGE_ID)
+      .map(message => ({
+        role: message.type,
+        content: message.content,
+        sql_query: message.result?.sql_query
+      }))
+    const last = [...chat].reverse().find(message => message.result?.context)?.result?.context
+    return { turns, last }
   }
 
   const getMessageIcon = (type: string) => {
@@ -99,14 +223,33 @@ export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
     }
   }
 
-  const renderResult = (result: AnalysisResult) => {
+  // Options of a clarifying question can only be picked while it is the latest message
+  const renderResult = (result: AnalysisResult, latest: boolean) => {
     switch (result.type) {
       case 'chart':
-        return <ChartVisualization data={result.data} />
+        return <ChartVisualization data={result.data as ChartData} />
       case 'table':
-        return <TableVisualization data={result.data} />
+        return <TableVisualization data={result.data as TableData} />
       case 'insight':
-        return <InsightVisualization data={result.data} />
+        return <InsightVisualization data={result.data as InsightData} />
+      case 'clarification': {
+        const clarification = result.data as ClarificationData
+        return (
+          <div className="flex flex-wrap gap-2">
+            {clarification.options.map(option => (
+              <button
+                key={`${option.table}.${option.column}`}
+                onClick={() => choose(clarification, option)}
+                disabled={!latest || isLoading}
+                className="flex items-center px-3 py-1 text-sm font-medium rounded-lg bg-white text-primary-700 border border-primary-200 hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <HelpCircle className="w-4 h-4 mr-2" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )
+      }
       default:
         return null
     }
@@ -121,7 +264,7 @@ export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         <AnimatePresence>
-          {messages.map((message) => (
+          {messages.map((message, index) => (
             <motion.div
               key={message.id}
               initial={{ opacity: 0, y: 20 }}
@@ -144,10 +287,80 @@ export default function ChatInterface({ data, columns }: ChatInterfaceProps) {
                     : 'bg-gray-50 text-gray-900 mr-3'
                 }`}>
                   <div className="whitespace-pre-wrap">{message.content}</div>
+
+                  {message.result?.confidence_explanation && (
+                    <div className="mt-3 flex items-start text-xs">
+                      <span className={`flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded-full font-medium ${confidenceColor(message.result.confidence_score)}`}>
+                        <Gauge className="w-3 h-3 mr-1" />
+                        {Math.round(message.result.confidence_score * 100)}% confidence
+                      </span>
+                      <span className="ml-2 mt-0.5 text-gray-600">{message.result.confidence_explanation}</span>
+                    </div>
+                  )}
+
+                  {message.result?.grounding && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="flex items-center text-gray-500">
+                        <Link2 className="w-3 h-3 mr-1" />
+                        Understood:
+                      </span>
+                      {message.result.grounding.map(item => (
+                        <span
+                          key={`${item.term}-${item.column}`}
+                          className="px-2 py-0.5 rounded-full bg-secondary-50 text-secondary-700 border border-secondary-200"
+                        >
+                          {item.term} → {item.column}{item.value !== undefined && ` = '${item.value}'`}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {message.result?.carried && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="flex items-center text-gray-500">
+                        <CornerDownRight className="w-3 h-3 mr-1" />
+                        Carried forward:
+                      </span>
+                      {message.result.carried.map(item => (
+                        <span
+                          key={`${item.kind}-${item.description}`}
+                          className="px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 border border-primary-200 font-mono"
+                        >
+                          <span className="font-sans">{CARRIED_LABELS[item.kind]}:</span> {item.description}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   
                   {message.result && (
                     <div className="mt-4">
-                      {renderResult(message.result)}
+                      {renderResult(message.result, index === messages.length - 1)}
+                    </div>
+                  )}
+
+                  {message.result?.sql_query && (
+                    <SQLPanel
+                      sql={message.result.sql_query}
+                      generatedSql={message.result.generated_sql}
+                      workspace={workspace}
+                      onRun={sql => rerun(message, sql)}
+                      disabled={isLoading}
+                    />
+                  )}
+
+                  {message.type === 'assistant' && index === messages.length - 1 && !isLoading &&
+                    message.result?.type !== 'clarification' && suggestions.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {suggestions.map(suggestion => (
+                        <button
+                          key={suggestion}
+                          onClick={() => ask(suggestion)}
+                          className="flex items-center px-3 py-1 text-xs rounded-full bg-white text-primary-700 border border-primary-200 hover:bg-primary-50"
+                        >
+                          <Sparkles className="w-3 h-3 mr-1" />
+                          {suggestion}
+                        </button>
+                      ))}
                     </div>
                   )}
                   
@@ -0,0 +1,441 @@
+import React, { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Wand2, ChevronDown, ChevronUp, Undo2, Save, Trash2, Play, Lightbulb } from 'lucide-react'
+import { DataCleaner, ROW_FILTER_LABELS } from '../services/dataCleaner'
+import { DataQualityAnalyzer } from '../services/dataQuality'
+import { RecipeStore } from '../services/persistence'
+import { CleaningRecipe, CleaningStep, CleaningStepType, DataTable, RowFilterOperator } from '../types'
+
+interface CleaningPanelProps {
+  table: DataTable
+  canUndo: boolean
+  // Throws when a step cannot be applied, for example when a recipe names a missing column
+  onApply: (steps: CleaningStep[]) => void
+  onUndo: () => void
+}
+
+// Form fields for every operation; only those of the chosen operation are read
+interface StepDraft {
+  type: CleaningStepType
+  column: string
+  columns: string[]
+  strategy: Extract<CleaningStep, { type: 'fill_nulls' }>['strategy']
+  value: string
+  to: Extract<CleaningStep, { type: 'cast' }>['to']
+  delimiter: string
+  into: string
+  keepOriginal: boolean
+  operator: RowFilterOperator
+  from: string
+}
+
+const OPERATIONS: { value: CleaningStepType; label: string }[] = [
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'fill_nulls', label: 'Fill empty values' },
+  { value: 'cast', label: 'Convert type' },
+  { value: 'split', label: 'Split column' },
+  { value: 'merge', label: 'Merge columns' },
+  { value: 'dedupe', label: 'Remove duplicates' },
+  { value: 'standardize', label: 'Standardize values' },
+  { value: 'drop_rows', label: 'Drop rows' }
+]
+
+const EMPTY_DRAFT: StepDraft = {
+  type: 'trim',
+  column: '',
+  columns: [],
+  strategy: 'median',
+  value: '',
+  to: 'number',
+  delimiter: ',',
+  into: '',
+  keepOriginal: true,
+  operator: 'equals',
+  from: ''
+}
+
+export default function CleaningPanel({ table, canUndo, onApply, onUndo }: CleaningPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<StepDraft>(EMPTY_DRAFT)
+  const [recipes, setRecipes] = useState<CleaningRecipe[]>(() => RecipeStore.list())
+  const [recipeName, setRecipeName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const steps = table.metadata.cleaningSteps ?? []
+  const labels = useMemo(
+    () => Object.fromEntries(table.schema.map(column => [column.name, column.label])),
+    [table.schema]
+  )
+
+  // The report is only worth computing while the panel is open
+  const suggestions = useMemo(
+    () => isOpen ? DataCleaner.suggest(table, DataQualityAnalyzer.analyze(table.data, table.schema)) : [],
+    [isOpen, table]
+  )
+
+  const update = (changes: Partial<StepDraft>) => setDraft({ ...draft, ...changes })
+
+  const apply = (getSteps: () => CleaningStep[]) => {
+    try {
+      onApply(getSteps())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleSaveRecipe = () => {
+    const name = recipeName.trim()
+    if (!name || steps.length === 0) return
+    setRecipes(RecipeStore.save(name, steps))
+    setRecipeName('')
+  }
+
+  const inputClass = 'mt-1 block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  const columnSelect = (label: string, value: string, onChange: (column: string) => void) => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">Choose a column</option>
+        {table.schema.map(column => (
+          <option key={column.name} value={column.name}>{column.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  const columnsSelect = (label: string) => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <select
+        multiple
+        value={draft.columns}
+        onChange={(e) => update({ columns: Array.from(e.target.selectedOptions, option => option.value) })}
+        className={`${inputClass} h-24`}
+      >
+        {table.schema.map(column => (
+          <option key={column.name} value={column.name}>{column.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  const textInput = (label: string, value: string, onChange: (value: string) => void, placeholder?: string) => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+    </label>
+  )
+
+  const keepOriginalToggle = (
+    <label className="flex items-center text-sm text-gray-600 mt-6">
+      <input
+        type="checkbox"
+        checked={draft.keepOriginal}
+        onChange={(e) => update({ keepOriginal: e.target.checked })}
+        className="mr-2"
+      />
+      Keep the original {draft.type === 'merge' ? 'columns' : 'column'}
+    </label>
+  )
+
+  const renderFields = () => {
+    switch (draft.type) {
+      case 'trim':
+        return columnsSelect('Columns (none selected trims all text columns)')
+      case 'fill_nulls':
+        return (
+          <>
+            {columnSelect('Column', draft.column, column => update({ column }))}
+            <label className="block text-sm">
+              <span className="text-gray-600">Fill with</span>
+              <select
+                value={draft.strategy}
+                onChange={(e) => update({ strategy: e.target.value as StepDraft['strategy'] })}
+                className={inputClass}
+              >
+                <option value="median">Median</option>
+                <option value="mean">Mean</option>
+                <option value="mode">Most common value</option>
+                <option value="previous">Value above</option>
+                <option value="value">A fixed value</option>
+              </select>
+            </label>
+            {draft.strategy === 'value' && textInput('Value', draft.value, value => update({ value }))}
+          </>
+        )
+      case 'cast':
+        return (
+          <>
+            {columnSelect('Column', draft.column, column => update({ column }))}
+            <label className="block text-sm">
+              <span className="text-gray-600">Convert to</span>
+              <select
+                value={draft.to}
+                onChange={(e) => update({ to: e.target.value as StepDraft['to'] })}
+                className={inputClass}
+              >
+                <option value="number">Number</option>
+                <option value="text">Text</option>
+                <option value="date">Date</option>
+                <option value="boolean">True/false</option>
+              </select>
+            </label>
+          </>
+        )
+      case 'split':
+        return (
+          <>
+            {columnSelect('Column', draft.column, column => update({ column }))}
+            {textInput('Split on', draft.delimiter, delimiter => update({ delimiter }))}
+            {textInput('New column names', draft.into, into => update({ into }), 'First name, Last name')}
+            {keepOriginalToggle}
+          </>
+        )
+      case 'merge':
+        return (
+          <>
+            {columnsSelect('Columns, in order')}
+            {textInput('Separator', draft.delimiter, delimiter => update({ delimiter }))}
+            {textInput('New column name', draft.into, into => update({ into }))}
+            {keepOriginalToggle}
+          </>
+        )
+      case 'dedupe':
+        return columnsSelect('Compare columns (none selected compares whole rows)')
+      case 'standardize':
+        return (
+          <>
+            {columnSelect('Column', draft.column, column => update({ column }))}
+            {textInput('Replace', draft.from, from => update({ from }))}
+            {textInput('With', draft.value, value => update({ value }))}
+          </>
+        )
+      case 'drop_rows':
+        return (
+          <>
+            {columnSelect('Column', draft.column, column => update({ column }))}
+            <label className="block text-sm">
+              <span className="text-gray-600">Where the value</span>
+              <select
+                value={draft.operator}
+                onChange={(e) => update({ operator: e.target.value as RowFilterOperator })}
+                className={inputClass}
+              >
+                {(Object.keys(ROW_FILTER_LABELS) as RowFilterOperator[]).map(operator => (
+                  <option key={operator} value={operator}>{ROW_FILTER_LABELS[operator]}</option>
+                ))}
+              </select>
+            </label>
+            {draft.operator !== 'is_empty' && textInput('Value', draft.value, value => update({ value }))}
+          </>
+        )
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl border border-gray-200 p-6 mb-6"
+    >
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <div className="flex items-center">
+          <Wand2 className="w-6 h-6 text-primary-600 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-900">Clean Data</h2>
+          {steps.length > 0 && (
+            <span className="ml-3 px-2 py-0.5 rounded-full text-xs font-medium bg-primary-50 text-primary-700">
+              {steps.length} {steps.length === 1 ? 'step' : 'steps'} applied
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-6 space-y-6">
+          {error && (
+            <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+          )}
+
+          {suggestions.length > 0 && (
+            <div>
+              <h3 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                <Lightbulb className="w-4 h-4 text-yellow-500 mr-2" />
+                Suggested fixes
+              </h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {suggestions.map((suggestion, index) => (
+                  <li key={index} className="flex items-center justify-between p-3">
+                    <div className="min-w-0 mr-3">
+                      <p className="text-sm font-medium text-gray-900">{DataCleaner.describe(suggestion.step, labels)}</p>
+                      <p className="text-xs text-gray-500 truncate" title={suggestion.reason}>{suggestion.reason}</p>
+                    </div>
+                    <button
+                      onClick={() => apply(() => [suggestion.step])}
+                      className="px-3 py-1 text-sm font-medium text-primary-600 bg-primary-50 border border-primary-200 rounded-lg hover:bg-primary-100"
+                    >
+                      Apply
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Add a step</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+              <label className="block text-sm">
+                <span className="text-gray-600">Operation</span>
+                <select
+                  value={draft.type}
+                  onChange={(e) => {
+                    const type = e.target.value as CleaningStepType
+                    setDraft({ ...EMPTY_DRAFT, type, delimiter: type === 'merge' ? ' ' : EMPTY_DRAFT.delimiter })
+                  }}
+                  className={inputClass}
+                >
+                  {OPERATIONS.map(operation => (
+                    <option key={operation.value} value={operation.value}>{operation.label}</option>
+                  ))}
+                </select>
+              </label>
+              {renderFields()}
+            </div>
+            <button
+              onClick={() => apply(() => [buildStep(draft)])}
+              className="mt-4 px-4 py-2 text-sm font-medium bg-primary-500 text-white rounded-lg hover:bg-primary-600"
+            >
+              Apply step
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-900">Recipe</h3>
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="flex items-center text-sm text-gray-600 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Undo2 className="w-4 h-4 mr-1" />
+                Undo last step
+              </button>
+            </div>
+            {steps.length === 0 ? (
+              <p className="text-sm text-gray-500">No cleaning steps applied yet.</p>
+            ) : (
+              <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+                {steps.map((step, index) => (
+                  <li key={index}>{DataCleaner.describe(step, labels)}</li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex items-center mt-3 space-x-2">
+              <input
+                value={recipeName}
+                placeholder="Recipe name"
+                onChange={(e) => setRecipeName(e.target.value)}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleSaveRecipe}
+                disabled={!recipeName.trim() || steps.length === 0}
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Save recipe
+              </button>
+            </div>
+          </div>
+
+          {recipes.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Saved recipes</h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {recipes.map(recipe => (
+                  <li key={recipe.name} className="flex items-center justify-between p-3">
+                    <div className="min-w-0 mr-3">
+                      <p className="text-sm font-medium text-gray-900 truncate">{recipe.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {recipe.steps.map(step => DataCleaner.describe(step, labels)).join(' → ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => apply(() => recipe.steps)}
+                        className="flex items-center px-3 py-1 text-sm font-medium text-primary-600 bg-primary-50 border border-primary-200 rounded-lg hover:bg-primary-100"
+                      >
+                        <Play className="w-3 h-3 mr-1" />
+                        Apply
+                      </button>
+                      <button
+                        onClick={() => setRecipes(RecipeStore.remove(recipe.name))}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete recipe ${recipe.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+function buildStep(draft: StepDraft): CleaningStep {
+  const requireColumn = () => {
+    if (!draft.column) throw new Error('Choose a column')
+    return draft.column
+  }
+
+  switch (draft.type) {
+    case 'trim':
+      return { type: 'trim', columns: draft.columns }
+    case 'fill_nulls':
+      return {
+        type: 'fill_nulls',
+        column: requireColumn(),
+        strategy: draft.strategy,
+        ...(draft.strategy === 'value' && { value: draft.value })
+      }
+    case 'cast':
+      return { type: 'cast', column: requireColumn(), to: draft.to }
+    case 'split': {
+      const into = draft.into.split(',').map(name => name.trim()).filter(Boolean)
+      if (into.length === 0) throw new Error('Name the new columns, separated by commas')
+      if (!draft.delimiter) throw new Error('Enter the text to split on')
+      return { type: 'split', column: requireColumn(), delimiter: draft.delimiter, into, keepOriginal: draft.keepOriginal }
+    }
+    case 'merge':
+      if (draft.columns.length < 2) throw new Error('Choose at least two columns to merge')
+      if (!draft.into.trim()) throw new Error('Name the merged column')
+      return {
+        type: 'merge',
+        columns: draft.columns,
+        separator: draft.delimiter,
+        into: draft.into.trim(),
+        keepOriginal: draft.keepOriginal
+      }
+    case 'dedupe':
+      return { type: 'dedupe', columns: draft.columns }
+    case 'standardize':
+      if (!draft.from) throw new Error('Enter the value to replace')
+      return { type: 'standardize', column: requireColumn(), replacements: { [draft.from]: draft.value } }
+    case 'drop_rows':
+      return {
+        type: 'drop_rows',
+        column: requireColumn(),
+        operator: draft.operator,
+        ...(draft.operator !== 'is_empty' && { value: draft.value })
+      }
+  }
+}
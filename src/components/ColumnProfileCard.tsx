@@ -0,0 +1,127 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts'
+import { X } from 'lucide-react'
+import { ColumnProfile } from '../types'
+
+interface ColumnProfileCardProps {
+  profile: ColumnProfile
+  onClose: () => void
+}
+
+const TYPE_LABELS: Record<ColumnProfile['type'], string> = {
+  numeric: 'Decimal number',
+  integer: 'Whole number',
+  date: 'Date',
+  datetime: 'Date and time',
+  boolean: 'True/false',
+  categorical: 'Category',
+  identifier: 'Identifier',
+  text: 'Text'
+}
+
+const formatStat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+export default function ColumnProfileCard({ profile, onClose }: ColumnProfileCardProps) {
+  const nonNullCount = profile.rowCount - profile.nullCount
+  const topCount = profile.topValues[0]?.count ?? 0
+
+  const summary: { label: string; value: string }[] = [
+    { label: 'Type', value: TYPE_LABELS[profile.type] ?? profile.type },
+    {
+      label: 'Empty',
+      value: `${profile.nullCount.toLocaleString()} (${profile.rowCount > 0 ? Math.round((profile.nullCount / profile.rowCount) * 100) : 0}%)`
+    },
+    { label: 'Distinct', value: profile.distinctCount.toLocaleString() }
+  ]
+  if (profile.stats) {
+    summary.push(
+      { label: 'Min', value: formatStat(profile.stats.min) },
+      { label: 'Max', value: formatStat(profile.stats.max) },
+      { label: 'Mean', value: formatStat(profile.stats.mean) },
+      { label: 'Median', value: formatStat(profile.stats.median) },
+      { label: 'Std dev', value: formatStat(profile.stats.stddev) }
+    )
+  }
+  if (profile.dateRange) {
+    summary.push(
+      { label: 'Earliest', value: profile.dateRange.min },
+      { label: 'Latest', value: profile.dateRange.max }
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-4 p-4 border border-gray-200 rounded-lg bg-gray-50"
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h4 className="text-base font-semibold text-gray-900">{profile.label}</h4>
+          {profile.label !== profile.column && (
+            <p className="text-xs text-gray-500">Referenced in queries as {profile.column}</p>
+          )}
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close column profile">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 mb-4">
+        {summary.map(item => (
+          <div key={item.label} className="bg-white rounded-lg border border-gray-200 px-3 py-2">
+            <dt className="text-xs text-gray-500">{item.label}</dt>
+            <dd className="text-sm font-medium text-gray-900 truncate" title={item.value}>{item.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-2">Top values</h5>
+          {profile.topValues.length === 0 ? (
+            <p className="text-sm text-gray-500">No values</p>
+          ) : (
+            <ul className="space-y-1">
+              {profile.topValues.map(entry => (
+                <li key={entry.value} className="flex items-center text-sm">
+                  <span className="w-1/3 truncate text-gray-800" title={entry.value}>{entry.value}</span>
+                  <div className="flex-1 mx-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary-500"
+                      style={{ width: `${topCount > 0 ? (entry.count / topCount) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right text-gray-600">
+                    {entry.count.toLocaleString()}
+                    <span className="text-gray-400"> · {nonNullCount > 0 ? Math.round((entry.count / nonNullCount) * 100) : 0}%</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {profile.histogram.length > 0 && (
+          <div>
+            <h5 className="text-sm font-medium text-gray-700 mb-2">Distribution</h5>
+            <div className="h-36">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={profile.histogram} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <XAxis dataKey="label" hide />
+                  <Tooltip formatter={(value: number) => [value.toLocaleString(), 'Rows']} />
+                  <Bar dataKey="count" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>{profile.histogram[0].label}</span>
+              <span>{profile.histogram[profile.histogram.length - 1].label}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  )
+}
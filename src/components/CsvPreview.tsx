@@ -0,0 +1,141 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { FileText, Loader } from 'lucide-react'
+import { CsvEncoding, CsvOptions, CsvPreview as CsvPreviewData } from '../types'
+
+interface CsvPreviewProps {
+  fileName: string
+  preview: CsvPreviewData
+  isUpdating?: boolean
+  onChangeOptions: (options: CsvOptions) => void
+  onConfirm: (options: CsvOptions) => void
+  onCancel: () => void
+}
+
+const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+]
+
+const ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Latin)' }
+]
+
+const QUOTES: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+  { value: '', label: 'None' }
+]
+
+const DECIMALS: { value: CsvOptions['decimal']; label: string }[] = [
+  { value: '.', label: 'Dot (1234.5)' },
+  { value: ',', label: 'Comma (1234,5)' }
+]
+
+export default function CsvPreview({
+  fileName,
+  preview,
+  isUpdating = false,
+  onChangeOptions,
+  onConfirm,
+  onCancel
+}: CsvPreviewProps) {
+  const { options, rows } = preview
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+
+  const update = (changes: Partial<CsvOptions>) => onChangeOptions({ ...options, ...changes })
+
+  const renderSelect = (
+    label: string,
+    value: string,
+    choices: { value: string; label: string }[],
+    onChange: (value: string) => void
+  ) => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <select
+        value={value}
+        disabled={isUpdating}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      >
+        {choices.map(choice => (
+          <option key={choice.value} value={choice.value}>{choice.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white rounded-xl border border-gray-200 p-6 text-left"
+    >
+      <div className="flex items-center mb-2">
+        <FileText className="w-6 h-6 text-primary-600 mr-3" />
+        <h3 className="text-lg font-semibold text-gray-900">Check the import settings</h3>
+        {isUpdating && <Loader className="w-4 h-4 ml-3 text-gray-500 animate-spin" />}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        We detected these settings for <span className="font-medium">{fileName}</span> (~{preview.totalRows.toLocaleString()} rows).
+        Adjust any that look wrong before loading.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {renderSelect('Delimiter', options.delimiter, DELIMITERS, delimiter => update({ delimiter }))}
+        {renderSelect('Encoding', options.encoding, ENCODINGS, encoding => update({ encoding: encoding as CsvEncoding }))}
+        {renderSelect('Quote character', options.quote ?? '', QUOTES, quote =>
+          update({ quote: quote === '' ? null : quote as CsvOptions['quote'] })
+        )}
+        {renderSelect('Decimal separator', options.decimal, DECIMALS, decimal =>
+          update({ decimal: decimal as CsvOptions['decimal'] })
+        )}
+      </div>
+
+      <div className="overflow-x-auto max-h-72 border border-gray-200 rounded-lg mb-6">
+        <table className="min-w-full text-xs">
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium' : ''}>
+                {Array.from({ length: columnCount }, (_, columnIndex) => (
+                  <td key={columnIndex} className="px-3 py-2 whitespace-pre text-gray-800 border-r border-gray-100 last:border-r-0">
+                    {row[columnIndex] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          {columnCount} columns · showing the first {rows.length} rows
+        </p>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(options)}
+            disabled={isUpdating || rows.length === 0}
+            className="px-4 py-2 text-sm font-medium bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Load data
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -1,6 +1,11 @@
-import React from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
-import { FileSpreadsheet, BarChart3, Database, TrendingUp } from 'lucide-react'
+import { FileSpreadsheet, BarChart3, Database, TrendingUp, AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react'
+import TableVisualization from './TableVisualization'
+import ColumnProfileCard from './ColumnProfileCard'
+import { DataQualityAnalyzer } from '../services/dataQuality'
+import { ColumnProfiler } from '../services/columnProfiler'
+import { ColumnSchema, DataRow, ParseIssue, QualityIssue, QualityIssueKind, TableData } from '../types'
 
 interface DataOverviewProps {
   fileName: string
@@ -8,7 +13,30 @@ interface DataOverviewProps {
   columnCount: number
   fileSize: number
   dataQualityScore: number
-  columns: string[]
+  columns: ColumnSchema[]
+  data: DataRow[]
+  // Datasets saved before issues were tracked have none
+  parseIssues?: ParseIssue[]
+}
+
+const MAX_DRILL_DOWN_ROWS = 500
+const ROW_NUMBER_COLUMN = '__row'
+
+const ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  missing: 'Missing',
+  mixed_types: 'Mixed types',
+  outliers: 'Outliers',
+  duplicate_rows: 'Duplicate rows',
+  inconsistent_spelling: 'Spelling',
+  casing: 'Casing',
+  whitespace: 'Whitespace',
+  date_range: 'Date range'
+}
+
+const SEVERITY_COLORS: Record<QualityIssue['severity'], string> = {
+  high: 'bg-red-100 text-red-700 hover:bg-red-200',
+  medium: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200',
+  low: 'bg-gray-100 text-gray-700 hover:bg-gray-200'
 }
 
 export default function DataOverview({
@@ -17,8 +45,48 @@ export default function DataOverview({
   columnCount,
   fileSize,
   dataQualityScore,
-  columns
+  columns,
+  data,
+  parseIssues = []
 }: DataOverviewProps) {
+  const [showReport, setShowReport] = useState(false)
+  const [selectedIssue, setSelectedIssue] = useState<QualityIssue | null>(null)
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null)
+  const report = useMemo(() => DataQualityAnalyzer.analyze(data, columns), [data, columns])
+  const issueCount = DataQualityAnalyzer.issueCount(report)
+
+  // A new table invalidates the rows of the selected issue
+  useEffect(() => setSelectedIssue(null), [report])
+
+  const profile = useMemo(() => {
+    const column = columns.find(schema => schema.name === profiledColumn)
+    return column ? ColumnProfiler.profile(data, column) : null
+  }, [data, columns, profiledColumn])
+
+  const labels = useMemo(
+    () => Object.fromEntries(columns.map(column => [column.name, column.label])),
+    [columns]
+  )
+
+  // Offending rows with their row number, the affected column first
+  const drillDown = useMemo((): TableData | null => {
+    if (!selectedIssue) return null
+    const ordered = selectedIssue.column
+      ? [selectedIssue.column, ...columns.map(column => column.name).filter(name => name !== selectedIssue.column)]
+      : columns.map(column => column.name)
+    const shown = selectedIssue.rows.slice(0, MAX_DRILL_DOWN_ROWS)
+
+    return {
+      columns: [ROW_NUMBER_COLUMN, ...ordered],
+      columnLabels: { ...labels, [ROW_NUMBER_COLUMN]: 'Row' },
+      rows: shown.map(index => ({ ...data[index], [ROW_NUMBER_COLUMN]: index + 1 })),
+      title: selectedIssue.column ? `${labels[selectedIssue.column]}: ${selectedIssue.description}` : selectedIssue.description,
+      description: shown.length < selectedIssue.rows.length
+        ? `Showing the first ${shown.length.toLocaleString()} of ${selectedIssue.rows.length.toLocaleString()} rows`
+        : undefined
+    }
+  }, [selectedIssue, columns, labels, data])
+
   const formatFileSize = (bytes: number) => {
     const sizes = ['Bytes', 'KB', 'MB', 'GB']
     if (bytes === 0) return '0 Bytes'
@@ -26,6 +94,19 @@ export default function DataOverview({
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
   }
 
+  const renderIssue = (issue: QualityIssue) => (
+    <button
+      key={`${issue.kind}:${issue.column ?? ''}`}
+      onClick={() => setSelectedIssue(issue)}
+      title={issue.description}
+      className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${SEVERITY_COLORS[issue.severity]} ${
+        selectedIssue === issue ? 'ring-2 ring-primary-400' : ''
+      }`}
+    >
+      {ISSUE_LABELS[issue.kind]} · {issue.count.toLocaleString()}
+    </button>
+  )
+
   const getQualityColor = (score: number) => {
     if (score >= 80) return 'text-green-600 bg-green-100'
     if (score >= 60) return 'text-yellow-600 bg-yellow-100'
@@ -111,21 +192,107 @@ export default function DataOverview({
         </motion.div>
       </div>
 
+      {parseIssues.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center mb-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-600 mr-2" />
+            <p className="text-sm font-medium text-yellow-800">Some cells could not be read and were kept as text</p>
+          </div>
+          <ul className="space-y-1 text-sm text-yellow-800">
+            {parseIssues.map(issue => (
+              <li key={`${issue.sheet ?? ''}:${issue.column}`}>
+                <span className="font-medium">{issue.column}</span>
+                {issue.sheet && <span className="text-yellow-700"> ({issue.sheet})</span>}
+                {`: ${issue.count.toLocaleString()} ${issue.count === 1 ? 'value is' : 'values are'} not a ${issue.expected}, e.g. `}
+                {issue.examples.map(example => `"${example.value}" (row ${example.row})`).join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div>
-        <h3 className="text-lg font-medium text-gray-900 mb-3">Available Columns</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Available Columns</h3>
+        <p className="text-sm text-gray-500 mb-3">Click a column to see its profile</p>
         <div className="flex flex-wrap gap-2">
           {columns.map((column, index) => (
-            <motion.span
-              key={column}
+            <motion.button
+              key={column.name}
+              title={column.label !== column.name ? `Referenced in queries as ${column.name}` : undefined}
+              onClick={() => setProfiledColumn(profiledColumn === column.name ? null : column.name)}
               initial={{ opacity: 0, scale: 0.8 }}
               animate={{ opacity: 1, scale: 1 }}
               transition={{ delay: index * 0.05 }}
-              className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 transition-colors"
+              className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                profiledColumn === column.name
+                  ? 'bg-primary-100 text-primary-800'
+                  : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
             >
-              {column}
-            </motion.span>
+              {column.label}
+            </motion.button>
           ))}
         </div>
+        {profile && <ColumnProfileCard profile={profile} onClose={() => setProfiledColumn(null)} />}
+      </div>
+
+      <div className="mt-6 border-t border-gray-100 pt-4">
+        <button
+          onClick={() => setShowReport(!showReport)}
+          className="flex items-center text-sm font-medium text-gray-700 hover:text-primary-600"
+        >
+          {showReport ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+          Quality report · {issueCount === 0 ? 'no issues found' : `${issueCount} ${issueCount === 1 ? 'issue' : 'issues'}`}
+        </button>
+
+        {showReport && (
+          <div className="mt-3">
+            {report.rowIssues.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {report.rowIssues.map(issue => renderIssue(issue))}
+              </div>
+            )}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Column</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Missing</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issues</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.columns.map(column => (
+                    <tr key={column.column}>
+                      <td className="px-4 py-2 font-medium text-gray-900 whitespace-nowrap">{column.label}</td>
+                      <td className="px-4 py-2 text-gray-600">{Math.round(column.missingRate * 100)}%</td>
+                      <td className="px-4 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {column.issues.filter(issue => issue.kind !== 'missing').map(issue => renderIssue(issue))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {drillDown && (
+          <div className="mt-4">
+            <div className="flex justify-end mb-2">
+              <button
+                onClick={() => setSelectedIssue(null)}
+                className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+              >
+                <X className="w-3 h-3 mr-1" />
+                Close rows
+              </button>
+            </div>
+            <TableVisualization key={`${selectedIssue?.kind}:${selectedIssue?.column ?? ''}`} data={drillDown} />
+          </div>
+        )}
       </div>
     </motion.div>
   )
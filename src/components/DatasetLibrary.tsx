@@ -0,0 +1,65 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { formatDistanceToNow } from 'date-fns'
+import { FolderOpen, FileSpreadsheet, Trash2 } from 'lucide-react'
+import { Dataset } from '../types'
+
+interface DatasetLibraryProps {
+  datasets: Dataset[]
+  onOpen: (dataset: Dataset) => void
+  onDelete: (dataset: Dataset) => void
+  disabled?: boolean
+}
+
+export default function DatasetLibrary({ datasets, onOpen, onDelete, disabled = false }: DatasetLibraryProps) {
+  if (datasets.length === 0) return null
+
+  const getQualityColor = (score: number) => {
+    if (score >= 80) return 'text-green-600 bg-green-100'
+    if (score >= 60) return 'text-yellow-600 bg-yellow-100'
+    return 'text-red-600 bg-red-100'
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-2xl mx-auto mt-10 text-left"
+    >
+      <div className="flex items-center mb-3">
+        <FolderOpen className="w-5 h-5 text-gray-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Your datasets</h3>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+        {datasets.map(dataset => (
+          <div key={dataset.id} className="flex items-center p-4">
+            <FileSpreadsheet className="w-5 h-5 text-primary-600 mr-3 flex-shrink-0" />
+            <button
+              onClick={() => onOpen(dataset)}
+              disabled={disabled}
+              className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+            >
+              <p className="font-medium text-gray-900 truncate hover:text-primary-600">{dataset.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {dataset.file_name} · {dataset.row_count.toLocaleString()} rows · updated{' '}
+                {formatDistanceToNow(new Date(dataset.updated_at), { addSuffix: true })}
+              </p>
+            </button>
+            <span className={`ml-3 px-2 py-0.5 rounded-full text-xs font-medium ${getQualityColor(dataset.data_quality_score)}`}>
+              {dataset.data_quality_score}%
+            </span>
+            <button
+              onClick={() => onDelete(dataset)}
+              disabled={disabled}
+              className="ml-3 p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+              aria-label={`Delete ${dataset.name}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Compass, ChevronDown, ChevronUp, Loader, MessageSquare } from 'lucide-react'
+import { ExplorationFinding, InsightData, Workspace } from '../types'
+import { DatasetExplorer } from '../services/datasetExplorer'
+import InsightVisualization from './InsightVisualization'
+
+interface ExploreFeedProps {
+  workspace: Workspace
+  onAsk: (question: string) => void
+}
+
+export default function ExploreFeed({ workspace, onAsk }: ExploreFeedProps) {
+  const [isOpen, setIsOpen] = useState(true)
+  const [findings, setFindings] = useState<ExplorationFinding[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Exploring runs after the first paint so the data overview shows up without waiting for it
+  useEffect(() => {
+    setFindings(null)
+    setError(null)
+    const timer = setTimeout(() => {
+      try {
+        setFindings(DatasetExplorer.explore(workspace))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Exploration failed')
+        setFindings([])
+      }
+    }, 0)
+    return () => clearTimeout(timer)
+  }, [workspace])
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl border border-gray-200 p-6"
+    >
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <div className="flex items-center">
+          <Compass className="w-6 h-6 text-primary-600 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-900">What Stands Out</h2>
+          {findings && findings.length > 0 && (
+            <span className="ml-3 px-2 py-0.5 rounded-full text-xs font-medium bg-primary-50 text-primary-700">
+              {findings.length} {findings.length === 1 ? 'finding' : 'findings'}
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-6">
+          {!findings ? (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Loader className="w-4 h-4 animate-spin" />
+              <span>Exploring your data...</span>
+            </div>
+          ) : error ? (
+            <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+          ) : findings.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing stood out yet. Ask a question below to start exploring.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {findings.map(finding => (
+                <div key={finding.id} className="flex flex-col">
+                  <InsightVisualization data={finding.result.data as InsightData} />
+                  <button
+                    onClick={() => onAsk(finding.question)}
+                    className="mt-2 self-start flex items-center px-3 py-1 text-sm font-medium text-primary-600 bg-primary-50 border border-primary-200 rounded-lg hover:bg-primary-100"
+                    title={finding.question}
+                  >
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Ask about this
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -3,14 +3,35 @@ import { useDropzone } from 'react-dropzone'
 import { Upload, FileSpreadsheet, AlertCircle, CheckCircle } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { formatFileSize } from '../lib/utils'
+import { LOCALE_PRESETS } from '../services/localeParser'
+import { ParsePhase, ParseProgress } from '../types'
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void
   isProcessing?: boolean
   error?: string | null
+  progress?: ParseProgress | null
+  onCancel?: () => void
+  localePreset?: string
+  onLocaleChange?: (presetId: string) => void
 }
 
-export default function FileUpload({ onFileUpload, isProcessing = false, error = null }: FileUploadProps) {
+const PHASE_LABELS: Record<ParsePhase, string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing workbook',
+  cleaning: 'Cleaning rows',
+  scoring: 'Scoring data quality'
+}
+
+export default function FileUpload({
+  onFileUpload,
+  isProcessing = false,
+  error = null,
+  progress = null,
+  onCancel,
+  localePreset = 'auto',
+  onLocaleChange
+}: FileUploadProps) {
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle')
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -26,12 +47,30 @@ export default function FileUpload({ onFileUpload, isProcessing = false, error =
     accept: {
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
-      'text/csv': ['.csv']
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt']
     },
     maxFiles: 1,
     maxSize: 50 * 1024 * 1024, // 50MB
+    disabled: isProcessing
   })
 
+  // Bytes drive the bar while reading, rows afterwards
+  const percent = !progress
+    ? null
+    : progress.phase === 'reading'
+    ? progress.totalBytes > 0 ? progress.bytesRead / progress.totalBytes : null
+    : progress.totalRows > 0 ? progress.rowsParsed / progress.totalRows : null
+
+  const progressDetail = !progress
+    ? 'Analyzing data structure and quality'
+    : progress.phase === 'reading'
+    ? `${formatFileSize(progress.bytesRead)} of ${formatFileSize(progress.totalBytes)}`
+    : progress.totalRows > 0
+    ? `${progress.rowsParsed.toLocaleString()} of ~${progress.totalRows.toLocaleString()} rows`
+    : formatFileSize(progress.totalBytes)
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <motion.div
@@ -64,8 +103,32 @@ export default function FileUpload({ onFileUpload, isProcessing = false, error =
                 <div className="absolute inset-0 border-4 border-primary-200 rounded-full"></div>
                 <div className="absolute inset-0 border-4 border-primary-600 rounded-full border-t-transparent animate-spin"></div>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Processing your file...</h3>
-              <p className="text-gray-600">Analyzing data structure and quality</p>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                {progress ? `${PHASE_LABELS[progress.phase]}...` : 'Processing your file...'}
+              </h3>
+              <p className="text-gray-600">{progressDetail}</p>
+
+              {percent !== null && (
+                <div className="w-full max-w-sm h-2 mt-4 bg-primary-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary-600 transition-all duration-200"
+                    style={{ width: `${Math.round(Math.min(percent, 1) * 100)}%` }}
+                  />
+                </div>
+              )}
+
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onCancel()
+                  }}
+                  className="mt-4 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+              )}
             </motion.div>
           ) : (
             <motion.div
@@ -95,14 +158,14 @@ export default function FileUpload({ onFileUpload, isProcessing = false, error =
               
               <p className="text-gray-600 mb-4">
                 {isDragReject 
-                  ? 'Please upload .xlsx, .xls, or .csv files only'
+                  ? 'Please upload .xlsx, .xls, .csv or .tsv files only'
                   : 'Drag and drop your Excel file here, or click to browse'
                 }
               </p>
               
               {!isDragReject && (
                 <div className="flex items-center space-x-4 text-sm text-gray-500">
-                  <span>Supported formats: .xlsx, .xls, .csv</span>
+                  <span>Supported formats: .xlsx, .xls, .csv, .tsv</span>
                   <span>•</span>
                   <span>Max size: 50MB</span>
                 </div>
@@ -112,6 +175,22 @@ export default function FileUpload({ onFileUpload, isProcessing = false, error =
         </AnimatePresence>
       </motion.div>
 
+      {onLocaleChange && (
+        <label className="mt-4 flex items-center justify-center text-sm text-gray-600">
+          <span className="mr-2">Dates and numbers in text are written as</span>
+          <select
+            value={localePreset}
+            disabled={isProcessing}
+            onChange={(e) => onLocaleChange(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {LOCALE_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
       <AnimatePresence>
         {error && (
           <motion.div
@@ -1,13 +1,17 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { TrendingUp, TrendingDown, AlertTriangle, Info, Lightbulb, BarChart3 } from 'lucide-react'
+import { TrendingUp, TrendingDown, AlertTriangle, Info, Lightbulb, BarChart3, ChevronDown, ChevronUp } from 'lucide-react'
 import { InsightData } from '../types'
+import ChartVisualization from './ChartVisualization'
+import TableVisualization from './TableVisualization'
 
 interface InsightVisualizationProps {
   data: InsightData
 }
 
 export default function InsightVisualization({ data }: InsightVisualizationProps) {
+  const [showEvidence, setShowEvidence] = useState(false)
+
   const getInsightIcon = () => {
     switch (data.type) {
       case 'trend':
@@ -90,6 +94,38 @@ export default function InsightVisualization({ data }: InsightVisualizationProps
         </div>
       )}
 
+      {data.evidence && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowEvidence(!showEvidence)}
+            className="flex items-center space-x-1 text-sm font-medium hover:underline"
+            aria-expanded={showEvidence}
+          >
+            {showEvidence ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            <span>{showEvidence ? 'Hide evidence' : 'Show evidence'}</span>
+          </button>
+
+          {showEvidence && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              className="mt-3 space-y-3"
+            >
+              <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {data.evidence.statistics.map(statistic => (
+                  <div key={statistic.label} className="bg-white bg-opacity-70 rounded-lg px-3 py-2">
+                    <dt className="text-xs">{statistic.label}</dt>
+                    <dd className="text-sm font-bold truncate" title={statistic.value}>{statistic.value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {data.evidence.chart && <ChartVisualization data={data.evidence.chart} />}
+              {data.evidence.table && <TableVisualization data={data.evidence.table} />}
+            </motion.div>
+          )}
+        </div>
+      )}
+
       <div className="mt-4 pt-4 border-t border-current border-opacity-20">
         <div className="flex items-center space-x-2 text-xs">
           <Info className="w-4 h-4" />
@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { Code2, ChevronDown, ChevronUp, Pencil, Play, RotateCcw, X } from 'lucide-react'
+import { Workspace } from '../types'
+import { completeSQL, highlightSQL, SQLCompletions, SQLSpanKind, SQLTable } from '../services/sql'
+
+interface SQLPanelProps {
+  sql: string
+  // The analyst's query, when sql is the user's edit of it
+  generatedSql?: string
+  workspace: Workspace
+  // Runs the edited query in place of the current one; throws when it cannot run
+  onRun: (sql: string) => void
+  disabled?: boolean
+}
+
+const SPAN_CLASSES: Record<SQLSpanKind, string> = {
+  keyword: 'text-purple-700',
+  function: 'text-blue-700',
+  identifier: 'text-gray-900',
+  number: 'text-orange-600',
+  string: 'text-green-700',
+  operator: 'text-gray-600',
+  comment: 'text-gray-400',
+  text: 'text-gray-900'
+}
+
+// The editor is a transparent textarea over highlighted text, so both need the same box and font
+const EDITOR_TEXT = 'm-0 p-3 text-xs font-mono leading-5 whitespace-pre-wrap break-words border rounded-lg'
+
+function HighlightedSQL({ sql }: { sql: string }) {
+  return (
+    <>
+      {highlightSQL(sql).map((span, index) => (
+        <span key={index} className={SPAN_CLASSES[span.kind]}>{span.text}</span>
+      ))}
+    </>
+  )
+}
+
+export default function SQLPanel({ sql, generatedSql, workspace, onRun, disabled = false }: SQLPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(sql)
+  const [error, setError] = useState<string | null>(null)
+  const [completions, setCompletions] = useState<SQLCompletions | null>(null)
+  const [selected, setSelected] = useState(0)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  // Completion only needs names, not rows
+  const tables = useMemo<SQLTable[]>(
+    () => workspace.tables.map(table => ({ name: table.name, columns: table.columns, rows: [] })),
+    [workspace]
+  )
+
+  const startEditing = () => {
+    setDraft(sql)
+    setError(null)
+    setIsEditing(true)
+    setIsOpen(true)
+  }
+
+  const stopEditing = () => {
+    setIsEditing(false)
+    setCompletions(null)
+    setError(null)
+  }
+
+  const suggest = (text: string, cursor: number) => {
+    const found = completeSQL(text, cursor, tables)
+    setCompletions(found.items.length > 0 ? found : null)
+    setSelected(0)
+  }
+
+  const accept = (index: number) => {
+    if (!completions) return
+    const item = completions.items[index]
+    const next = draft.slice(0, completions.from) + item.insert + draft.slice(completions.to)
+    const cursor = completions.from + item.insert.length
+    setDraft(next)
+    setCompletions(null)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const run = () => {
+    if (!draft.trim()) return
+    try {
+      onRun(draft)
+      stopEditing()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The query could not be run')
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      run()
+      return
+    }
+    if (!completions) return
+    const count = completions.items.length
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelected((selected + (e.key === 'ArrowDown' ? 1 : count - 1)) % count)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      accept(selected)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setCompletions(null)
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          <Code2 className="w-4 h-4 mr-1" />
+          {isOpen ? 'Hide SQL' : 'Show SQL'}
+          {isOpen ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+        </button>
+        {generatedSql && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-50 text-secondary-700">
+            Edited SQL
+          </span>
+        )}
+      </div>
+
+      {isOpen && !isEditing && (
+        <div className="mt-2">
+          <pre className={`${EDITOR_TEXT} bg-white border-gray-200`}>
+            <HighlightedSQL sql={sql} />
+          </pre>
+          <button
+            onClick={startEditing}
+            disabled={disabled}
+            className="mt-2 flex items-center px-3 py-1 text-xs font-medium text-primary-600 bg-primary-50 border border-primary-200 rounded-lg hover:bg-primary-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Pencil className="w-3 h-3 mr-1" />
+            Edit and re-run
+          </button>
+        </div>
+      )}
+
+      {isOpen && isEditing && (
+        <div className="mt-2">
+          <div className="relative">
+            <pre aria-hidden className={`${EDITOR_TEXT} bg-white border-gray-300 pointer-events-none`}>
+              {/* The trailing newline keeps the last line's height when it is empty */}
+              <HighlightedSQL sql={`${draft}\n`} />
+            </pre>
+            <textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={e => {
+                setDraft(e.target.value)
+                suggest(e.target.value, e.target.selectionStart)
+              }}
+              onKeyDown={handleKeyDown}
+              onClick={() => setCompletions(null)}
+              onBlur={() => setCompletions(null)}
+              spellCheck={false}
+              autoFocus
+              aria-label="SQL query"
+              className={`${EDITOR_TEXT} absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-gray-900 border-transparent focus:outline-none focus:ring-2 focus:ring-primary-500`}
+            />
+          </div>
+
+          {completions && (
+            <ul className="mt-1 border border-gray-200 rounded-lg bg-white shadow-sm text-xs font-mono overflow-hidden">
+              {completions.items.map((item, index) => (
+                <li
+                  key={`${item.kind}-${item.detail ?? ''}-${item.label}`}
+                  // Picking with the mouse must not blur the textarea first
+                  onMouseDown={e => {
+                    e.preventDefault()
+                    accept(index)
+                  }}
+                  className={`flex items-center justify-between px-3 py-1 cursor-pointer ${
+                    index === selected ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span>{item.label}</span>
+                  <span className="ml-4 font-sans text-gray-400">{item.detail ?? item.kind}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && (
+            <p className="mt-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+          )}
+
+          <div className="mt-2 flex items-center space-x-2">
+            <button
+              onClick={run}
+              disabled={disabled || !draft.trim()}
+              className="flex items-center px-3 py-1 text-xs font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Run (Ctrl+Enter)"
+            >
+              <Play className="w-3 h-3 mr-1" />
+              Run
+            </button>
+            <button
+              onClick={stopEditing}
+              className="flex items-center px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </button>
+            {generatedSql && draft !== generatedSql && (
+              <button
+                onClick={() => setDraft(generatedSql)}
+                className="flex items-center px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Back to generated SQL
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Layers, Sheet, CheckSquare, Square, Star } from 'lucide-react'
+import { SheetLoadMode, SheetSelection, SheetSummary } from '../types'
+import { DataProcessor } from '../services/dataProcessor'
+
+interface SheetPickerProps {
+  fileName: string
+  sheets: SheetSummary[]
+  onConfirm: (selection: SheetSelection) => void
+  onCancel: () => void
+}
+
+export default function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+  const [selected, setSelected] = useState<string[]>(
+    sheets.filter(sheet => sheet.suggested).map(sheet => sheet.name)
+  )
+  const [mode, setMode] = useState<SheetLoadMode>('separate')
+
+  const selectedSheets = sheets.filter(sheet => selected.includes(sheet.name))
+  const canStack = DataProcessor.haveMatchingHeaders(selectedSheets)
+  const effectiveMode: SheetLoadMode = selected.length <= 1
+    ? 'single'
+    : mode === 'stack' && !canStack ? 'separate' : mode
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev =>
+      prev.includes(name) ? prev.filter(sheet => sheet !== name) : [...prev, name]
+    )
+  }
+
+  const handleConfirm = () => {
+    // Keep workbook order regardless of click order
+    const ordered = sheets.map(sheet => sheet.name).filter(name => selected.includes(name))
+    onConfirm({ sheets: ordered, mode: effectiveMode })
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-2xl mx-auto bg-white rounded-xl border border-gray-200 p-6 text-left"
+    >
+      <div className="flex items-center mb-2">
+        <Layers className="w-6 h-6 text-primary-600 mr-3" />
+        <h3 className="text-lg font-semibold text-gray-900">Choose sheets to load</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        <span className="font-medium">{fileName}</span> contains {sheets.length} sheets.
+      </p>
+
+      <div className="space-y-2 mb-6 max-h-72 overflow-y-auto">
+        {sheets.map(sheet => {
+          const isSelected = selected.includes(sheet.name)
+          return (
+            <button
+              key={sheet.name}
+              type="button"
+              onClick={() => toggleSheet(sheet.name)}
+              className={`w-full flex items-start p-3 rounded-lg border transition-colors ${
+                isSelected ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {isSelected
+                ? <CheckSquare className="w-5 h-5 text-primary-600 mr-3 flex-shrink-0" />
+                : <Square className="w-5 h-5 text-gray-400 mr-3 flex-shrink-0" />}
+              <div className="flex-1 min-w-0 text-left">
+                <div className="flex items-center space-x-2">
+                  <Sheet className="w-4 h-4 text-gray-500" />
+                  <span className="font-medium text-gray-900">{sheet.name}</span>
+                  {sheet.suggested && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700">
+                      <Star className="w-3 h-3 mr-1" />
+                      Largest
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  ~{sheet.rowCount.toLocaleString()} rows · {sheet.columnCount} columns
+                </p>
+                {sheet.headers.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1 truncate" title={sheet.headers.join(', ')}>
+                    {sheet.headers.join(', ')}
+                  </p>
+                )}
+              </div>
+            </button>
+          )
+        })}
+      </div>
+
+      {selected.length > 1 && (
+        <div className="mb-6 space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={effectiveMode === 'separate'}
+              onChange={() => setMode('separate')}
+            />
+            <span>Load as separate tables</span>
+          </label>
+          <label className={`flex items-center space-x-2 text-sm ${canStack ? 'text-gray-700' : 'text-gray-400'}`}>
+            <input
+              type="radio"
+              checked={effectiveMode === 'stack'}
+              disabled={!canStack}
+              onChange={() => setMode('stack')}
+            />
+            <span>
+              Stack sheets with matching headers (adds a source sheet column)
+              {!canStack && ' — headers differ'}
+            </span>
+          </label>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={selected.length === 0}
+          className="px-4 py-2 text-sm font-medium bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Load {selected.length === 1 ? 'sheet' : `${selected.length} sheets`}
+        </button>
+      </div>
+    </motion.div>
+  )
+}
@@ -15,10 +15,14 @@ export default function TableVisualization({ data }: TableVisualizationProps) {
   const startIndex = (currentPage - 1) * itemsPerPage
   const endIndex = startIndex + itemsPerPage
   const currentRows = data.rows.slice(startIndex, endIndex)
+  const columnLabel = (column: string) => data.columnLabels?.[column] ?? column
 
   const handleExport = () => {
     const csvContent = [
-      data.columns.join(','),
+      data.columns.map(col => {
+        const label = columnLabel(col)
+        return label.includes(',') ? `"${label}"` : label
+      }).join(','),
       ...data.rows.map(row => 
         data.columns.map(col => {
           const value = row[col]
@@ -73,9 +77,10 @@ export default function TableVisualization({ data }: TableVisualizationProps) {
                   {data.columns.map((column, index) => (
                     <th
                       key={column}
+                      title={column}
                       className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                     >
-                      {column}
+                      {columnLabel(column)}
                     </th>
                   ))}
                 </tr>
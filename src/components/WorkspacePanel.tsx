@@ -0,0 +1,89 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { Table2, Link2, Plus, X } from 'lucide-react'
+import { Workspace } from '../types'
+
+interface WorkspacePanelProps {
+  workspace: Workspace
+  activeTable: string
+  onSelectTable: (name: string) => void
+  onRemoveTable: (name: string) => void
+  onAddFile: () => void
+}
+
+export default function WorkspacePanel({
+  workspace,
+  activeTable,
+  onSelectTable,
+  onRemoveTable,
+  onAddFile
+}: WorkspacePanelProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-xl border border-gray-200 p-4"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        {workspace.tables.map(table => (
+          <div
+            key={table.name}
+            className={`inline-flex items-center rounded-lg border text-sm font-medium transition-colors ${
+              table.name === activeTable
+                ? 'bg-primary-500 text-white border-primary-500'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            <button
+              onClick={() => onSelectTable(table.name)}
+              className="inline-flex items-center px-3 py-2"
+              title={`${table.label} (${table.metadata.fileName})`}
+            >
+              <Table2 className="w-4 h-4 mr-2" />
+              {table.name}
+            </button>
+            {workspace.tables.length > 1 && (
+              <button
+                onClick={() => onRemoveTable(table.name)}
+                className="pr-2 opacity-70 hover:opacity-100"
+                aria-label={`Remove ${table.name}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        <button
+          onClick={onAddFile}
+          className="inline-flex items-center px-3 py-2 text-sm font-medium text-primary-600 border border-dashed border-primary-300 rounded-lg hover:bg-primary-50 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add file
+        </button>
+      </div>
+
+      {workspace.relationships.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Detected join keys</p>
+          <ul className="space-y-1">
+            {workspace.relationships.map(relationship => (
+              <li
+                key={`${relationship.fromTable}.${relationship.fromColumn}-${relationship.toTable}.${relationship.toColumn}`}
+                className="flex items-center text-sm text-gray-700"
+              >
+                <Link2 className="w-4 h-4 text-gray-400 mr-2" />
+                <span className="font-mono">
+                  {relationship.fromTable}.{relationship.fromColumn} → {relationship.toTable}.{relationship.toColumn}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {Math.round(relationship.overlap * 100)}% of values match
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { ChartData, ConversationState } from '../types'
+import { salesTable } from '../test/fixtures'
+import { AIAgent } from './aiAgent'
+import { HeuristicProvider, MockLLMProvider } from './llm'
+import { WorkspaceManager } from './workspace'
+
+const workspace = WorkspaceManager.create([salesTable()])
+
+// The conversation after answering "total price by region"
+async function afterFirstAnswer(): Promise<ConversationState> {
+  const first = await AIAgent.processQuery('total price by region', workspace)
+  return { turns: [], last: first.context }
+}
+
+describe('AIAgent', () => {
+  beforeAll(() => AIAgent.setProvider(new HeuristicProvider()))
+
+  it('shows what a follow-up carried over from the previous answer', async () => {
+    const result = await AIAgent.processQuery('now only for 2023', workspace, await afterFirstAnswer())
+    expect(result.sql_query).toContain('YEAR(Order_Date) = 2023')
+    expect(result.carried).toEqual(expect.arrayContaining([{ kind: 'grouping', description: 'Region' }]))
+  })
+
+  it('carries nothing over into a new question that shares the previous measure', async () => {
+    const conversation = await afterFirstAnswer()
+    const result = await AIAgent.processQuery('monthly total price with moving average', workspace, conversation)
+    expect(result.context?.measures).toEqual(conversation.last?.measures)
+    expect(result.carried).toBeUndefined()
+  })
+
+  it('charts two category dimensions as one series per value of the second', async () => {
+    const result = await AIAgent.processQuery('chart of total price by region and product', workspace)
+    const chart = result.data as ChartData
+    expect(result.type).toBe('chart')
+    expect(chart.data).toHaveLength(4)
+    expect(chart.series?.map(series => series.name)).toEqual(expect.arrayContaining(['Widget', 'Gadget', 'Gizmo']))
+  })
+
+  describe('with the mock provider', () => {
+    let provider: MockLLMProvider
+    beforeEach(() => {
+      provider = new MockLLMProvider()
+      AIAgent.setProvider(provider)
+    })
+    afterAll(() => AIAgent.setProvider(new HeuristicProvider()))
+
+    it('runs the canned reply to a question', async () => {
+      const result = await AIAgent.processQuery('How many records are there?', workspace)
+      expect(result.sql_query).toBe('SELECT COUNT(*) AS count FROM sales')
+      expect(result.confidence_explanation).not.toContain('provider')
+      expect(provider.prompts).toHaveLength(1)
+    })
+
+    it('falls back to the heuristic provider when no reply is canned', async () => {
+      AIAgent.setProvider(new MockLLMProvider({ replies: [] }))
+      const result = await AIAgent.processQuery('total price by region', workspace)
+      expect(result.sql_query).toContain('GROUP BY Region')
+      expect(result.confidence_explanation).toContain('mock provider failed (No canned reply for question "total price by region")')
+    })
+
+    it('rejects a canned reply the data cannot answer and says why', async () => {
+      AIAgent.setProvider(new MockLLMProvider({ replies: [{ question: 'units by region', sql: 'SELECT Colour FROM {table}' }] }))
+      const result = await AIAgent.processQuery('units by region', workspace)
+      expect(result.sql_query).toContain('SUM(Units)')
+      expect(result.confidence_explanation).toContain('mock provider\'s query was rejected (Unknown column "Colour"')
+    })
+  })
+})
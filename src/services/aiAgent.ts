@@ -1,44 +1,62 @@
-import { AnalysisResult, DataRow, ChartData, TableData, InsightData } from '../types'
+import { AnalysisResult, ChartData, TableData, InsightData, ClarificationChoice, ConversationState, ConversationContext, DataTable, Workspace } from '../types'
+import { ChartBuilder } from './chartBuilder'
+import { ConfidenceScorer } from './confidenceScorer'
+import { InsightEngine } from './insightEngine'
+import { QueryExplainer } from './queryExplainer'
+import { QueryResult, SQLEngine, SQLTable } from './sql'
+import { TimeSeriesAnalyzer } from './timeSeries'
+import { Clarifier, createLLMProvider, FollowUpResolver, HeuristicProvider, LLMProvider, SQLGenerationRequest, ValueGrounder } from './llm'
+
+const SAMPLE_ROW_COUNT = 5
+// Text columns with more distinct values than this are not indexed for value matching
+const MAX_INDEXED_VALUES = 500
+// Bars beyond this many are left off charts
+const MAX_CHART_CATEGORIES = 20
+const COLOR_PATTERN = /\bcolou?r(ed|s)?\b/
+
+const MEASURE_WORDS: Record<string, string> = {
+  COUNT: 'count',
+  SUM: 'total',
+  AVG: 'average',
+  MIN: 'minimum',
+  MAX: 'maximum',
+  MEDIAN: 'median',
+  STDDEV: 'standard deviation of'
+}
 
 export class AIAgent {
-  private static openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY
+  private static setup = createLLMProvider()
+  private static provider: LLMProvider = this.setup.provider
+  private static fallbackProvider: LLMProvider = new HeuristicProvider()
+  // Why the configured provider could not be used, shown to the user instead of failing at startup
+  static configurationProblem: string | null = this.setup.problem ?? null
+
+  static setProvider(provider: LLMProvider) {
+    this.provider = provider
+    this.configurationProblem = null
+  }
 
   static async processQuery(
     question: string,
-    data: DataRow[],
-    columns: string[]
+    workspace: Workspace,
+    conversation: ConversationState = { turns: [] },
+    // Columns picked in answer to earlier clarifying questions about this question
+    chosen: ClarificationChoice[] = []
   ): Promise<AnalysisResult> {
     try {
       // Generate SQL query based on natural language
-      const sqlQuery = await this.generateSQLQuery(question, columns)
-      
-      // Execute query on data
-      const queryResult = this.executeQuery(sqlQuery, data, columns)
-      
-      // Determine result type and format
-      const resultType = this.determineResultType(question, queryResult)
-      
-      let formattedResult: ChartData | TableData | InsightData
-      
-      switch (resultType) {
-        case 'chart':
-          formattedResult = this.formatAsChart(queryResult, question)
-          break
-        case 'insight':
-          formattedResult = this.formatAsInsight(queryResult, question)
-          break
-        default:
-          formattedResult = this.formatAsTable(queryResult, question)
-      }
-      
-      return {
-        type: resultType,
-        data: formattedResult,
-        sql_query: sqlQuery,
-        confidence_score: this.calculateConfidenceScore(question, queryResult)
+      const request = this.buildRequest(question, workspace, conversation, chosen)
+
+      // Ask back rather than guess when the question could mean several measures
+      const clarification = Clarifier.check(request, chosen)
+      if (clarification) {
+        return { type: 'clarification', data: clarification, confidence_score: 0 }
       }
+
+      const { sql: sqlQuery, fallback } = await this.generateSQLQuery(request, workspace)
+      return this.answer(request, sqlQuery, workspace, fallback, conversation.last)
     } catch (error) {
-      console.error('AI processing error:', error)
+      const reason = error instanceof Error ? error.message : String(error)
       return {
         type: 'insight',
         data: {
@@ -47,117 +65,224 @@ export class AIAgent {
           description: 'I encountered an issue processing your question. Please try rephrasing or check your data format.',
           confidence: 0.1
         } as InsightData,
-        confidence_score: 0.1
+        confidence_score: 0.1,
+        confidence_explanation: `No query could be run for this question: ${reason}`
       }
     }
   }
 
-  private static async generateSQLQuery(question: string, columns: string[]): Promise<string> {
-    // This is a simplified implementation. In production, you'd use OpenAI API or similar
-    const lowercaseQuestion = question.toLowerCase()
-    const availableColumns = columns.map(col => col.toLowerCase())
+  // Answers the question with SQL the user edited; problems with the SQL are thrown so they can be shown beside it
+  static runSQL(question: string, sql: string, workspace: Workspace, generatedSQL?: string): AnalysisResult {
+    const problem = SQLEngine.validate(sql, this.toTables(workspace))
+    if (problem) throw new Error(problem)
+    const result = this.answer(this.buildRequest(question, workspace, { turns: [] }, []), sql, workspace, undefined)
+    return generatedSQL && generatedSQL !== sql ? { ...result, generated_sql: generatedSQL } : result
+  }
+
+  // Runs the query and shapes its rows into the answer to the request's question
+  private static answer(
+    request: SQLGenerationRequest,
+    sqlQuery: string,
+    workspace: Workspace,
+    // Why the configured provider's query was not used, when it was not
+    fallback: string | undefined,
+    previous?: ConversationContext
+  ): AnalysisResult {
+    const question = request.question
     
-    // Basic pattern matching for common queries
-    if (lowercaseQuestion.includes('average') || lowercaseQuestion.includes('mean')) {
-      const numericColumns = this.findNumericColumns(availableColumns)
-      if (numericColumns.length > 0) {
-        return `SELECT AVG(${numericColumns[0]}) as average FROM data`
-      }
-    }
+    // Execute query on data
+    const executed = this.executeQuery(sqlQuery, workspace)
+    const queryResult = executed.rows
+    const labels = this.resultLabels(executed, workspace)
     
-    if (lowercaseQuestion.includes('count') || lowercaseQuestion.includes('how many')) {
-      return `SELECT COUNT(*) as count FROM data`
+    const summary = FollowUpResolver.summarize(sqlQuery)
+
+    const measureLabels = this.measureLabels(sqlQuery, workspace)
+    // Counts and sums can be stacked and added up; averages and extremes cannot
+    const additive = summary.measures.length > 0 && summary.measures.every(measure => /\b(COUNT|SUM)\(/.test(measure))
+
+    // Questions about change over time get a line chart when the rows are a dated series
+    const timeSeries = TimeSeriesAnalyzer.detect(question)
+    const timeChart = timeSeries && TimeSeriesAnalyzer.toChart(queryResult, timeSeries, {
+      labels: { ...labels, ...measureLabels },
+      additive
+    })
+
+    // Trend, correlation and outlier questions are answered with tested statistics and their evidence
+    const analysis = InsightEngine.detect(question)
+    const columnOptions = {
+      columns: this.numericColumns(executed.columns, workspace),
+      focus: request.grounding.columns.map(match => match.column),
+      labels
     }
+    let insight: InsightData | null = null
+    if (analysis === 'trend' && timeChart && !timeSeries?.transform) insight = InsightEngine.trend(timeChart)
+    else if (analysis === 'correlation') insight = InsightEngine.correlation(queryResult, columnOptions)
+    else if (analysis === 'anomaly') insight = InsightEngine.anomalies(queryResult, columnOptions)
+
+    // Determine result type and format
+    const resultType = insight ? 'insight' : timeChart ? 'chart' : this.determineResultType(question, queryResult)
     
-    if (lowercaseQuestion.includes('sum') || lowercaseQuestion.includes('total')) {
-      const numericColumns = this.findNumericColumns(availableColumns)
-      if (numericColumns.length > 0) {
-        return `SELECT SUM(${numericColumns[0]}) as total FROM data`
-      }
-    }
+    let formattedResult: ChartData | TableData | InsightData
     
-    if (lowercaseQuestion.includes('group by') || lowercaseQuestion.includes('breakdown')) {
-      const categoryColumn = this.findCategoryColumn(availableColumns)
-      const numericColumn = this.findNumericColumns(availableColumns)[0]
-      if (categoryColumn && numericColumn) {
-        return `SELECT ${categoryColumn}, COUNT(*) as count FROM data GROUP BY ${categoryColumn}`
-      }
+    switch (resultType) {
+      case 'chart':
+        formattedResult = timeChart ?? this.formatAsChart(queryResult, question, labels, measureLabels, additive)
+        break
+      case 'insight':
+        formattedResult = insight ?? this.formatAsInsight(queryResult, question)
+        break
+      default:
+        formattedResult = this.formatAsTable(queryResult, question, labels)
     }
     
-    // Default: show all data
-    return `SELECT * FROM data LIMIT 100`
-  }
+    const context: ConversationContext = {
+      question,
+      sql: sqlQuery,
+      ...summary,
+      resultColumns: executed.columns,
+      rowCount: queryResult.length
+    }
+    // Only a follow-up builds on the previous answer; a new question that happens to share its measure does not
+    const carried = previous && FollowUpResolver.isFollowUp(question) ? FollowUpResolver.carried(previous, summary) : []
+    const grounding = ValueGrounder.used(request.grounding, sqlQuery, request.tables)
+    const confidence = ConfidenceScorer.assess({
+      question,
+      grounding: request.grounding,
+      result: executed,
+      workspace,
+      fallback
+    })
 
-  private static findNumericColumns(columns: string[]): string[] {
-    return columns.filter(col => 
-      col.includes('amount') || 
-      col.includes('price') || 
-      col.includes('cost') || 
-      col.includes('value') || 
-      col.includes('quantity') ||
-      col.includes('number') ||
-      col.includes('count')
-    )
+    return {
+      type: resultType,
+      data: formattedResult,
+      sql_query: sqlQuery,
+      confidence_score: confidence.score,
+      confidence_explanation: confidence.explanation,
+      explanation: QueryExplainer.explain(executed, workspace),
+      context,
+      ...(carried.length > 0 && { carried }),
+      ...(grounding.length > 0 && { grounding })
+    }
   }
 
-  private static findCategoryColumn(columns: string[]): string | null {
-    const categoryKeywords = ['category', 'type', 'status', 'region', 'department', 'group', 'class']
-    return columns.find(col => 
-      categoryKeywords.some(keyword => col.includes(keyword))
-    ) || columns[0] || null
+  private static buildRequest(
+    question: string,
+    workspace: Workspace,
+    conversation: ConversationState,
+    chosen: ClarificationChoice[]
+  ): SQLGenerationRequest {
+    const tables = workspace.tables.map(table => ({
+      name: table.name,
+      schema: table.schema,
+      sampleRows: table.data.slice(0, SAMPLE_ROW_COUNT),
+      values: this.indexValues(table)
+    }))
+    return {
+      question,
+      tables,
+      relationships: workspace.relationships,
+      history: conversation.turns,
+      context: conversation.last,
+      grounding: Clarifier.apply(ValueGrounder.ground(question, tables), chosen)
+    }
   }
 
-  private static executeQuery(sqlQuery: string, data: DataRow[], columns: string[]): any[] {
-    // Simplified query execution - in production, use a proper SQL engine
-    if (sqlQuery.includes('AVG(')) {
-      const column = this.extractColumnFromQuery(sqlQuery)
-      const numericValues = data
-        .map(row => parseFloat(row[column]))
-        .filter(val => !isNaN(val))
-      const average = numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length
-      return [{ average: Math.round(average * 100) / 100 }]
+  // Falls back to the keyword provider when the configured one fails or writes invalid SQL,
+  // saying why so the answer's confidence can report it
+  private static async generateSQLQuery(
+    request: SQLGenerationRequest,
+    workspace: Workspace
+  ): Promise<{ sql: string; fallback?: string }> {
+    const tables = this.toTables(workspace)
+
+    let reason: string
+    try {
+      const sql = await this.provider.generateSQL(request)
+      const problem = SQLEngine.validate(sql, tables)
+      if (!problem) return { sql }
+      reason = `the ${this.provider.name} provider's query was rejected (${problem})`
+    } catch (error) {
+      reason = `the ${this.provider.name} provider failed (${error instanceof Error ? error.message : String(error)})`
     }
-    
-    if (sqlQuery.includes('COUNT(*)')) {
-      return [{ count: data.length }]
+
+    if (this.provider.name === this.fallbackProvider.name) {
+      throw new Error(`Could not generate a valid query for this question: ${reason}`)
     }
-    
-    if (sqlQuery.includes('SUM(')) {
-      const column = this.extractColumnFromQuery(sqlQuery)
-      const total = data
-        .map(row => parseFloat(row[column]))
-        .filter(val => !isNaN(val))
-        .reduce((sum, val) => sum + val, 0)
-      return [{ total: Math.round(total * 100) / 100 }]
+    return { sql: await this.fallbackProvider.generateSQL(request), fallback: reason }
+  }
+
+  // Distinct values of category and short text columns, so questions can name them
+  private static indexValues(table: DataTable): Record<string, string[]> {
+    const values: Record<string, string[]> = {}
+    for (const column of table.schema) {
+      const indexed = column.type === 'categorical' || (column.type === 'text' && column.cardinality <= MAX_INDEXED_VALUES)
+      if (!indexed) continue
+      const distinct = new Set<string>()
+      for (const row of table.data) {
+        const value = row[column.name]
+        if (value !== null && value !== undefined && value !== '') distinct.add(String(value))
+      }
+      values[column.name] = Array.from(distinct)
     }
-    
-    if (sqlQuery.includes('GROUP BY')) {
-      const groupColumn = this.extractGroupByColumn(sqlQuery)
-      const groups: { [key: string]: number } = {}
-      
-      data.forEach(row => {
-        const key = row[groupColumn]
-        groups[key] = (groups[key] || 0) + 1
-      })
-      
-      return Object.entries(groups).map(([key, count]) => ({
-        [groupColumn]: key,
-        count
-      }))
+    return values
+  }
+
+  private static toTables(workspace: Workspace): SQLTable[] {
+    return workspace.tables.map(table => ({ name: table.name, columns: table.columns, rows: table.data }))
+  }
+
+  private static executeQuery(sqlQuery: string, workspace: Workspace): QueryResult {
+    // The generated SQL runs as-is, so sql_query always describes the returned rows
+    return SQLEngine.execute(sqlQuery, this.toTables(workspace))
+  }
+
+  // Maps result columns that pass a data column through unchanged to that column's original header text
+  private static resultLabels(result: QueryResult, workspace: Workspace): Record<string, string> {
+    const tablesByAlias = new Map<string, DataTable>()
+    for (const step of result.plan.steps) {
+      if (step.op !== 'scan' && step.op !== 'join') continue
+      const table = workspace.tables.find(candidate => candidate.name.toLowerCase() === step.table.toLowerCase())
+      if (table) tablesByAlias.set(step.alias, table)
     }
-    
-    // Default: return limited data
-    return data.slice(0, 100)
+
+    const labels: Record<string, string> = {}
+    for (const step of result.plan.steps) {
+      if (step.op !== 'project') continue
+      for (const column of step.columns) {
+        const { expression } = column
+        if (expression.kind !== 'column' || column.name !== expression.name) continue
+        const schema = tablesByAlias.get(expression.table ?? '')?.schema.find(entry => entry.name === expression.name)
+        if (schema && schema.label !== column.name) labels[column.name] = schema.label
+      }
+    }
+    return labels
   }
 
-  private static extractColumnFromQuery(query: string): string {
-    const match = query.match(/(?:AVG|SUM)\(([^)]+)\)/)
-    return match ? match[1] : ''
+  // Names aggregate result columns after what they compute, e.g. "total" as "total Revenue"
+  private static measureLabels(sql: string, workspace: Workspace): Record<string, string> {
+    const labels: Record<string, string> = {}
+    for (const item of SQLEngine.parse(sql).columns) {
+      let expression = item.expression
+      if (expression.kind === 'function' && expression.name === 'ROUND') expression = expression.args[0]
+      if (!item.alias || expression?.kind !== 'function' || !MEASURE_WORDS[expression.name]) continue
+
+      const argument = expression.args[0]
+      const column = argument?.kind === 'column'
+        ? workspace.tables.flatMap(table => table.schema).find(schema => schema.name === argument.name)
+        : undefined
+      labels[item.alias] = column ? `${MEASURE_WORDS[expression.name]} ${column.label}` : MEASURE_WORDS[expression.name]
+    }
+    return labels
   }
 
-  private static extractGroupByColumn(query: string): string {
-    const match = query.match(/GROUP BY ([^,\s]+)/)
-    return match ? match[1] : ''
+  // Result columns that hold a numeric column of the data under its own name
+  private static numericColumns(columns: string[], workspace: Workspace): string[] {
+    const numeric = new Set(workspace.tables.flatMap(table =>
+      table.schema.filter(schema => schema.type === 'numeric' || schema.type === 'integer').map(schema => schema.name)
+    ))
+    return columns.filter(column => numeric.has(column))
   }
 
   private static determineResultType(question: string, result: any[]): 'chart' | 'table' | 'insight' {
@@ -180,7 +305,14 @@ export class AIAgent {
     return 'table'
   }
 
-  private static formatAsChart(result: any[], question: string): ChartData {
+  // Measures are the aggregate columns of the query, or the numeric ones when nothing was aggregated
+  private static formatAsChart(
+    result: any[],
+    question: string,
+    labels: Record<string, string>,
+    measureLabels: Record<string, string>,
+    additive: boolean
+  ): ChartData {
     if (result.length === 0) {
       return {
         type: 'bar',
@@ -191,20 +323,56 @@ export class AIAgent {
     }
 
     const keys = Object.keys(result[0])
-    
-    // For grouped data
-    if (keys.length === 2 && keys.includes('count')) {
-      const categoryKey = keys.find(k => k !== 'count') || keys[0]
+    const aggregated = keys.filter(key => measureLabels[key] !== undefined)
+    const measures = aggregated.length > 0
+      ? aggregated
+      : keys.filter(key => result.every(row => row[key] === null || typeof row[key] === 'number'))
+    const dimensions = keys.filter(key => !measures.includes(key))
+    const label = (key: string) => measureLabels[key] ?? labels[key] ?? key
+    const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+    // "Sales by region by quarter": one bar per value of one dimension, split by the other
+    if (dimensions.length === 2 && measures.length === 1) {
+      // The dimension with fewer values is split into series, so the legend stays short
+      const distinct = (key: string) => new Set(result.map(row => String(row[key]))).size
+      const [x, split] = distinct(dimensions[0]) >= distinct(dimensions[1]) ? dimensions : [dimensions[1], dimensions[0]]
+      const { points, series } = ChartBuilder.pivot(result, x, split, measures[0], additive)
+      const measure = label(measures[0])
+      return {
+        type: 'bar',
+        data: points.slice(0, MAX_CHART_CATEGORIES),
+        xAxis: label(x),
+        yAxis: capitalize(measure),
+        title: `${capitalize(measure)} by ${label(x)} and ${label(split)}`,
+        description: `${capitalize(measure)} for each ${label(x)}, ${additive ? 'stacked' : 'side by side'} by ${label(split)}`,
+        series,
+        ...(additive && { stacked: true })
+      }
+    }
+
+    // "Revenue and units by region": one bar per measure for each value of the dimension
+    if (dimensions.length === 1 && measures.length > 0) {
+      const [x] = dimensions
+      const data = result.slice(0, MAX_CHART_CATEGORIES).map(row => ({
+        name: row[x],
+        ...Object.fromEntries(measures.map(key => [key, row[key]]))
+      }))
+      const series = ChartBuilder.measureSeries(data, measures, Object.fromEntries(measures.map(key => [key, capitalize(label(key))])))
+      const left = series.filter(entry => entry.axis !== 'right').map(entry => entry.name)
+      const right = series.filter(entry => entry.axis === 'right').map(entry => entry.name)
+      const names = measures.map(label)
+      const listed = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]
       return {
         type: 'bar',
-        data: result.map(item => ({
-          name: item[categoryKey],
-          value: item.count
-        })),
-        xAxis: categoryKey,
-        yAxis: 'count',
-        title: `Distribution by ${categoryKey}`,
-        description: `Showing count distribution across different ${categoryKey} values`
+        data,
+        xAxis: label(x),
+        yAxis: left.join(', '),
+        ...(right.length > 0 && { yAxisRight: right.join(', ') }),
+        title: `${capitalize(listed)} by ${label(x)}`,
+        description: `Showing ${listed} across different ${label(x)} values`,
+        series,
+        // "colored by region" gives every bar its own colour
+        ...(measures.length === 1 && COLOR_PATTERN.test(question.toLowerCase()) && { colorBy: 'name' })
       }
     }
     
@@ -220,7 +388,7 @@ export class AIAgent {
     }
   }
 
-  private static formatAsTable(result: any[], question: string): TableData {
+  private static formatAsTable(result: any[], question: string, labels: Record<string, string>): TableData {
     if (result.length === 0) {
       return {
         columns: [],
@@ -234,6 +402,7 @@ export class AIAgent {
     
     return {
       columns,
+      columnLabels: labels,
       rows: result.slice(0, 100),
       title: 'Query Results',
       description: `Showing ${Math.min(result.length, 100)} records${result.length > 100 ? ' (first 100 shown)' : ''}`
@@ -292,14 +461,4 @@ export class AIAgent {
       confidence: 0.8
     }
   }
-
-  private static calculateConfidenceScore(question: string, result: any[]): number {
-    if (result.length === 0) return 0.1
-    
-    const questionComplexity = question.split(' ').length
-    const dataAvailability = result.length > 0 ? 0.8 : 0.1
-    const specificityBonus = question.includes('show') || question.includes('find') ? 0.1 : 0
-    
-    return Math.min(0.95, dataAvailability + specificityBonus + (questionComplexity > 5 ? 0.1 : 0))
-  }
 }
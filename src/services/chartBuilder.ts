@@ -0,0 +1,60 @@
+import { ChartSeries, DataRow } from '../types'
+
+// Categories beyond this many are merged into "Other", or left out when their values cannot be added up
+const MAX_SERIES = 8
+// A measure this many times smaller or larger than the first one is plotted against its own axis
+const SCALE_RATIO = 10
+
+// Shapes query rows into the series of multi-series charts
+export class ChartBuilder {
+  // One series per measure; measures on a very different scale from the first go on the right-hand axis
+  static measureSeries(points: DataRow[], keys: string[], names: Record<string, string>): ChartSeries[] {
+    const peak = (key: string) => Math.max(0, ...points.map(point => Math.abs(Number(point[key]) || 0)))
+    const reference = peak(keys[0])
+    return keys.map((key, index) => {
+      const own = peak(key)
+      const apart = index > 0 && reference > 0 && own > 0 &&
+        Math.max(reference / own, own / reference) >= SCALE_RATIO
+      return { key, name: names[key] ?? key, ...(apart && { axis: 'right' as const }) }
+    })
+  }
+
+  // Turns rows of (x, category, value) into one point per x value with a value for each category.
+  // Other fields of the first row for each x, such as a period's date, are kept on its point.
+  static pivot(
+    rows: DataRow[],
+    xKey: string,
+    categoryKey: string,
+    valueKey: string,
+    additive: boolean
+  ): { points: DataRow[]; series: ChartSeries[] } {
+    const totals = new Map<string, number>()
+    for (const row of rows) {
+      const category = String(row[categoryKey] ?? '(empty)')
+      totals.set(category, (totals.get(category) ?? 0) + Math.abs(Number(row[valueKey]) || 0))
+    }
+    const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([category]) => category)
+    const overflow = ranked.length > MAX_SERIES
+    const kept = ranked.slice(0, overflow && additive ? MAX_SERIES - 1 : MAX_SERIES)
+
+    // Category values become series names; the keys are positional so any text can be plotted
+    const keyOf = new Map(kept.map((category, index) => [category, `series_${index}`]))
+    const series: ChartSeries[] = kept.map(category => ({ key: keyOf.get(category) as string, name: category }))
+    if (overflow && additive) series.push({ key: 'series_other', name: 'Other' })
+
+    const points = new Map<string, DataRow>()
+    for (const row of rows) {
+      const x = String(row[xKey])
+      if (!points.has(x)) {
+        const { [categoryKey]: _category, [valueKey]: _value, [xKey]: name, ...rest } = row
+        points.set(x, { ...rest, name, ...Object.fromEntries(series.map(entry => [entry.key, additive ? 0 : null])) })
+      }
+      const key = keyOf.get(String(row[categoryKey] ?? '(empty)')) ?? (additive && overflow ? 'series_other' : undefined)
+      if (!key) continue
+      const point = points.get(x) as DataRow
+      const value = row[valueKey] === null ? null : Number(row[valueKey])
+      point[key] = additive ? (point[key] ?? 0) + (value ?? 0) : value
+    }
+    return { points: Array.from(points.values()), series }
+  }
+}
@@ -0,0 +1,137 @@
+import { ColumnProfile, ColumnSchema, DataRow, HistogramBin, ValueFrequency } from '../types'
+
+const TOP_VALUE_COUNT = 10
+const HISTOGRAM_BINS = 20
+// Date histograms switch to coarser periods as the range grows
+const MAX_DAILY_SPAN_DAYS = 92
+const MAX_MONTHLY_SPAN_YEARS = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type DatePeriod = 'day' | 'month' | 'year'
+
+export class ColumnProfiler {
+  static profile(data: DataRow[], column: ColumnSchema): ColumnProfile {
+    const present = data
+      .map(row => row[column.name])
+      .filter(value => value !== null && value !== undefined && value !== '')
+
+    const frequencies = new Map<string, number>()
+    for (const value of present) {
+      const key = String(value)
+      frequencies.set(key, (frequencies.get(key) ?? 0) + 1)
+    }
+
+    const profile: ColumnProfile = {
+      column: column.name,
+      label: column.label,
+      type: column.type,
+      rowCount: data.length,
+      nullCount: data.length - present.length,
+      distinctCount: frequencies.size,
+      topValues: this.topValues(frequencies),
+      histogram: []
+    }
+
+    if (column.type === 'numeric' || column.type === 'integer') {
+      const numbers = present.filter((value): value is number => typeof value === 'number').sort((a, b) => a - b)
+      if (numbers.length > 0) {
+        profile.stats = this.stats(numbers)
+        profile.histogram = this.numericHistogram(numbers, column.type === 'integer')
+      }
+    } else if (column.type === 'date' || column.type === 'datetime') {
+      const dates = present
+        .filter((value): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value))
+        .sort()
+      if (dates.length > 0) {
+        profile.dateRange = { min: dates[0], max: dates[dates.length - 1] }
+        profile.histogram = this.dateHistogram(dates)
+      }
+    }
+
+    return profile
+  }
+
+  private static topValues(frequencies: Map<string, number>): ValueFrequency[] {
+    return Array.from(frequencies.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([value, count]) => ({ value, count }))
+  }
+
+  // Expects the numbers sorted ascending; the standard deviation is the sample one
+  private static stats(sorted: number[]): NonNullable<ColumnProfile['stats']> {
+    const count = sorted.length
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / count
+    const middle = Math.floor(count / 2)
+    const median = count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+    const variance = count > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1)
+      : 0
+
+    return { min: sorted[0], max: sorted[count - 1], mean, median, stddev: Math.sqrt(variance) }
+  }
+
+  private static numericHistogram(sorted: number[], integer: boolean): HistogramBin[] {
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+    if (min === max) return [{ label: this.formatNumber(min), count: sorted.length }]
+
+    // Whole-number columns with a short range get one bar per value
+    const perValue = integer && max - min + 1 <= HISTOGRAM_BINS
+    const binCount = perValue ? max - min + 1 : HISTOGRAM_BINS
+    const width = perValue ? 1 : (max - min) / binCount
+    const bins = Array.from({ length: binCount }, (_, index) => {
+      const start = min + index * width
+      return {
+        label: perValue
+          ? this.formatNumber(start)
+          : `${this.formatNumber(start)} – ${this.formatNumber(start + width)}`,
+        count: 0
+      }
+    })
+
+    for (const value of sorted) {
+      const index = Math.min(Math.floor((value - min) / width), binCount - 1)
+      bins[index].count++
+    }
+    return bins
+  }
+
+  // Counts per day, month or year with empty periods kept so gaps show in the chart
+  private static dateHistogram(sorted: string[]): HistogramBin[] {
+    const first = new Date(sorted[0].slice(0, 10))
+    const last = new Date(sorted[sorted.length - 1].slice(0, 10))
+    const spanDays = (last.getTime() - first.getTime()) / DAY_MS
+    const period: DatePeriod = spanDays <= MAX_DAILY_SPAN_DAYS
+      ? 'day'
+      : spanDays <= MAX_MONTHLY_SPAN_YEARS * 366 ? 'month' : 'year'
+    const keyLength = period === 'day' ? 10 : period === 'month' ? 7 : 4
+
+    const counts = new Map<string, number>()
+    for (const value of sorted) {
+      const key = value.slice(0, keyLength)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+
+    const bins: HistogramBin[] = []
+    const cursor = new Date(Date.UTC(
+      first.getUTCFullYear(),
+      period === 'year' ? 0 : first.getUTCMonth(),
+      period === 'day' ? first.getUTCDate() : 1
+    ))
+    const end = sorted[sorted.length - 1].slice(0, keyLength)
+    for (;;) {
+      const key = cursor.toISOString().slice(0, keyLength)
+      if (key > end) break
+      bins.push({ label: key, count: counts.get(key) ?? 0 })
+      if (period === 'day') cursor.setUTCDate(cursor.getUTCDate() + 1)
+      else if (period === 'month') cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+      else cursor.setUTCFullYear(cursor.getUTCFullYear() + 1)
+    }
+    return bins
+  }
+
+  private static formatNumber(value: number): string {
+    return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { makeRequest, makeTable, salesRows, salesTable } from '../test/fixtures'
+import { DataTable } from '../types'
+import { ConfidenceScorer } from './confidenceScorer'
+import { SQLEngine } from './sql'
+import { WorkspaceManager } from './workspace'
+
+const assess = (question: string, sql: string, table: DataTable) => {
+  const workspace = WorkspaceManager.create([table])
+  return ConfidenceScorer.assess({
+    question,
+    grounding: makeRequest(question, [table]).grounding,
+    result: SQLEngine.execute(sql, [{ name: table.name, columns: table.columns, rows: table.data }]),
+    workspace
+  })
+}
+
+// The sales table without Total_Price, so "total price" can only mean Unit_Price
+const unitPriceOnly = makeTable('sales', salesRows.map(({ Total_Price: _total, ...row }) => row), { Unit_Price: 'Unit Price' })
+
+describe('ConfidenceScorer', () => {
+  it('is confident when every term names a column outright', () => {
+    const confidence = assess(
+      'total price by segment',
+      'SELECT Segment, SUM(Total_Price) AS total FROM sales GROUP BY Segment',
+      salesTable()
+    )
+    expect(confidence.score).toBe(0.99)
+    expect(confidence.explanation).toMatch(/^Both terms in the question matched the data/)
+  })
+
+  it('lowers the score when a term only names part of a column', () => {
+    const confidence = assess(
+      'total price by segment',
+      'SELECT Segment, SUM(Unit_Price) AS total FROM sales GROUP BY Segment',
+      unitPriceOnly
+    )
+    expect(confidence.score).toBeLessThan(0.95)
+    expect(confidence.explanation).toContain('"price" only matched part of a column name')
+    expect(confidence.explanation).not.toContain('matched the data')
+  })
+
+  it('lowers the score when a term names several columns', () => {
+    const confidence = assess(
+      'price by region',
+      'SELECT Region, SUM(Unit_Price) AS total FROM sales GROUP BY Region',
+      salesTable()
+    )
+    expect(confidence.score).toBeLessThan(0.8)
+    expect(confidence.explanation).toContain('"price" could refer to 2 different columns')
+  })
+
+  it('lowers the score for unmatched words and small groups', () => {
+    const confidence = assess(
+      'revenue by product in the North',
+      "SELECT Product, SUM(Total_Price) AS total FROM sales WHERE Region = 'North' AND Units = 5 GROUP BY Product",
+      salesTable()
+    )
+    expect(confidence.explanation).toContain('"revenue" did not match any column or value')
+    expect(confidence.explanation).toMatch(/based on only \d+ rows across 3 groups/i)
+  })
+})
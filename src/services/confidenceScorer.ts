@@ -0,0 +1,160 @@
+import { Workspace } from '../types'
+import { Grounding, ValueGrounder } from './llm'
+import { QueryResult, statementExpressions } from './sql'
+
+export interface ConfidenceSignals {
+  question: string
+  grounding: Grounding
+  result: QueryResult
+  workspace: Workspace
+  // Why the configured model's query was not used, when the keyword fallback answered instead
+  fallback?: string
+}
+
+export interface ConfidenceAssessment {
+  score: number
+  explanation: string
+}
+
+interface Reason {
+  // Multiplied into the score; 1 for reasons that only reassure
+  factor: number
+  text: string
+}
+
+// Groups built from fewer rows than these are called thin or small
+const THIN_GROUP_ROWS = 5
+const SMALL_GROUP_ROWS = 30
+const MAX_REASONS = 3
+
+// Scores an answer by how well the question was understood and how much data stands behind it
+export class ConfidenceScorer {
+  static assess(signals: ConfidenceSignals): ConfidenceAssessment {
+    const reasons = [
+      ...this.coverage(signals),
+      ...this.ambiguity(signals),
+      ...this.unreadable(signals),
+      ...this.sampleSize(signals.result)
+    ]
+    const score = reasons.reduce((total, reason) => total * reason.factor, 1)
+    const clamped = Math.round(Math.min(0.99, Math.max(0.05, score)) * 100) / 100
+
+    // The biggest doubts come first; reassurances fill the remaining space
+    const shown = [...reasons]
+      .sort((a, b) => a.factor - b.factor)
+      .slice(0, MAX_REASONS)
+      .map(reason => reason.text)
+    const explanation = shown.join('; ')
+    return { score: clamped, explanation: explanation.charAt(0).toUpperCase() + explanation.slice(1) }
+  }
+
+  // How many of the words naming data were matched to a column, value or year. Words that only name
+  // part of a column, or name several columns, count half, since the column used is partly a guess.
+  private static coverage({ question, grounding }: ConfidenceSignals): Reason[] {
+    const { terms, unmatched } = ValueGrounder.unmatched(question, grounding)
+    if (terms === 0) return []
+    const partial = Array.from(new Set(grounding.columns
+      .filter(match => match.coverage === 'part' && (match.via === 'name' || match.via === 'label'))
+      .map(match => match.term)))
+    const uncertain = new Set([...partial, ...this.ambiguousTerms(grounding).keys()].flatMap(term => term.split(' ')))
+
+    if (unmatched.length === 0 && uncertain.size === 0) {
+      const all = terms === 1 ? 'the term' : terms === 2 ? 'both terms' : `all ${terms} terms`
+      return [{ factor: 1, text: `${all} in the question matched the data` }]
+    }
+    const coverage = Math.max(0, terms - unmatched.length - uncertain.size / 2) / terms
+    const quote = (words: string[]) => words.slice(0, 3).map(word => `"${word}"`).join(', ')
+    const doubts = [
+      ...(unmatched.length > 0 ? [`${quote(unmatched)} did not match any column or value`] : []),
+      ...(partial.length > 0 ? [`${quote(partial)} only matched part of a column name`] : [])
+    ]
+    return [{
+      factor: 0.6 + 0.4 * coverage,
+      text: doubts.join(', and ') || 'some terms in the question matched more than one column'
+    }]
+  }
+
+  private static ambiguity({ grounding, fallback }: ConfidenceSignals): Reason[] {
+    const reasons: Reason[] = []
+    if (fallback) {
+      reasons.push({ factor: 0.8, text: `${fallback}, so a simpler keyword-based query answered` })
+    }
+
+    // A word that names several columns leaves the choice between them to a guess
+    const ambiguous = Array.from(this.ambiguousTerms(grounding).entries())
+    for (const [term, columns] of ambiguous.slice(0, 2)) {
+      reasons.push({ factor: 0.85, text: `"${term}" could refer to ${columns.size} different columns` })
+    }
+
+    const guessed = [...grounding.columns, ...grounding.values].filter(match =>
+      'via' in match ? match.via === 'fuzzy' : match.fuzzy
+    )
+    if (guessed.length > 0) {
+      reasons.push({ factor: 0.9, text: `${guessed.map(match => `"${match.term}"`).join(', ')} read as a likely typo` })
+    }
+    return reasons
+  }
+
+  // Words of the question matched to more than one column, with those columns
+  private static ambiguousTerms(grounding: Grounding): Map<string, Set<string>> {
+    const columnsByWord = new Map<string, Set<string>>()
+    for (const match of grounding.columns) {
+      for (const word of match.term.split(' ')) {
+        const columns = columnsByWord.get(word) ?? new Set<string>()
+        columns.add(`${match.table}.${match.column}`)
+        columnsByWord.set(word, columns)
+      }
+    }
+    return new Map(Array.from(columnsByWord.entries()).filter(([, columns]) => columns.size > 1))
+  }
+
+  // Values in the columns the query reads that could not be parsed and were left empty
+  private static unreadable({ result, workspace }: ConfidenceSignals): Reason[] {
+    const referenced = new Set(
+      statementExpressions(result.plan.statement)
+        .flatMap(expression => expression.kind === 'column' ? [expression.name.toLowerCase()] : [])
+    )
+    const queried = new Set(result.plan.steps.flatMap(step =>
+      step.op === 'scan' || step.op === 'join' ? [step.table.toLowerCase()] : []
+    ))
+    // A query selecting every column reads them all
+    const readsAll = result.plan.statement.columns.some(item => item.expression.kind === 'star')
+
+    let unparsed = 0
+    let rows = 0
+    const columns: string[] = []
+    for (const table of workspace.tables.filter(candidate => queried.has(candidate.name.toLowerCase()))) {
+      rows += table.metadata.rowCount
+      for (const issue of table.metadata.parseIssues) {
+        const schema = table.schema.find(entry => entry.label === issue.column)
+        if (!schema || !(readsAll || referenced.has(schema.name.toLowerCase()))) continue
+        unparsed += issue.count
+        columns.push(issue.column)
+      }
+    }
+    if (unparsed === 0 || rows === 0) return []
+    const share = unparsed / rows
+    return [{
+      factor: 1 - Math.min(0.5, share * 2),
+      text: `${unparsed.toLocaleString()} value${unparsed === 1 ? '' : 's'} in ${Array.from(new Set(columns)).join(', ')} could not be read and were left empty`
+    }]
+  }
+
+  // Aggregates over a handful of rows are easily swayed by one of them
+  private static sampleSize(result: QueryResult): Reason[] {
+    const aggregate = result.statistics.find(statistic => statistic.step.op === 'aggregate')
+    if (!aggregate) {
+      return result.rows.length === 0 ? [{ factor: 0.3, text: 'no rows matched the question' }] : []
+    }
+    if (aggregate.inputRows === 0) return [{ factor: 0.3, text: 'no rows matched the question' }]
+
+    const groups = Math.max(1, aggregate.outputRows)
+    const perGroup = aggregate.inputRows / groups
+    const basis = groups > 1
+      ? `${aggregate.inputRows.toLocaleString()} rows across ${groups.toLocaleString()} groups`
+      : `${aggregate.inputRows.toLocaleString()} row${aggregate.inputRows === 1 ? '' : 's'}`
+    if (perGroup < THIN_GROUP_ROWS) return [{ factor: 0.7, text: `based on only ${basis}` }]
+    if (perGroup < SMALL_GROUP_ROWS) return [{ factor: 0.9, text: `based on ${basis}, a small sample` }]
+    return [{ factor: 1, text: `based on ${basis}` }]
+  }
+}
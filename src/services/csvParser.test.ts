@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { CsvParser } from './csvParser'
+
+const sniff = (text: string) => CsvParser.sniff(new TextEncoder().encode(text))
+
+describe('CsvParser', () => {
+  describe('sniff', () => {
+    it('detects the quote character that wraps fields', () => {
+      expect(sniff('name,city\n"Smith, J",Paris\n"Doe ""Jr""",Rome\n').quote).toBe('"')
+      expect(sniff("name;city\n'Smith; J';Paris\nDoe;'Rome'\n")).toMatchObject({ delimiter: ';', quote: "'" })
+    })
+
+    it('detects no quote character when no field is quoted', () => {
+      expect(sniff('product,size\nTV,55" screen\nMonitor,27"\n')).toMatchObject({ delimiter: ',', quote: null })
+    })
+  })
+
+  describe('parse', () => {
+    it('splits quoted fields holding delimiters, doubled quotes and line breaks', () => {
+      expect(CsvParser.parse('a,b\n"1,5","say ""hi""\nthere"\n', { delimiter: ',', quote: '"' })).toEqual([
+        ['a', 'b'],
+        ['1,5', 'say "hi"\nthere']
+      ])
+    })
+
+    it('keeps stray quotes as text when fields are never quoted', () => {
+      expect(CsvParser.parse('product,size\nTV,55" screen\n"Monitor,27\n', { delimiter: ',', quote: null })).toEqual([
+        ['product', 'size'],
+        ['TV', '55" screen'],
+        ['"Monitor', '27']
+      ])
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { CsvEncoding, CsvOptions } from '../types'
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|']
+
+// Bytes inspected when sniffing the format and building a preview
+export const CSV_SAMPLE_BYTES = 64 * 1024
+const SNIFF_ROWS = 50
+const PROGRESS_INTERVAL = 5000
+
+const DOT_DECIMAL = /^[-+]?\d+\.\d+$/
+const DOT_THOUSANDS = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/
+const COMMA_DECIMAL = /^[-+]?\d+,\d+$/
+const COMMA_THOUSANDS = /^[-+]?\d{1,3}([.\s]\d{3})+(,\d+)?$/
+// "1,234" reads as a thousand or as a decimal, so it never counts as evidence
+const AMBIGUOUS = /^[-+]?\d{1,3}[.,]\d{3}$/
+
+export class CsvParser {
+  static sniff(bytes: Uint8Array): CsvOptions {
+    const encoding = this.detectEncoding(bytes)
+    const sample = this.decodeSample(bytes, encoding)
+    const quote = this.detectQuote(sample)
+    const delimiter = this.detectDelimiter(sample, quote)
+    const rows = this.parse(sample, { delimiter, quote }, SNIFF_ROWS)
+    return { delimiter, encoding, quote, decimal: this.detectDecimal(rows) }
+  }
+
+  static detectEncoding(bytes: Uint8Array): CsvEncoding {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+    // UTF-16 without a byte order mark leaves a zero byte beside every ASCII character
+    const length = Math.min(bytes.length, 1000)
+    let evenZeros = 0
+    let oddZeros = 0
+    for (let i = 0; i < length; i++) {
+      if (bytes[i] !== 0) continue
+      if (i % 2 === 0) evenZeros++
+      else oddZeros++
+    }
+    if (oddZeros > length * 0.3) return 'utf-16le'
+    if (evenZeros > length * 0.3) return 'utf-16be'
+
+    try {
+      // A cut-off multi-byte character at the end of the sample is not an error
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, CSV_SAMPLE_BYTES), { stream: true })
+      return 'utf-8'
+    } catch {
+      return 'windows-1252'
+    }
+  }
+
+  // TextDecoder drops the byte order mark for the encoding it belongs to
+  static decode(bytes: Uint8Array, encoding: CsvEncoding): string {
+    return new TextDecoder(encoding).decode(bytes)
+  }
+
+  static decodeSample(bytes: Uint8Array, encoding: CsvEncoding): string {
+    return this.decode(bytes.subarray(0, CSV_SAMPLE_BYTES), encoding)
+  }
+
+  // RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+  static parse(
+    text: string,
+    { delimiter, quote }: Pick<CsvOptions, 'delimiter' | 'quote'>,
+    maxRows?: number,
+    onProgress?: (rowsParsed: number) => void
+  ): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let fieldStart = 0
+    let inQuotes = false
+    let quoted = false
+    let i = 0
+
+    const endField = (end: number) => {
+      row.push(quoted ? field + text.slice(fieldStart, end) : text.slice(fieldStart, end))
+      field = ''
+      quoted = false
+    }
+
+    while (i < text.length) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === quote) {
+          field += text.slice(fieldStart, i)
+          if (text[i + 1] === quote) {
+            field += quote
+            i += 2
+          } else {
+            inQuotes = false
+            i++
+          }
+          fieldStart = i
+        } else {
+          i++
+        }
+        continue
+      }
+
+      if (char === quote && i === fieldStart && !quoted) {
+        inQuotes = true
+        quoted = true
+        i++
+        fieldStart = i
+      } else if (char === delimiter) {
+        endField(i)
+        i++
+        fieldStart = i
+      } else if (char === '\n' || char === '\r') {
+        endField(i)
+        rows.push(row)
+        row = []
+        i += char === '\r' && text[i + 1] === '\n' ? 2 : 1
+        fieldStart = i
+
+        if (onProgress && rows.length % PROGRESS_INTERVAL === 0) onProgress(rows.length)
+        if (maxRows !== undefined && rows.length >= maxRows) return rows
+      } else {
+        i++
+      }
+    }
+
+    if (fieldStart < text.length || row.length > 0 || quoted) {
+      endField(text.length)
+      rows.push(row)
+    }
+    return rows
+  }
+
+  // Rewrites numbers in the chosen decimal style to plain "1234.5" so cleaning can read them
+  static normalizeNumber(value: string, decimal: CsvOptions['decimal']): string {
+    const trimmed = value.trim()
+    if (decimal === ',') {
+      if (COMMA_DECIMAL.test(trimmed)) return trimmed.replace(',', '.')
+      if (COMMA_THOUSANDS.test(trimmed)) return trimmed.replace(/[.\s]/g, '').replace(',', '.')
+      return value
+    }
+    return DOT_THOUSANDS.test(trimmed) ? trimmed.replace(/,/g, '') : value
+  }
+
+  // The character that wraps whole fields in the sample; a stray quote inside a field does not count
+  private static detectQuote(sample: string): CsvOptions['quote'] {
+    const quotedFields = (quote: string) =>
+      (sample.match(new RegExp(`(^|[,;\\t|])${quote}(?:[^${quote}]|${quote}${quote})*${quote}(?=[,;\\t|\\r\\n]|$)`, 'gm')) ?? []).length
+    const double = quotedFields('"')
+    const single = quotedFields("'")
+    if (double === 0 && single === 0) return null
+    return single > double ? "'" : '"'
+  }
+
+  // The delimiter that splits the sampled rows into the most consistent number of fields
+  private static detectDelimiter(sample: string, quote: CsvOptions['quote']): string {
+    let best = { delimiter: ',', score: 0, fields: 1 }
+
+    for (const delimiter of CSV_DELIMITERS) {
+      const counts = this.parse(sample, { delimiter, quote }, SNIFF_ROWS)
+        .filter(row => row.some(field => field.trim() !== ''))
+        .map(row => row.length)
+      if (counts.length === 0) continue
+
+      const frequency = new Map<number, number>()
+      for (const count of counts) frequency.set(count, (frequency.get(count) ?? 0) + 1)
+      const [fields, occurrences] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+      if (fields < 2) continue
+
+      const score = occurrences / counts.length
+      if (score > best.score || (score === best.score && fields > best.fields)) {
+        best = { delimiter, score, fields }
+      }
+    }
+
+    return best.delimiter
+  }
+
+  private static detectDecimal(rows: string[][]): CsvOptions['decimal'] {
+    let dot = 0
+    let comma = 0
+    for (const row of rows) {
+      for (const field of row) {
+        const value = field.trim()
+        if (AMBIGUOUS.test(value)) continue
+        if (DOT_DECIMAL.test(value) || DOT_THOUSANDS.test(value)) dot++
+        else if (COMMA_DECIMAL.test(value) || COMMA_THOUSANDS.test(value)) comma++
+      }
+    }
+    return comma > dot ? ',' : '.'
+  }
+}
@@ -0,0 +1,355 @@
+import { CleaningStep, CleaningStepType, DataRow, DataTable, QualityReport, RowFilterOperator } from '../types'
+import { DataProcessor } from './dataProcessor'
+import { DEFAULT_LOCALE, LocaleParser } from './localeParser'
+
+export interface CleaningSuggestion {
+  step: CleaningStep
+  reason: string
+}
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1'])
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0'])
+// Filling more than this share of a column would invent most of its values
+const MAX_FILL_SHARE = 0.5
+const SUGGESTION_ORDER: CleaningStepType[] = ['trim', 'standardize', 'cast', 'fill_nulls', 'dedupe']
+
+export const ROW_FILTER_LABELS: Record<RowFilterOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  is_empty: 'is empty'
+}
+
+// Applies recorded cleaning steps to a table. Steps are plain data so a recipe can be saved and replayed.
+export class DataCleaner {
+  static apply(table: DataTable, step: CleaningStep): DataTable {
+    let data = table.data
+    let columns = table.columns
+    const labels = Object.fromEntries(table.schema.map(column => [column.name, column.label]))
+
+    const requireColumn = (column: string) => {
+      if (!columns.includes(column)) {
+        throw new Error(`Column "${column}" is not in table "${table.label}"`)
+      }
+    }
+
+    switch (step.type) {
+      case 'trim': {
+        step.columns.forEach(requireColumn)
+        const targets = step.columns.length > 0 ? step.columns : columns
+        data = data.map(row => this.mapColumns(row, targets, value =>
+          typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() || null : value
+        ))
+        break
+      }
+
+      case 'fill_nulls': {
+        requireColumn(step.column)
+        data = this.fillNulls(data, step)
+        break
+      }
+
+      case 'cast': {
+        requireColumn(step.column)
+        data = data.map(row => this.mapColumns(row, [step.column], value => this.castValue(value, step)))
+        break
+      }
+
+      case 'split': {
+        requireColumn(step.column)
+        if (step.into.length === 0) throw new Error('Name at least one column to split into')
+        const added = this.addColumns(step.into, columns, labels)
+        data = data.map(row => {
+          const value = row[step.column]
+          const parts = value === null || value === undefined ? [] : String(value).split(step.delimiter)
+          const updated = { ...row }
+          added.forEach((name, index) => {
+            // The last new column keeps whatever is left over
+            const part = index === added.length - 1 ? parts.slice(index).join(step.delimiter) : parts[index]
+            updated[name] = part?.trim() || null
+          })
+          return updated
+        })
+        columns = this.insertAfter(columns, step.column, added)
+        if (!step.keepOriginal) columns = columns.filter(column => column !== step.column)
+        break
+      }
+
+      case 'merge': {
+        if (step.columns.length < 2) throw new Error('Choose at least two columns to merge')
+        step.columns.forEach(requireColumn)
+        const [added] = this.addColumns([step.into], columns, labels)
+        data = data.map(row => {
+          const parts = step.columns
+            .map(column => row[column])
+            .filter(value => value !== null && value !== undefined && value !== '')
+          return { ...row, [added]: parts.length > 0 ? parts.join(step.separator) : null }
+        })
+        columns = this.insertAfter(columns, step.columns[step.columns.length - 1], [added])
+        if (!step.keepOriginal) columns = columns.filter(column => !step.columns.includes(column))
+        break
+      }
+
+      case 'dedupe': {
+        step.columns.forEach(requireColumn)
+        const keyColumns = step.columns.length > 0 ? step.columns : columns
+        const seen = new Set<string>()
+        data = data.filter(row => {
+          const key = JSON.stringify(keyColumns.map(column => row[column] ?? null))
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        break
+      }
+
+      case 'standardize': {
+        requireColumn(step.column)
+        data = data.map(row => this.mapColumns(row, [step.column], value =>
+          typeof value === 'string' && Object.prototype.hasOwnProperty.call(step.replacements, value)
+            ? step.replacements[value]
+            : value
+        ))
+        break
+      }
+
+      case 'drop_rows': {
+        requireColumn(step.column)
+        data = data.filter(row => !this.matchesFilter(row[step.column], step.operator, step.value))
+        break
+      }
+    }
+
+    const dropped = table.columns.filter(column => !columns.includes(column))
+    if (dropped.length > 0) {
+      data = data.map(row => {
+        const updated = { ...row }
+        for (const column of dropped) delete updated[column]
+        return updated
+      })
+    }
+
+    return {
+      ...table,
+      data,
+      columns,
+      schema: DataProcessor.inferSchema(data, columns, labels),
+      metadata: {
+        ...table.metadata,
+        rowCount: data.length,
+        columnCount: columns.length,
+        dataQualityScore: DataProcessor.calculateDataQualityScore(data, columns),
+        cleaningSteps: [...(table.metadata.cleaningSteps ?? []), step]
+      }
+    }
+  }
+
+  static applyAll(table: DataTable, steps: CleaningStep[]): DataTable {
+    return steps.reduce((current, step, index) => {
+      try {
+        return this.apply(current, step)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Step ${index + 1} (${this.describe(step)}) failed: ${message}`)
+      }
+    }, table)
+  }
+
+  static describe(step: CleaningStep, labels: Record<string, string> = {}): string {
+    const label = (column: string) => labels[column] ?? column
+    const list = (columns: string[]) => columns.map(label).join(', ')
+
+    switch (step.type) {
+      case 'trim':
+        return step.columns.length > 0 ? `Trim whitespace in ${list(step.columns)}` : 'Trim whitespace in all text columns'
+      case 'fill_nulls':
+        return step.strategy === 'value'
+          ? `Fill empty ${label(step.column)} with "${step.value ?? ''}"`
+          : step.strategy === 'previous'
+          ? `Fill empty ${label(step.column)} with the value above`
+          : `Fill empty ${label(step.column)} with the ${step.strategy}`
+      case 'cast':
+        return `Convert ${label(step.column)} to ${step.to}`
+      case 'split':
+        return `Split ${label(step.column)} on "${step.delimiter}" into ${step.into.join(', ')}`
+      case 'merge':
+        return `Merge ${list(step.columns)} into ${step.into}`
+      case 'dedupe':
+        return step.columns.length > 0 ? `Remove rows with duplicate ${list(step.columns)}` : 'Remove duplicate rows'
+      case 'standardize': {
+        const count = Object.keys(step.replacements).length
+        return `Standardize ${count} ${count === 1 ? 'spelling' : 'spellings'} in ${label(step.column)}`
+      }
+      case 'drop_rows':
+        return step.operator === 'is_empty'
+          ? `Drop rows where ${label(step.column)} is empty`
+          : `Drop rows where ${label(step.column)} ${ROW_FILTER_LABELS[step.operator]} "${step.value ?? ''}"`
+    }
+  }
+
+  // Cleaning steps that fix the issues found by the quality report
+  static suggest(table: DataTable, report: QualityReport): CleaningSuggestion[] {
+    const suggestions: CleaningSuggestion[] = []
+    const schema = new Map(table.schema.map(column => [column.name, column]))
+
+    const whitespace = report.columns.filter(column => column.issues.some(issue => issue.kind === 'whitespace'))
+    if (whitespace.length > 0) {
+      suggestions.push({
+        step: { type: 'trim', columns: whitespace.map(column => column.column) },
+        reason: 'Some values have repeated spaces or tabs inside them'
+      })
+    }
+
+    for (const column of report.columns) {
+      const type = schema.get(column.column)?.type
+      for (const issue of column.issues) {
+        if ((issue.kind === 'casing' || issue.kind === 'inconsistent_spelling') && issue.replacements) {
+          suggestions.push({
+            step: { type: 'standardize', column: column.column, replacements: issue.replacements },
+            reason: issue.description
+          })
+        } else if (issue.kind === 'mixed_types' && (type === 'numeric' || type === 'integer')) {
+          suggestions.push({
+            step: { type: 'cast', column: column.column, to: 'number' },
+            reason: `${issue.description} in ${column.label}; unreadable values become empty`
+          })
+        } else if (
+          issue.kind === 'missing' &&
+          (type === 'numeric' || type === 'integer') &&
+          column.missingRate <= MAX_FILL_SHARE
+        ) {
+          suggestions.push({
+            step: { type: 'fill_nulls', column: column.column, strategy: 'median' },
+            reason: `${issue.description} in ${column.label}`
+          })
+        }
+      }
+    }
+
+    for (const issue of report.rowIssues) {
+      if (issue.kind === 'duplicate_rows') {
+        suggestions.push({ step: { type: 'dedupe', columns: [] }, reason: issue.description })
+      }
+    }
+
+    // Values must be numbers before a median can fill the gaps, and dedupe sees the cleaned values last
+    return suggestions.sort((a, b) => SUGGESTION_ORDER.indexOf(a.step.type) - SUGGESTION_ORDER.indexOf(b.step.type))
+  }
+
+  private static mapColumns(row: DataRow, columns: string[], transform: (value: any) => any): DataRow {
+    const updated = { ...row }
+    for (const column of columns) {
+      if (column in updated) updated[column] = transform(updated[column])
+    }
+    return updated
+  }
+
+  private static fillNulls(data: DataRow[], step: Extract<CleaningStep, { type: 'fill_nulls' }>): DataRow[] {
+    const isEmpty = (value: any) => value === null || value === undefined || value === ''
+    const present = data.map(row => row[step.column]).filter(value => !isEmpty(value))
+
+    if (step.strategy === 'previous') {
+      let previous: any = null
+      return data.map(row => {
+        if (!isEmpty(row[step.column])) {
+          previous = row[step.column]
+          return row
+        }
+        return previous === null ? row : { ...row, [step.column]: previous }
+      })
+    }
+
+    let fill: any
+    if (step.strategy === 'value') {
+      // Numeric columns get a number so the column keeps its type
+      const number = LocaleParser.parseNumber(step.value ?? '', DEFAULT_LOCALE)
+      fill = present.length > 0 && present.every(value => typeof value === 'number') && number !== null
+        ? number
+        : step.value ?? ''
+    } else if (step.strategy === 'mode') {
+      const counts = new Map<any, number>()
+      for (const value of present) counts.set(value, (counts.get(value) ?? 0) + 1)
+      fill = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+    } else {
+      const numbers = present.filter(value => typeof value === 'number').sort((a, b) => a - b)
+      if (numbers.length === 0) throw new Error(`"${step.column}" has no numbers to take the ${step.strategy} of`)
+      fill = step.strategy === 'mean'
+        ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+        : numbers.length % 2 === 1
+        ? numbers[(numbers.length - 1) / 2]
+        : (numbers[numbers.length / 2 - 1] + numbers[numbers.length / 2]) / 2
+      if (typeof fill === 'number' && !Number.isInteger(fill)) fill = parseFloat(fill.toFixed(6))
+    }
+
+    if (fill === undefined) return data
+    return data.map(row => isEmpty(row[step.column]) ? { ...row, [step.column]: fill } : row)
+  }
+
+  // Values that cannot be converted become empty
+  private static castValue(value: any, step: Extract<CleaningStep, { type: 'cast' }>): any {
+    if (value === null || value === undefined) return null
+
+    switch (step.to) {
+      case 'text':
+        return String(value)
+      case 'number':
+        if (typeof value === 'number') return value
+        if (typeof value === 'boolean') return value ? 1 : 0
+        return LocaleParser.parseNumber(String(value), DEFAULT_LOCALE)
+      case 'boolean': {
+        if (typeof value === 'boolean') return value
+        const text = String(value).trim().toLowerCase()
+        if (TRUE_VALUES.has(text)) return true
+        if (FALSE_VALUES.has(text)) return false
+        return null
+      }
+      case 'date':
+        return typeof value === 'string'
+          ? LocaleParser.parseDate(value, step.dateOrder ?? DEFAULT_LOCALE.dateOrder)
+          : null
+    }
+  }
+
+  private static matchesFilter(value: any, operator: RowFilterOperator, expected = ''): boolean {
+    const empty = value === null || value === undefined || value === ''
+    if (operator === 'is_empty') return empty
+    if (empty) return operator === 'not_equals'
+
+    // Numbers compare numerically, everything else as case-insensitive text
+    const target = Number(expected)
+    const numeric = typeof value === 'number' && expected.trim() !== '' && !isNaN(target)
+    const left = numeric ? value : String(value).toLowerCase()
+    const right = numeric ? target : expected.toLowerCase()
+
+    switch (operator) {
+      case 'equals':
+        return left === right
+      case 'not_equals':
+        return left !== right
+      case 'contains':
+        return String(value).toLowerCase().includes(expected.toLowerCase())
+      case 'greater_than':
+        return left > right
+      case 'less_than':
+        return left < right
+    }
+  }
+
+  // New columns get unique identifiers; their labels are recorded for display
+  private static addColumns(newLabels: string[], columns: string[], labels: Record<string, string>): string[] {
+    const used = [...columns]
+    return newLabels.map(label => {
+      const name = DataProcessor.columnName(label, used)
+      used.push(name)
+      labels[name] = label
+      return name
+    })
+  }
+
+  private static insertAfter(columns: string[], anchor: string, added: string[]): string[] {
+    const index = columns.indexOf(anchor)
+    return [...columns.slice(0, index + 1), ...added, ...columns.slice(index + 1)]
+  }
+}
@@ -1,61 +1,292 @@
 import * as XLSX from 'xlsx'
-import { DataRow } from '../types'
+import {
+  ColumnSchema,
+  ColumnType,
+  CsvOptions,
+  CsvPreview,
+  DataRow,
+  DataTable,
+  DateOrder,
+  ParseIssue,
+  ParseLocale,
+  ParsePhase,
+  SheetSelection,
+  SheetSummary
+} from '../types'
+import { CSV_SAMPLE_BYTES, CsvParser } from './csvParser'
+import { DEFAULT_LOCALE, LocaleParser } from './localeParser'
+import { KEYWORDS } from './sql'
+
+const TYPE_MATCH_THRESHOLD = 0.9
+const MAX_CATEGORIES = 50
+const SAMPLE_VALUE_COUNT = 5
+// Rows cleaned between progress callbacks
+const PROGRESS_INTERVAL = 5000
+const CSV_PREVIEW_ROWS = 20
+// Title and notes rows above the table are only looked for near the top
+const HEADER_SCAN_ROWS = 10
+const MAX_HEADER_LEVELS = 3
+const HEADER_LEVEL_SEPARATOR = ' > '
+const TOTAL_ROW_PATTERN = /^(grand\s+|sub-?)?totals?\b|^(sum|summe|gesamt)\b/i
+const NOTE_ROW_PATTERN = /^(sources?|notes?|footnotes?|prepared by|generated)\b|^[*†]/i
+
+export const SOURCE_SHEET_COLUMN = 'Source_Sheet'
+const SOURCE_SHEET_LABEL = 'Source sheet'
+const MAX_COLUMN_NAME_LENGTH = 50
+const NULL_TOKENS = new Set(['n/a', 'na', '#n/a', '-', '--', 'null', 'none'])
+const MAX_ISSUE_EXAMPLES = 5
+
+export interface SourceFile {
+  name: string
+  size: number
+}
+
+export type LoadProgressCallback = (phase: ParsePhase, rowsParsed: number) => void
+
+interface CleanedData {
+  data: DataRow[]
+  columns: string[]
+  // Original header text keyed by the sanitized column name
+  labels: Record<string, string>
+  issues: ParseIssue[]
+}
 
 export class DataProcessor {
-  static async processExcelFile(file: File): Promise<{
-    data: DataRow[]
-    columns: string[]
-    sheetNames: string[]
-    metadata: {
-      fileName: string
-      fileSize: number
-      rowCount: number
-      columnCount: number
-      dataQualityScore: number
-    }
-  }> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      
-      reader.onload = (e) => {
-        try {
-          const data = new Uint8Array(e.target?.result as ArrayBuffer)
-          const workbook = XLSX.read(data, { type: 'array' })
-          
-          // Get the first sheet or find the most relevant sheet
-          const sheetName = this.findBestSheet(workbook)
-          const worksheet = workbook.Sheets[sheetName]
-          
-          // Convert to JSON with header row detection
-          let jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][]
-          
-          // Clean and process the data
-          const processed = this.cleanAndStructureData(jsonData)
-          
-          const metadata = {
-            fileName: file.name,
-            fileSize: file.size,
-            rowCount: processed.data.length,
-            columnCount: processed.columns.length,
-            dataQualityScore: this.calculateDataQualityScore(processed.data, processed.columns)
-          }
-          
-          resolve({
-            data: processed.data,
-            columns: processed.columns,
-            sheetNames: workbook.SheetNames,
-            metadata
-          })
-        } catch (error) {
-          reject(new Error(`Failed to process Excel file: ${error}`))
-        }
+  static async processExcelFile(file: File): Promise<DataTable> {
+    const { workbook } = await this.readWorkbook(file)
+    const [table] = this.loadSheets(workbook, file, { sheets: [this.findBestSheet(workbook)], mode: 'single' })
+    return table
+  }
+
+  static async readWorkbook(file: File): Promise<{ workbook: XLSX.WorkBook; sheets: SheetSummary[] }> {
+    return this.parseWorkbook(await this.readFile(file))
+  }
+
+  // Reads the file in chunks so callers can report how many bytes have arrived
+  static async readFile(file: Blob, onProgress?: (bytesRead: number) => void): Promise<Uint8Array> {
+    const reader = file.stream().getReader()
+    const data = new Uint8Array(file.size)
+    let bytesRead = 0
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        data.set(value, bytesRead)
+        bytesRead += value.length
+        onProgress?.(bytesRead)
+      }
+    } catch {
+      throw new Error('Failed to read file')
+    }
+
+    return data.subarray(0, bytesRead)
+  }
+
+  static parseWorkbook(data: Uint8Array): { workbook: XLSX.WorkBook; sheets: SheetSummary[] } {
+    try {
+      // Number formats tell date cells apart from plain numbers
+      const workbook = XLSX.read(data, { type: 'array', cellNF: true })
+      return { workbook, sheets: this.summarizeSheets(workbook) }
+    } catch (error) {
+      throw new Error(`Failed to process Excel file: ${error}`)
+    }
+  }
+
+  // Delimited text goes through CsvParser instead of XLSX so the format can be sniffed and overridden
+  static isDelimitedFile(fileName: string): boolean {
+    return /\.(csv|tsv|txt)$/i.test(fileName)
+  }
+
+  static previewDelimited(bytes: Uint8Array, options: CsvOptions = CsvParser.sniff(bytes)): CsvPreview {
+    const sample = CsvParser.decodeSample(bytes, options.encoding)
+    const sampleRows = CsvParser.parse(sample, options)
+    const sampledBytes = Math.min(bytes.length, CSV_SAMPLE_BYTES) || 1
+
+    return {
+      options,
+      rows: sampleRows
+        .slice(0, CSV_PREVIEW_ROWS)
+        .map(row => row.map(field => CsvParser.normalizeNumber(field, options.decimal))),
+      totalRows: Math.round(sampleRows.length * Math.max(1, bytes.length / sampledBytes))
+    }
+  }
+
+  static loadDelimited(
+    bytes: Uint8Array,
+    file: SourceFile,
+    options: CsvOptions,
+    locale: ParseLocale = DEFAULT_LOCALE,
+    onProgress?: LoadProgressCallback
+  ): DataTable {
+    onProgress?.('parsing', 0)
+    const text = CsvParser.decode(bytes, options.encoding)
+    const rows = CsvParser.parse(text, options, undefined, rowsParsed => onProgress?.('parsing', rowsParsed))
+
+    // The decimal separator confirmed in the preview wins over the locale's
+    const csvLocale = { ...locale, decimalSeparator: options.decimal }
+    const cleaned = this.cleanAndStructureData(rows, [], csvLocale, onProgress && (rowsCleaned => {
+      onProgress('cleaning', rowsCleaned)
+    }))
+    onProgress?.('scoring', cleaned.data.length)
+
+    return this.buildTable(file.name.replace(/\.[^.]+$/, ''), cleaned, file, [])
+  }
+
+  static summarizeSheets(workbook: XLSX.WorkBook): SheetSummary[] {
+    const bestSheet = this.findBestSheet(workbook)
+
+    return workbook.SheetNames.map(name => {
+      const worksheet = workbook.Sheets[name]
+      const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1')
+
+      // Only the first rows are needed to find the header
+      const previewEnd = Math.min(range.s.r + HEADER_SCAN_ROWS + MAX_HEADER_LEVELS, range.e.r)
+      const previewRange = { s: range.s, e: { r: previewEnd, c: range.e.c } }
+      const preview = this.sheetToRows(worksheet, previewRange)
+      const { columns } = this.cleanAndStructureData(preview, this.sheetMerges(worksheet), DEFAULT_LOCALE)
+
+      return {
+        name,
+        rowCount: worksheet['!ref'] ? range.e.r - range.s.r : 0,
+        columnCount: columns.length,
+        headers: columns,
+        suggested: name === bestSheet
       }
-      
-      reader.onerror = () => reject(new Error('Failed to read file'))
-      reader.readAsArrayBuffer(file)
     })
   }
 
+  static loadSheets(
+    workbook: XLSX.WorkBook,
+    file: SourceFile,
+    selection: SheetSelection,
+    locale: ParseLocale = DEFAULT_LOCALE,
+    onProgress?: LoadProgressCallback
+  ): DataTable[] {
+    if (selection.sheets.length === 0) {
+      throw new Error('Select at least one sheet to load')
+    }
+
+    let rowsParsed = 0
+    const sheets = selection.sheets.map(name => {
+      const worksheet = workbook.Sheets[name]
+      if (!worksheet) {
+        throw new Error(`Sheet "${name}" does not exist in this workbook`)
+      }
+      onProgress?.('parsing', rowsParsed)
+      const rows = this.sheetToRows(worksheet)
+      const sheetStart = rowsParsed
+      const cleaned = this.cleanAndStructureData(rows, this.sheetMerges(worksheet), locale, onProgress && (rows => {
+        onProgress('cleaning', sheetStart + rows)
+      }))
+      rowsParsed += cleaned.data.length
+      return { name, ...cleaned }
+    })
+
+    onProgress?.('scoring', rowsParsed)
+    const fileLabel = file.name.replace(/\.[^.]+$/, '')
+
+    switch (selection.mode) {
+      case 'stack':
+        return [this.stackSheets(sheets, file, fileLabel)]
+      case 'separate':
+        return sheets.map(sheet => this.buildTable(sheet.name, sheet, file, [sheet.name]))
+      default:
+        return [this.buildTable(fileLabel, sheets[0], file, [sheets[0].name])]
+    }
+  }
+
+  // Sheets can be stacked when they share the same header row, ignoring order and case
+  static haveMatchingHeaders(sheets: SheetSummary[]): boolean {
+    if (sheets.length < 2) return false
+    const signature = (headers: string[]) => headers.map(h => h.toLowerCase()).sort().join('|')
+    const first = signature(sheets[0].headers)
+    return sheets.every(sheet => sheet.headers.length > 0 && signature(sheet.headers) === first)
+  }
+
+  private static stackSheets(
+    sheets: (CleanedData & { name: string })[],
+    file: SourceFile,
+    label: string
+  ): DataTable {
+    const columns = sheets[0].columns
+    const byLowercase = (sheet: { columns: string[] }) =>
+      new Map(sheet.columns.map(column => [column.toLowerCase(), column]))
+
+    for (const sheet of sheets.slice(1)) {
+      const lookup = byLowercase(sheet)
+      const missing = columns.filter(column => !lookup.has(column.toLowerCase()))
+      if (missing.length > 0 || sheet.columns.length !== columns.length) {
+        throw new Error(`Sheet "${sheet.name}" does not have the same headers as "${sheets[0].name}"`)
+      }
+    }
+
+    let sourceColumn = SOURCE_SHEET_COLUMN
+    while (columns.some(column => column.toLowerCase() === sourceColumn.toLowerCase())) {
+      sourceColumn = `_${sourceColumn}`
+    }
+
+    const data: DataRow[] = []
+    for (const sheet of sheets) {
+      const lookup = byLowercase(sheet)
+      for (const row of sheet.data) {
+        const stackedRow: DataRow = { [sourceColumn]: sheet.name }
+        for (const column of columns) {
+          stackedRow[column] = row[lookup.get(column.toLowerCase()) as string]
+        }
+        data.push(stackedRow)
+      }
+    }
+
+    const labels = { ...sheets[0].labels, [sourceColumn]: SOURCE_SHEET_LABEL }
+    // Issues keep the sheet name so row numbers stay meaningful
+    const issues = sheets.flatMap(sheet =>
+      sheets.length > 1 ? sheet.issues.map(issue => ({ ...issue, sheet: sheet.name })) : sheet.issues
+    )
+    return this.buildTable(
+      label,
+      { data, columns: [sourceColumn, ...columns], labels, issues },
+      file,
+      sheets.map(sheet => sheet.name)
+    )
+  }
+
+  private static buildTable(
+    label: string,
+    { data, columns, labels, issues }: CleanedData,
+    file: SourceFile,
+    sourceSheets: string[]
+  ): DataTable {
+    return {
+      name: this.toTableName(label),
+      label,
+      data,
+      columns,
+      schema: this.inferSchema(data, columns, labels),
+      metadata: {
+        fileName: file.name,
+        fileSize: file.size,
+        rowCount: data.length,
+        columnCount: columns.length,
+        dataQualityScore: this.calculateDataQualityScore(data, columns),
+        sourceSheets,
+        parseIssues: issues,
+        cleaningSteps: []
+      }
+    }
+  }
+
+  // Table names are used in SQL, so they are kept to lowercase identifiers
+  static toTableName(label: string): string {
+    const name = label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+    if (!name) return 'data'
+    if (/^[0-9]/.test(name)) return `t_${name}`
+    return KEYWORDS.has(name.toUpperCase()) ? `${name}_table` : name
+  }
+
   private static findBestSheet(workbook: XLSX.WorkBook): string {
     const sheetNames = workbook.SheetNames
     
@@ -77,32 +308,89 @@ export class DataProcessor {
     return bestSheet
   }
 
-  private static cleanAndStructureData(rawData: any[][]): {
-    data: DataRow[]
-    columns: string[]
-  } {
-    if (rawData.length === 0) {
-      return { data: [], columns: [] }
+  // Merged ranges relative to the sheet's used range, matching sheet_to_json row and column indexes
+  private static sheetMerges(worksheet: XLSX.WorkSheet): XLSX.Range[] {
+    const origin = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1').s
+    return (worksheet['!merges'] ?? []).map(merge => ({
+      s: { r: merge.s.r - origin.r, c: merge.s.c - origin.c },
+      e: { r: merge.e.r - origin.r, c: merge.e.c - origin.c }
+    }))
+  }
+
+  // Rows of cell values relative to the range start, like sheet_to_json with header: 1.
+  // Date-formatted cells become ISO strings; everything else keeps its stored value.
+  private static sheetToRows(worksheet: XLSX.WorkSheet, range?: XLSX.Range): any[][] {
+    if (!worksheet['!ref']) return []
+    const bounds = range ?? XLSX.utils.decode_range(worksheet['!ref'])
+    const columnNames: string[] = []
+    for (let c = bounds.s.c; c <= bounds.e.c; c++) columnNames.push(XLSX.utils.encode_col(c))
+
+    const rows: any[][] = []
+    for (let r = bounds.s.r; r <= bounds.e.r; r++) {
+      const row: any[] = []
+      const rowName = XLSX.utils.encode_row(r)
+      for (let c = 0; c < columnNames.length; c++) {
+        const cell: XLSX.CellObject | undefined = worksheet[columnNames[c] + rowName]
+        if (cell) {
+          const value = this.cellValue(cell)
+          if (value !== null) row[c] = value
+        }
+      }
+      rows.push(row)
     }
+    return rows
+  }
 
-    // Find header row (first non-empty row with string values)
-    let headerRowIndex = 0
-    for (let i = 0; i < Math.min(5, rawData.length); i++) {
-      if (this.isLikelyHeaderRow(rawData[i])) {
-        headerRowIndex = i
-        break
+  private static cellValue(cell: XLSX.CellObject): any {
+    switch (cell.t) {
+      case 'n': {
+        if (typeof cell.z !== 'string' || !XLSX.SSF.is_date(cell.z)) return cell.v
+        const code = XLSX.SSF.parse_date_code(cell.v as number)
+        if (!code) return cell.v
+        const hasTime = code.H !== 0 || code.M !== 0 || code.S !== 0
+        return LocaleParser.toISO(code.y, code.m, code.d, hasTime ? [code.H, code.M, code.S] : null) ?? cell.v
       }
+      case 'd':
+        return LocaleParser.dateToISO(cell.v as Date)
+      case 'e':
+      case 'z':
+        return null
+      default:
+        return cell.v ?? null
+    }
+  }
+
+  private static cleanAndStructureData(
+    rawData: any[][],
+    merges: XLSX.Range[],
+    locale: ParseLocale,
+    onRowsCleaned?: (rows: number) => void
+  ): CleanedData {
+    if (rawData.length === 0) {
+      return { data: [], columns: [], labels: {}, issues: [] }
     }
 
+    const rows = this.fillMergedCells(rawData, merges)
+    const { start, depth } = this.findHeaderRows(rows, merges)
+
     // Extract and clean column names
-    const headerRow = rawData[headerRowIndex] || []
+    const headerRow = this.combineHeaderRows(rows.slice(start, start + depth))
     const columns = this.cleanColumnNames(headerRow)
+    const labels: Record<string, string> = {}
+    columns.forEach((column, index) => {
+      const cell = headerRow[index]
+      labels[column] = this.isEmptyCell(cell) ? `Column ${index + 1}` : String(cell).trim()
+    })
     
     // Process data rows
-    const dataRows = rawData.slice(headerRowIndex + 1)
+    const dataRows = this.trimFooterRows(rows.slice(start + depth), columns.length)
     const cleanedData: DataRow[] = []
 
     for (let i = 0; i < dataRows.length; i++) {
+      if (onRowsCleaned && i % PROGRESS_INTERVAL === 0) {
+        onRowsCleaned(i)
+      }
+
       const row = dataRows[i]
       if (this.isEmptyRow(row)) continue
 
@@ -116,10 +404,224 @@ export class DataProcessor {
       cleanedData.push(cleanedRow)
     }
 
+    const issues = this.normalizeColumns(cleanedData, columns, labels, locale)
+
     return {
       data: cleanedData,
-      columns: columns.filter(col => col.trim() !== '')
+      columns,
+      labels,
+      issues
+    }
+  }
+
+  // Converts text columns that are mostly numbers or dates in the given locale.
+  // Cells that do not parse keep their text and are reported.
+  private static normalizeColumns(
+    data: DataRow[],
+    columns: string[],
+    labels: Record<string, string>,
+    locale: ParseLocale
+  ): ParseIssue[] {
+    const issues: ParseIssue[] = []
+
+    for (const column of columns) {
+      const cells = data
+        .map((row, index) => ({ index, value: row[column] }))
+        .filter(cell => cell.value !== null)
+      const texts = cells.filter(cell => typeof cell.value === 'string')
+      if (texts.length === 0) continue
+      // Leading zeros mark codes such as "00123" that must stay text
+      if (texts.some(cell => /^0\d+$/.test(cell.value))) continue
+
+      const numbers = cells.map(cell => typeof cell.value === 'string'
+        ? LocaleParser.parseNumber(cell.value, locale)
+        : typeof cell.value === 'number' ? cell.value : null)
+      if (this.parsedShare(numbers) >= TYPE_MATCH_THRESHOLD) {
+        cells.forEach((cell, i) => {
+          const value = numbers[i]
+          if (value !== null) data[cell.index][column] = Number.isInteger(value) ? value : parseFloat(value.toFixed(6))
+        })
+        this.reportIssue(issues, column, labels, 'number', cells.filter((_, i) => numbers[i] === null))
+        continue
+      }
+
+      const dates = this.parseDates(cells.map(cell => cell.value), locale.dateOrder)
+      if (this.parsedShare(dates) >= TYPE_MATCH_THRESHOLD) {
+        cells.forEach((cell, i) => {
+          if (dates[i] !== null) data[cell.index][column] = dates[i]
+        })
+        this.reportIssue(issues, column, labels, 'date', cells.filter((_, i) => dates[i] === null))
+      }
     }
+
+    return issues
+  }
+
+  // Uses the locale's day/month order unless another order reads more of the column
+  private static parseDates(values: any[], order: DateOrder): (string | null)[] {
+    const orders: DateOrder[] = [order, ...(['DMY', 'MDY', 'YMD'] as DateOrder[]).filter(other => other !== order)]
+    let best: (string | null)[] = []
+    let bestCount = -1
+
+    for (const candidate of orders) {
+      const parsed = values.map(value => typeof value === 'string' ? LocaleParser.parseDate(value, candidate) : null)
+      const count = parsed.filter(value => value !== null).length
+      if (count > bestCount) {
+        best = parsed
+        bestCount = count
+      }
+      if (count === values.length) break
+    }
+    return best
+  }
+
+  private static parsedShare(values: any[]): number {
+    return values.filter(value => value !== null).length / values.length
+  }
+
+  private static reportIssue(
+    issues: ParseIssue[],
+    column: string,
+    labels: Record<string, string>,
+    expected: ParseIssue['expected'],
+    failed: { index: number; value: any }[]
+  ) {
+    if (failed.length === 0) return
+    issues.push({
+      column: labels[column] ?? column,
+      expected,
+      count: failed.length,
+      examples: failed.slice(0, MAX_ISSUE_EXAMPLES).map(cell => ({ row: cell.index + 1, value: String(cell.value) }))
+    })
+  }
+
+  // Every cell of a merged range takes the value of its top-left cell
+  private static fillMergedCells(rawData: any[][], merges: XLSX.Range[]): any[][] {
+    if (merges.length === 0) return rawData
+
+    const rows = rawData.slice()
+    for (const merge of merges) {
+      const value = rows[merge.s.r]?.[merge.s.c]
+      if (this.isEmptyCell(value)) continue
+
+      for (let r = merge.s.r; r <= merge.e.r && r < rows.length; r++) {
+        const row = (rows[r] ?? []).slice()
+        for (let c = merge.s.c; c <= merge.e.c; c++) {
+          if (this.isEmptyCell(row[c])) row[c] = value
+        }
+        rows[r] = row
+      }
+    }
+    return rows
+  }
+
+  // Finds where the table's header starts, skipping title and notes rows, and how many rows it spans
+  private static findHeaderRows(rows: any[][], merges: XLSX.Range[]): { start: number; depth: number } {
+    const scanned = rows.slice(0, HEADER_SCAN_ROWS + MAX_HEADER_LEVELS)
+    const width = Math.max(0, ...scanned.map(row => this.countValues(row)))
+    // Titles and notes fill a cell or two; the header spans most of the table's width
+    const minimumWidth = width > 1 ? Math.max(2, Math.ceil(width / 2)) : 1
+
+    let start = -1
+    for (let i = 0; i < Math.min(HEADER_SCAN_ROWS, rows.length); i++) {
+      if (this.countValues(rows[i]) >= minimumWidth && this.isLikelyHeaderRow(rows[i])) {
+        start = i
+        break
+      }
+    }
+    if (start === -1) {
+      // Find header row (first non-empty row with string values)
+      start = Math.max(0, rows.slice(0, 5).findIndex(row => this.isLikelyHeaderRow(row)))
+    }
+
+    let depth = 1
+    // Sparse group labels without merges sit in the row directly above the detected header
+    while (start > 0 && depth < MAX_HEADER_LEVELS && this.isSparseGroupRow(rows[start - 1], rows[start])) {
+      start--
+      depth++
+    }
+    // Merged group cells make the header's first row repeat values; the next row holds the leaves
+    while (
+      depth < MAX_HEADER_LEVELS &&
+      this.isGroupRow(rows[start + depth - 1], start + depth - 1, merges) &&
+      this.isLikelyHeaderRow(rows[start + depth])
+    ) {
+      depth++
+    }
+
+    return { start, depth }
+  }
+
+  private static isGroupRow(row: any[], rowIndex: number, merges: XLSX.Range[]): boolean {
+    if (!row) return false
+    if (merges.some(merge => merge.s.r === rowIndex && merge.e.c > merge.s.c)) return true
+    return row.some((cell, c) => !this.isEmptyCell(cell) && typeof cell === 'string' && row[c + 1] === cell)
+  }
+
+  private static isSparseGroupRow(row: any[], below: any[]): boolean {
+    if (!row || this.countValues(row) < 2 || this.countValues(row) >= this.countValues(below)) return false
+    // Group labels sit over the measures, leaving the leading dimension column blank
+    if (!this.isEmptyCell(row[0])) return false
+    return row.every((cell, c) =>
+      this.isEmptyCell(cell) || (typeof cell === 'string' && !this.isEmptyCell(below[c]))
+    )
+  }
+
+  // Joins stacked header cells into names like "Q1 > Revenue", carrying group labels across blank cells
+  private static combineHeaderRows(levels: any[][]): any[] {
+    if (levels.length <= 1) return levels[0] || []
+
+    const width = Math.max(...levels.map(row => row.length))
+    const leaves = levels[levels.length - 1]
+    const groups = levels.slice(0, -1).map(row => {
+      const filled: any[] = []
+      let current: any = null
+      for (let c = 0; c < width; c++) {
+        if (!this.isEmptyCell(row[c])) current = row[c]
+        filled.push(this.isEmptyCell(row[c]) && !this.isEmptyCell(leaves[c]) ? current : row[c])
+      }
+      return filled
+    })
+
+    return Array.from({ length: width }, (_, c) => {
+      const parts: string[] = []
+      for (const row of [...groups, leaves]) {
+        const cell = row[c]
+        if (this.isEmptyCell(cell)) continue
+        const part = String(cell).trim()
+        if (parts[parts.length - 1] !== part) parts.push(part)
+      }
+      return parts.length > 0 ? parts.join(HEADER_LEVEL_SEPARATOR) : null
+    })
+  }
+
+  // Drops total and notes rows trailing the data
+  private static trimFooterRows(rows: any[][], width: number): any[][] {
+    let end = rows.length
+    while (end > 0) {
+      const row = rows[end - 1]
+      if (this.isEmptyRow(row) || this.isFooterRow(row, width)) end--
+      else break
+    }
+    return end === rows.length ? rows : rows.slice(0, end)
+  }
+
+  private static isFooterRow(row: any[], width: number): boolean {
+    const values = row.filter(cell => !this.isEmptyCell(cell))
+    const label = values.find(cell => typeof cell === 'string')
+    if (label === undefined) return false
+
+    const firstLabelIndex = row.indexOf(label)
+    if (firstLabelIndex <= 1 && TOTAL_ROW_PATTERN.test(String(label).trim())) return true
+    return width >= 3 && values.length === 1 && NOTE_ROW_PATTERN.test(String(label).trim())
+  }
+
+  private static countValues(row: any[] | undefined): number {
+    return row ? row.filter(cell => !this.isEmptyCell(cell)).length : 0
+  }
+
+  private static isEmptyCell(value: any): boolean {
+    return value === null || value === undefined || value === ''
   }
 
   private static isLikelyHeaderRow(row: any[]): boolean {
@@ -133,44 +635,55 @@ export class DataProcessor {
     return stringValues.length / nonEmptyValues.length > 0.7
   }
 
+  // Sanitized names are unique ignoring case, since SQL resolves columns case-insensitively
   private static cleanColumnNames(headerRow: any[]): string[] {
-    return headerRow.map((cell, index) => {
-      if (cell === null || cell === undefined || cell === '') {
-        return `Column_${index + 1}`
-      }
-      
-      return String(cell)
-        .trim()
-        .replace(/[^\w\s-]/g, '')
-        .replace(/\s+/g, '_')
-        .substring(0, 50)
+    const used: string[] = []
+
+    return Array.from(headerRow, (cell, index) => {
+      const cleaned = this.isEmptyCell(cell) ? '' : this.sanitizeColumnName(String(cell))
+      const name = this.uniqueColumnName(cleaned || `Column_${index + 1}`, used)
+      used.push(name)
+      return name
     })
   }
 
+  // Identifier for a column added after loading, such as one produced by splitting
+  static columnName(label: string, existing: string[]): string {
+    return this.uniqueColumnName(this.sanitizeColumnName(label) || `Column_${existing.length + 1}`, existing)
+  }
+
+  private static sanitizeColumnName(label: string): string {
+    return label
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/ß/g, 'ss')
+      .replace(/[^\w\s-]/g, ' ')
+      .trim()
+      .replace(/\s+/g, '_')
+      .replace(/_{2,}/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .substring(0, MAX_COLUMN_NAME_LENGTH)
+  }
+
+  private static uniqueColumnName(base: string, existing: string[]): string {
+    const used = new Set(existing.map(name => name.toLowerCase()))
+    let name = base
+    let suffix = 2
+    while (used.has(name.toLowerCase())) {
+      name = `${base}_${suffix++}`
+    }
+    return name
+  }
+
   private static cleanCellValue(value: any): any {
     if (value === null || value === undefined || value === '') {
       return null
     }
     
-    // Handle Excel date serial numbers
-    if (typeof value === 'number' && value > 25000 && value < 50000) {
-      try {
-        const date = XLSX.SSF.parse_date_code(value)
-        return new Date(date.y, date.m - 1, date.d).toISOString().split('T')[0]
-      } catch (e) {
-        return value
-      }
-    }
-    
-    // Clean string values
+    // Clean string values; numbers and dates in text are converted per column once the locale is known
     if (typeof value === 'string') {
       const cleaned = value.trim()
-      
-      // Try to parse as number
-      if (!isNaN(Number(cleaned)) && cleaned !== '') {
-        const num = Number(cleaned)
-        return Number.isInteger(num) ? num : parseFloat(num.toFixed(6))
-      }
+      if (cleaned === '' || NULL_TOKENS.has(cleaned.toLowerCase())) return null
       
       // Try to parse as boolean
       if (cleaned.toLowerCase() === 'true') return true
@@ -187,7 +700,7 @@ export class DataProcessor {
     return row.every(cell => cell === null || cell === undefined || cell === '')
   }
 
-  private static calculateDataQualityScore(data: DataRow[], columns: string[]): number {
+  static calculateDataQualityScore(data: DataRow[], columns: string[]): number {
     if (data.length === 0) return 0
 
     let totalCells = data.length * columns.length
@@ -214,4 +727,84 @@ export class DataProcessor {
     
     return Math.round((completenessScore + consistencyScore) / 2)
   }
+
+  static inferSchema(data: DataRow[], columns: string[], labels: Record<string, string> = {}): ColumnSchema[] {
+    return columns.map(column => {
+      const values = data.map(row => row[column])
+      const present = values.filter(val => val !== null && val !== undefined && val !== '')
+      const distinct = new Set(present.map(val => typeof val === 'object' ? JSON.stringify(val) : val))
+      const type = this.inferColumnType(column, present, distinct.size)
+
+      const schema: ColumnSchema = {
+        name: column,
+        label: labels[column] ?? column,
+        type,
+        nullable: present.length < values.length,
+        nullCount: values.length - present.length,
+        cardinality: distinct.size,
+        sampleValues: Array.from(distinct).slice(0, SAMPLE_VALUE_COUNT)
+      }
+
+      if (type === 'numeric' || type === 'integer') {
+        const numbers = present.map(Number).filter(val => !isNaN(val))
+        if (numbers.length > 0) {
+          schema.min = numbers.reduce((a, b) => Math.min(a, b))
+          schema.max = numbers.reduce((a, b) => Math.max(a, b))
+        }
+      } else if (type === 'date' || type === 'datetime') {
+        const dates = present.map(String).filter(val => this.isDateLike(val)).sort()
+        schema.min = dates[0]
+        schema.max = dates[dates.length - 1]
+      }
+
+      return schema
+    })
+  }
+
+  private static inferColumnType(column: string, values: any[], cardinality: number): ColumnType {
+    if (values.length === 0) return 'text'
+
+    const share = (predicate: (val: any) => boolean) =>
+      values.filter(predicate).length / values.length
+
+    if (share(val => typeof val === 'boolean') >= TYPE_MATCH_THRESHOLD) {
+      return 'boolean'
+    }
+
+    const isNumber = (val: any) =>
+      typeof val === 'number' || (typeof val === 'string' && val.trim() !== '' && !isNaN(Number(val)))
+
+    const looksLikeId = /(^|[_\s-])(id|key|code|uuid|guid)$|^id[_\s-]/i.test(column)
+    const isUnique = cardinality === values.length && values.length > 1
+
+    if (share(isNumber) >= TYPE_MATCH_THRESHOLD) {
+      const isInteger = share(val => Number.isInteger(Number(val))) >= TYPE_MATCH_THRESHOLD
+      if (isInteger && looksLikeId) return 'identifier'
+      return isInteger ? 'integer' : 'numeric'
+    }
+
+    if (share(val => typeof val === 'string' && /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(val)) >= TYPE_MATCH_THRESHOLD) {
+      return 'datetime'
+    }
+    if (share(val => val instanceof Date || (typeof val === 'string' && this.isDateLike(val))) >= TYPE_MATCH_THRESHOLD) {
+      return 'date'
+    }
+
+    // Unique, space-free codes such as "ORD-00123"
+    const codeLike = share(val => typeof val === 'string' && /^[A-Za-z0-9_-]+$/.test(val) && /\d/.test(val)) >= TYPE_MATCH_THRESHOLD
+    if (isUnique && (looksLikeId || codeLike)) {
+      return 'identifier'
+    }
+
+    const categoricalLimit = Math.min(MAX_CATEGORIES, Math.max(2, values.length * 0.5))
+    if (cardinality <= categoricalLimit) {
+      return 'categorical'
+    }
+
+    return 'text'
+  }
+
+  private static isDateLike(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))
+  }
 }
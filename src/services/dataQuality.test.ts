@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { makeTable, salesRows } from '../test/fixtures'
+import { DataCleaner } from './dataCleaner'
+import { DataQualityAnalyzer } from './dataQuality'
+
+// Product names with a doubled space in every tenth row
+const table = makeTable('sales', salesRows.map((row, index) => ({
+  ...row,
+  Product: index % 10 === 0 ? `Super  ${row.Product}` : row.Product
+})))
+
+describe('DataQualityAnalyzer', () => {
+  it('reports values with repeated spaces inside them and suggests trimming them', () => {
+    const report = DataQualityAnalyzer.analyze(table.data, table.schema)
+    const issues = report.columns.flatMap(column => column.issues.filter(issue => issue.kind === 'whitespace'))
+
+    expect(issues).toEqual([expect.objectContaining({
+      column: 'Product',
+      description: '12 values are written with repeated spaces or tabs inside them'
+    })])
+    expect(DataCleaner.suggest(table, report).map(suggestion => suggestion.step)).toContainEqual({ type: 'trim', columns: ['Product'] })
+  })
+})
@@ -0,0 +1,273 @@
+import { ColumnQuality, ColumnSchema, DataRow, QualityIssue, QualityIssueKind, QualityReport } from '../types'
+
+// Share of rows affected before an issue counts as medium or high severity
+const MEDIUM_SEVERITY_SHARE = 0.05
+const HIGH_SEVERITY_SHARE = 0.2
+const OUTLIER_MIN_VALUES = 10
+const IQR_FENCE = 1.5
+// Spelling checks compare every pair of distinct values, so they are limited to category-like columns
+const MAX_SPELLING_VALUES = 200
+const MIN_FUZZY_LENGTH = 4
+// A variant must be this much rarer than the spelling it resembles to count as a typo
+const TYPO_FREQUENCY_RATIO = 0.35
+const MIN_DATE = '1900-01-01'
+const MAX_FUTURE_YEARS = 10
+// Cells are trimmed when a file is loaded, so only spacing inside a value is left to find
+const WHITESPACE_PATTERN = /\s{2,}|[\t\u00a0]/
+
+type ValueKind = 'number' | 'boolean' | 'date' | 'text'
+
+interface VariantResult {
+  rows: number[]
+  examples: string[]
+  replacements: Record<string, string>
+}
+
+const KIND_LABELS: Record<ValueKind, string> = {
+  number: 'a number',
+  boolean: 'true/false',
+  date: 'a date',
+  text: 'text'
+}
+
+export class DataQualityAnalyzer {
+  static analyze(data: DataRow[], schema: ColumnSchema[]): QualityReport {
+    return {
+      columns: schema.map(column => this.analyzeColumn(data, column)),
+      rowIssues: this.findDuplicateRows(data, schema)
+    }
+  }
+
+  static issueCount(report: QualityReport): number {
+    return report.rowIssues.length + report.columns.reduce((sum, column) => sum + column.issues.length, 0)
+  }
+
+  private static analyzeColumn(data: DataRow[], column: ColumnSchema): ColumnQuality {
+    const missing: number[] = []
+    const present: { row: number; value: any }[] = []
+    data.forEach((row, index) => {
+      const value = row[column.name]
+      if (value === null || value === undefined || value === '') missing.push(index)
+      else present.push({ row: index, value })
+    })
+
+    const issues: QualityIssue[] = []
+    const add = (kind: QualityIssueKind, rows: number[], description: string, replacements?: Record<string, string>) => {
+      if (rows.length === 0) return
+      issues.push({
+        kind,
+        column: column.name,
+        severity: this.severity(rows.length, data.length),
+        count: rows.length,
+        description,
+        rows,
+        ...(replacements && { replacements })
+      })
+    }
+
+    add('missing', missing, `${this.formatShare(missing.length, data.length)} of values are missing`)
+
+    const mixed = this.findMixedTypes(present)
+    if (mixed) add('mixed_types', mixed.rows, `${this.countOf(mixed.rows.length, 'value')} not ${KIND_LABELS[mixed.expected]}`)
+
+    if (column.type === 'numeric' || column.type === 'integer') {
+      const outliers = this.findOutliers(present)
+      add('outliers', outliers, `${this.countOf(outliers.length, 'value')} far outside the typical range`)
+    }
+
+    if (column.type === 'date' || column.type === 'datetime') {
+      const outOfRange = this.findOutOfRangeDates(present)
+      add('date_range', outOfRange, `${this.countOf(outOfRange.length, 'date')} before 1900 or more than ${MAX_FUTURE_YEARS} years ahead`)
+    }
+
+    const texts = present.filter(cell => typeof cell.value === 'string')
+    const whitespace = texts.filter(cell => WHITESPACE_PATTERN.test(cell.value)).map(cell => cell.row)
+    add('whitespace', whitespace, `${this.countOf(whitespace.length, 'value')} written with repeated spaces or tabs inside them`)
+
+    if (column.type === 'categorical' || column.type === 'text') {
+      const casing = this.findVariants(texts, value => value.toLowerCase())
+      add('casing', casing.rows, `Same value written with different capitalization (${casing.examples.join(', ')})`, casing.replacements)
+
+      const spelling = this.findSpellingVariants(texts)
+      add('inconsistent_spelling', spelling.rows, `Likely misspelled or inconsistently written categories (${spelling.examples.join(', ')})`, spelling.replacements)
+    }
+
+    return {
+      column: column.name,
+      label: column.label,
+      missingRate: data.length > 0 ? missing.length / data.length : 0,
+      issues
+    }
+  }
+
+  private static findDuplicateRows(data: DataRow[], schema: ColumnSchema[]): QualityIssue[] {
+    const seen = new Set<string>()
+    const duplicates: number[] = []
+    data.forEach((row, index) => {
+      const key = JSON.stringify(schema.map(column => row[column.name] ?? null))
+      if (seen.has(key)) duplicates.push(index)
+      else seen.add(key)
+    })
+    if (duplicates.length === 0) return []
+
+    return [{
+      kind: 'duplicate_rows',
+      severity: this.severity(duplicates.length, data.length),
+      count: duplicates.length,
+      description: `${this.countOf(duplicates.length, 'row')} an exact copy of an earlier row`,
+      rows: duplicates
+    }]
+  }
+
+  // Values whose kind differs from the column's most common kind
+  private static findMixedTypes(cells: { row: number; value: any }[]): { expected: ValueKind; rows: number[] } | null {
+    const kinds = cells.map(cell => this.valueKind(cell.value))
+    const counts = new Map<ValueKind, number>()
+    for (const kind of kinds) counts.set(kind, (counts.get(kind) ?? 0) + 1)
+    if (counts.size < 2) return null
+
+    const [expected] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]
+    return { expected, rows: cells.filter((_, i) => kinds[i] !== expected).map(cell => cell.row) }
+  }
+
+  private static valueKind(value: any): ValueKind {
+    if (typeof value === 'number') return 'number'
+    if (typeof value === 'boolean') return 'boolean'
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))) return 'date'
+    return 'text'
+  }
+
+  // Tukey fences: below Q1 - 1.5 IQR or above Q3 + 1.5 IQR
+  private static findOutliers(cells: { row: number; value: any }[]): number[] {
+    const numbers = cells.filter(cell => typeof cell.value === 'number')
+    if (numbers.length < OUTLIER_MIN_VALUES) return []
+
+    const sorted = numbers.map(cell => cell.value as number).sort((a, b) => a - b)
+    const q1 = this.quantile(sorted, 0.25)
+    const q3 = this.quantile(sorted, 0.75)
+    const iqr = q3 - q1
+    if (iqr === 0) return []
+
+    const low = q1 - IQR_FENCE * iqr
+    const high = q3 + IQR_FENCE * iqr
+    return numbers.filter(cell => cell.value < low || cell.value > high).map(cell => cell.row)
+  }
+
+  private static quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q
+    const base = Math.floor(position)
+    const next = sorted[Math.min(base + 1, sorted.length - 1)]
+    return sorted[base] + (position - base) * (next - sorted[base])
+  }
+
+  private static findOutOfRangeDates(cells: { row: number; value: any }[]): number[] {
+    const limit = new Date()
+    limit.setFullYear(limit.getFullYear() + MAX_FUTURE_YEARS)
+    const max = limit.toISOString().slice(0, 10)
+    return cells
+      .filter(cell => typeof cell.value === 'string' && this.valueKind(cell.value) === 'date')
+      .filter(cell => cell.value < MIN_DATE || cell.value.slice(0, 10) > max)
+      .map(cell => cell.row)
+  }
+
+  // Groups spellings by a normalized key; every spelling other than the group's most common one is flagged
+  private static findVariants(
+    cells: { row: number; value: string }[],
+    normalize: (value: string) => string,
+    spellingOf: (value: string) => string = value => value
+  ): VariantResult {
+    const groups = new Map<string, Map<string, { rows: number[]; values: Map<string, number> }>>()
+    for (const cell of cells) {
+      const key = normalize(cell.value)
+      const spelling = spellingOf(cell.value)
+      const spellings = groups.get(key) ?? new Map<string, { rows: number[]; values: Map<string, number> }>()
+      const entry = spellings.get(spelling) ?? { rows: [], values: new Map<string, number>() }
+      entry.rows.push(cell.row)
+      entry.values.set(cell.value, (entry.values.get(cell.value) ?? 0) + 1)
+      spellings.set(spelling, entry)
+      groups.set(key, spellings)
+    }
+    if (groups.size > MAX_SPELLING_VALUES) return { rows: [], examples: [], replacements: {} }
+
+    const rows: number[] = []
+    const examples: string[] = []
+    const replacements: Record<string, string> = {}
+    for (const spellings of groups.values()) {
+      if (spellings.size < 2) continue
+      const ranked = Array.from(spellings.entries()).sort((a, b) => b[1].rows.length - a[1].rows.length)
+      const [, usual] = ranked[0]
+      const target = Array.from(usual.values.entries()).sort((a, b) => b[1] - a[1])[0][0]
+      for (const [, variant] of ranked.slice(1)) {
+        rows.push(...variant.rows)
+        for (const value of variant.values.keys()) replacements[value] = target
+      }
+      if (examples.length < 3) examples.push(ranked.slice(0, 3).map(([spelling]) => `"${spelling}"`).join(' / '))
+    }
+    return { rows: rows.sort((a, b) => a - b), examples, replacements }
+  }
+
+  // Punctuation, accent and spacing differences, plus rare values one edit away from a common one.
+  // Capitalization differences are reported separately, so spellings are compared in lowercase.
+  private static findSpellingVariants(cells: { row: number; value: string }[]): VariantResult {
+    const loose = (value: string) => value
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]/g, '')
+
+    const counts = new Map<string, number>()
+    for (const cell of cells) {
+      const key = loose(cell.value)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    if (counts.size > MAX_SPELLING_VALUES) return { rows: [], examples: [], replacements: {} }
+
+    // Rare keys fold into the common key they are one edit away from
+    const canonical = new Map<string, string>()
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])
+    for (const [key, count] of ranked) {
+      if (key.length < MIN_FUZZY_LENGTH) continue
+      const match = ranked.find(([other, otherCount]) =>
+        other !== key &&
+        count <= otherCount * TYPO_FREQUENCY_RATIO &&
+        !canonical.has(other) &&
+        this.withinOneEdit(key, other)
+      )
+      if (match) canonical.set(key, match[0])
+    }
+
+    return this.findVariants(
+      cells,
+      value => {
+        const key = loose(value)
+        return canonical.get(key) ?? key
+      },
+      value => value.toLowerCase()
+    )
+  }
+
+  private static withinOneEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) return false
+    let i = 0
+    while (i < a.length && i < b.length && a[i] === b[i]) i++
+    if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1)
+    return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1)
+  }
+
+  private static severity(count: number, total: number): QualityIssue['severity'] {
+    const share = total > 0 ? count / total : 0
+    if (share >= HIGH_SEVERITY_SHARE) return 'high'
+    if (share >= MEDIUM_SEVERITY_SHARE) return 'medium'
+    return 'low'
+  }
+
+  // "1 value is" / "3 values are"
+  private static countOf(count: number, noun: string): string {
+    return count === 1 ? `1 ${noun} is` : `${count.toLocaleString()} ${noun}s are`
+  }
+
+  private static formatShare(count: number, total: number): string {
+    const percent = total > 0 ? (count / total) * 100 : 0
+    return percent < 1 ? '<1%' : `${Math.round(percent)}%`
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { DataTable, InsightData } from '../types'
+import { makeTable, salesRows, salesTable } from '../test/fixtures'
+import { DatasetExplorer } from './datasetExplorer'
+import { WorkspaceManager } from './workspace'
+
+const explore = (table = salesTable()) => DatasetExplorer.explore(WorkspaceManager.create([table]))
+const titles = (table?: DataTable) => explore(table).map(finding => (finding.result.data as InsightData).title)
+
+// Three in four orders moved to the North, and units that grow steadily over the year
+const skewed = makeTable('sales', salesRows.map((row, index) => ({
+  ...row,
+  Region: index % 4 === 2 ? row.Region : 'North',
+  Units: row.Units + index / 10
+})))
+
+describe('DatasetExplorer', () => {
+  it('does not report a leading category when the values are evenly split', () => {
+    expect(explore().map(finding => finding.id).filter(id => id.startsWith('sales:category:'))).toEqual([])
+  })
+
+  it('reports a category whose leading value clearly outnumbers the rest', () => {
+    expect(titles(skewed)).toContain('North leads Region')
+  })
+
+  it('reports only trends that pass the significance test', () => {
+    expect(titles().filter(title => /trend/i.test(title))).toEqual([])
+    expect(titles(skewed)).toContain('Total Units is trending up')
+  })
+
+  it('ranks findings by score', () => {
+    const scores = explore(skewed).map(finding => finding.score)
+    expect(scores).toEqual([...scores].sort((a, b) => b - a))
+  })
+})
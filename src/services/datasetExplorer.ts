@@ -0,0 +1,189 @@
+import { ColumnSchema, DataTable, ExplorationFinding, InsightData, TimePeriod, Workspace } from '../types'
+import { ColumnProfiler } from './columnProfiler'
+import { InsightEngine } from './insightEngine'
+import { QueryBuilder, QuerySpec } from './queryBuilder'
+import { SQLEngine, SQLTable } from './sql'
+import { TimeSeriesAnalyzer } from './timeSeries'
+
+const MAX_FINDINGS = 10
+// Columns compared pairwise are capped to keep exploration quick on wide tables
+const MAX_NUMERIC_COLUMNS = 6
+const MAX_CATEGORY_VALUES = 50
+const MAX_CHART_CATEGORIES = 10
+const MAX_PER_KIND = 3
+const MIN_CORRELATION = 0.3
+// How far above an even split the leading category's share must be, as a fraction of the way to all rows
+const MIN_DOMINANCE = 0.15
+
+// Looks through a freshly loaded workspace for findings worth asking about
+export class DatasetExplorer {
+  static explore(workspace: Workspace): ExplorationFinding[] {
+    const tables: SQLTable[] = workspace.tables.map(table => ({ name: table.name, columns: table.columns, rows: table.data }))
+    const findings = workspace.tables.flatMap(table => {
+      // With several tables the questions name the one they are about
+      const scope = workspace.tables.length > 1 ? ` in ${table.name}` : ''
+      return [
+        ...this.best(this.categoryFindings(table, scope)),
+        ...this.best(this.correlationFindings(table, scope)),
+        ...this.best(this.outlierFindings(table, scope)),
+        ...this.best(this.trendFindings(table, tables, scope))
+      ]
+    })
+    return findings.sort((a, b) => b.score - a.score).slice(0, MAX_FINDINGS)
+  }
+
+  // Categories where one value accounts for a clearly larger share of rows than an even split would give
+  private static categoryFindings(table: DataTable, scope: string): ExplorationFinding[] {
+    return table.schema
+      .filter(schema => schema.type === 'categorical' || schema.type === 'boolean')
+      .flatMap(schema => {
+        const profile = ColumnProfiler.profile(table.data, schema)
+        const filled = profile.rowCount - profile.nullCount
+        const [top, second] = profile.topValues
+        if (!top || !second || filled === 0 || profile.distinctCount > MAX_CATEGORY_VALUES) return []
+        if (top.count <= second.count) return []
+
+        const share = top.count / filled
+        const even = 1 / profile.distinctCount
+        const dominance = (share - even) / (1 - even)
+        if (dominance < MIN_DOMINANCE) return []
+        const percent = (count: number) => `${Math.round((count / filled) * 100)}%`
+        const insight: InsightData = {
+          type: 'summary',
+          title: `${top.value} leads ${schema.label}`,
+          description: `${top.value} accounts for ${percent(top.count)} of the ${filled.toLocaleString()} rows with a ${schema.label}, ahead of ${second.value} at ${percent(second.count)}, across ${profile.distinctCount} distinct values.`,
+          value: percent(top.count),
+          confidence: 0.95,
+          evidence: {
+            statistics: [
+              { label: 'Distinct values', value: profile.distinctCount.toLocaleString() },
+              { label: `Share of ${top.value}`, value: percent(top.count) },
+              { label: `Share of ${second.value}`, value: percent(second.count) },
+              { label: 'Rows', value: filled.toLocaleString() }
+            ],
+            chart: {
+              type: 'bar',
+              data: profile.topValues.slice(0, MAX_CHART_CATEGORIES).map(entry => ({ name: entry.value, value: entry.count })),
+              xAxis: schema.label,
+              yAxis: 'Rows',
+              title: `Rows by ${schema.label}`
+            }
+          }
+        }
+        const spec: QuerySpec = {
+          table: table.name,
+          measures: [{ aggregate: 'COUNT', alias: 'count' }],
+          groupBy: [{ table: table.name, column: schema.name }],
+          orderBy: { key: 'count', direction: 'DESC' }
+        }
+        return [this.finding(table, `category:${schema.name}`, 0.3 + 0.5 * dominance,
+          `Show a chart of the breakdown by ${schema.label}${scope}`, insight, QueryBuilder.toSQL(spec, []))]
+      })
+  }
+
+  private static correlationFindings(table: DataTable, scope: string): ExplorationFinding[] {
+    const columns = this.numericColumns(table).slice(0, MAX_NUMERIC_COLUMNS)
+    const labels = this.labels(table)
+    const findings: ExplorationFinding[] = []
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = i + 1; j < columns.length; j++) {
+        const pair = [columns[i].name, columns[j].name]
+        const insight = InsightEngine.correlation(table.data, { columns: pair, focus: pair, labels })
+        const coefficient = Math.abs(Number(insight?.value ?? 0))
+        if (!insight || coefficient < MIN_CORRELATION) continue
+        findings.push(this.finding(table, `correlation:${pair.join(',')}`, coefficient * insight.confidence,
+          `Is there a correlation between ${columns[i].label} and ${columns[j].label}${scope}?`, insight, this.allRows(table)))
+      }
+    }
+    return findings
+  }
+
+  private static outlierFindings(table: DataTable, scope: string): ExplorationFinding[] {
+    const labels = this.labels(table)
+    return this.numericColumns(table).flatMap(schema => {
+      const insight = InsightEngine.anomalies(table.data, { columns: [schema.name], focus: [schema.name], labels })
+      if (!insight || insight.type !== 'anomaly') return []
+      // The further out the most extreme value lies, the more it stands out
+      const extreme = Math.abs(Number(insight.evidence?.table?.rows[0]?.z_score ?? 0))
+      return [this.finding(table, `outliers:${schema.name}`, insight.confidence * Math.min(0.9, 0.4 + extreme / 20),
+        `Are there any outliers in ${schema.label}${scope}?`, insight, this.allRows(table))]
+    })
+  }
+
+  // Trends of each measure, and of the row count, over the first date column
+  private static trendFindings(table: DataTable, tables: SQLTable[], scope: string): ExplorationFinding[] {
+    const date = table.schema.find(schema => schema.type === 'date' || schema.type === 'datetime')
+    if (!date) return []
+    const unit = date.min !== undefined && date.max !== undefined
+      ? TimeSeriesAnalyzer.autoPeriod(String(date.min), String(date.max))
+      : 'month'
+    return [undefined, ...this.numericColumns(table).slice(0, MAX_NUMERIC_COLUMNS)]
+      .flatMap(measure => this.trendFinding(table, tables, scope, date, unit, measure))
+  }
+
+  private static trendFinding(
+    table: DataTable,
+    tables: SQLTable[],
+    scope: string,
+    date: ColumnSchema,
+    unit: TimePeriod,
+    measure?: ColumnSchema
+  ): ExplorationFinding[] {
+    const spec: QuerySpec = {
+      table: table.name,
+      measures: [measure
+        ? { aggregate: 'SUM', column: { table: table.name, column: measure.name }, alias: 'total' }
+        : { aggregate: 'COUNT', alias: 'count' }],
+      groupBy: [],
+      period: { column: { table: table.name, column: date.name }, unit },
+      orderBy: { key: 'period', direction: 'ASC' }
+    }
+    const sql = QueryBuilder.toSQL(spec, [])
+
+    const rows = SQLEngine.execute(sql, tables).rows
+    const chart = TimeSeriesAnalyzer.toChart(rows, { period: unit }, {
+      labels: measure ? { total: `total ${measure.label}` } : { count: 'number of records' },
+      additive: true
+    })
+    const insight = chart && InsightEngine.trend(chart)
+    // A line that may be noise is not a finding
+    if (!insight?.significant) return []
+    const question = measure
+      ? `What is the trend in ${measure.label}${scope}?`
+      : `What is the trend in the number of records${scope}?`
+    return [this.finding(table, `trend:${measure?.name ?? 'count'}`, 0.9 * insight.confidence, question, insight, sql)]
+  }
+
+  private static finding(
+    table: DataTable,
+    key: string,
+    score: number,
+    question: string,
+    insight: InsightData,
+    sql: string
+  ): ExplorationFinding {
+    return {
+      id: `${table.name}:${key}`,
+      score,
+      question,
+      result: { type: 'insight', data: insight, sql_query: sql, confidence_score: insight.confidence }
+    }
+  }
+
+  // Keeps one kind of finding from crowding out the others
+  private static best(findings: ExplorationFinding[]): ExplorationFinding[] {
+    return findings.sort((a, b) => b.score - a.score).slice(0, MAX_PER_KIND)
+  }
+
+  private static numericColumns(table: DataTable): ColumnSchema[] {
+    return table.schema.filter(schema => schema.type === 'numeric' || schema.type === 'integer')
+  }
+
+  private static labels(table: DataTable): Record<string, string> {
+    return Object.fromEntries(table.schema.map(schema => [schema.name, schema.label]))
+  }
+
+  private static allRows(table: DataTable): string {
+    return QueryBuilder.toSQL({ table: table.name, measures: [], groupBy: [] }, [])
+  }
+}
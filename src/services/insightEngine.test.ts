@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { ChartData, DataRow } from '../types'
+import { salesRows } from '../test/fixtures'
+import { InsightEngine } from './insightEngine'
+import { SQLEngine } from './sql'
+
+const labels = { Units: 'Units', Unit_Price: 'Unit Price', Total_Price: 'Total Price' }
+const measures = Object.keys(labels)
+
+// Monthly totals of a measure of the sales fixture as a time chart
+function monthly(measure: string, rows: DataRow[] = salesRows): ChartData {
+  const result = SQLEngine.execute(
+    `SELECT DATE_TRUNC('month', Order_Date) AS period, SUM(${measure}) AS value FROM sales GROUP BY DATE_TRUNC('month', Order_Date) ORDER BY period`,
+    [{ name: 'sales', columns: Object.keys(rows[0]), rows }]
+  )
+  return {
+    type: 'line',
+    data: result.rows.map(row => ({ name: row.period, value: row.value })),
+    title: measure,
+    yAxis: measure,
+    timeAxis: 'month'
+  }
+}
+
+describe('InsightEngine', () => {
+  it('detects the kind of analysis a question asks for', () => {
+    expect(InsightEngine.detect('are there outliers in total price?')).toBe('anomaly')
+    expect(InsightEngine.detect('is units correlated with total price')).toBe('correlation')
+    expect(InsightEngine.detect('what is the trend in units')).toBe('trend')
+    expect(InsightEngine.detect('total price by region')).toBeNull()
+  })
+
+  describe('trend', () => {
+    it('finds no significant trend in monthly units that only fluctuate', () => {
+      const insight = InsightEngine.trend(monthly('Units'))
+      expect(insight).toMatchObject({ type: 'trend', significant: false, title: 'Units shows no clear trend' })
+      expect(insight?.description).toContain('not statistically significant')
+    })
+
+    it('finds a significant trend in units that grow every order', () => {
+      const growing = salesRows.map((row, index) => ({ ...row, Units: row.Units + index }))
+      const insight = InsightEngine.trend(monthly('Units', growing))
+      expect(insight).toMatchObject({ significant: true, title: 'Units is trending up', confidence: 0.95 })
+      expect(insight?.evidence?.chart?.series?.map(series => series.key)).toEqual(['value', 'trend'])
+    })
+  })
+
+  describe('correlation', () => {
+    it('reports a strong link between units and total price', () => {
+      const insight = InsightEngine.correlation(salesRows, { columns: measures, focus: ['Units', 'Total_Price'], labels })
+      expect(insight).toMatchObject({ type: 'correlation', significant: true, title: 'Strong positive link between Units and Total Price' })
+      expect(Number(insight?.value)).toBeGreaterThan(0.7)
+    })
+
+    it('reports no link between units and unit price, which vary independently', () => {
+      const insight = InsightEngine.correlation(salesRows, { columns: measures, focus: ['Units', 'Unit_Price'], labels })
+      expect(insight).toMatchObject({ significant: false, title: 'No clear link between Units and Unit Price' })
+    })
+  })
+
+  describe('anomalies', () => {
+    it('finds no outliers in evenly spread units', () => {
+      const insight = InsightEngine.anomalies(salesRows, { columns: measures, focus: ['Units'], labels })
+      expect(insight).toMatchObject({ type: 'summary', title: 'No outliers in Units', value: 0 })
+    })
+
+    it('flags a value far outside the others, most extreme first', () => {
+      const rows = [...salesRows, { ...salesRows[0], Units: 100 }]
+      const insight = InsightEngine.anomalies(rows, { columns: measures, focus: ['Units'], labels })
+      expect(insight).toMatchObject({ type: 'anomaly', title: '1 unusual Units value', value: 1 })
+      expect(insight?.evidence?.table?.rows[0].Units).toBe(100)
+      expect(insight?.evidence?.table?.rows[0].z_score).toBeGreaterThan(3)
+    })
+
+    it('uses the IQR fences for values within three standard deviations', () => {
+      // Two high values among twenty widen the standard deviation enough to stay within three of the mean
+      const values = [...Array.from({ length: 18 }, (_, index) => 10 + (index % 3)), 30, 31]
+      const rows = values.map(value => ({ value }))
+      const insight = InsightEngine.anomalies(rows, { columns: ['value'], focus: ['value'], labels: {} })
+      expect(insight?.value).toBe(2)
+      expect(insight?.evidence?.table?.rows.every(row => Math.abs(row.z_score) <= 3)).toBe(true)
+    })
+  })
+})
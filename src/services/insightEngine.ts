@@ -0,0 +1,298 @@
+import { ChartData, DataRow, InsightData, InsightStatistic } from '../types'
+import { CorrelationResult, Statistics } from './statistics'
+
+export type InsightKind = 'trend' | 'correlation' | 'anomaly'
+
+interface ColumnOptions {
+  // Numeric result columns that may be analysed
+  columns: string[]
+  // Those the question names, analysed first
+  focus: string[]
+  labels: Record<string, string>
+}
+
+interface Pair {
+  x: string
+  y: string
+  xs: number[]
+  ys: number[]
+}
+
+const TREND_PATTERN = /\b(trends?|trending)\b/
+const CORRELATION_PATTERN = /\b(correlat\w*|relationships? between|related to|relate to|associat\w*|depend(s|ent)? on)\b/
+const ANOMALY_PATTERN = /\b(outliers?|anomal\w*|unusual|abnormal|extreme values?|odd values?)\b/
+
+const SIGNIFICANCE_LEVEL = 0.05
+// Beyond this many standard deviations from the mean a value counts as an outlier
+const Z_SCORE_LIMIT = 3
+const IQR_FENCE = 1.5
+const OUTLIER_MIN_VALUES = 10
+const MAX_EVIDENCE_ROWS = 100
+const MAX_SCATTER_POINTS = 500
+const CORRELATION_STRENGTHS: [number, string][] = [[0.7, 'strong'], [0.4, 'moderate'], [0.2, 'weak']]
+// Spearman this much stronger than Pearson points to a consistent but curved relationship
+const MONOTONIC_MARGIN = 0.15
+
+// Statistical findings on query results, each backed by the numbers and rows it was computed from
+export class InsightEngine {
+  static detect(question: string): InsightKind | null {
+    const lowercaseQuestion = question.toLowerCase()
+    if (ANOMALY_PATTERN.test(lowercaseQuestion)) return 'anomaly'
+    if (CORRELATION_PATTERN.test(lowercaseQuestion)) return 'correlation'
+    if (TREND_PATTERN.test(lowercaseQuestion)) return 'trend'
+    return null
+  }
+
+  // Fits a line through the "value" series of a time chart and tests whether its slope differs from zero
+  static trend(chart: ChartData): InsightData | null {
+    const indexed = chart.data
+      .map((point, index) => ({ index, value: point.value as number | null }))
+      .filter((point): point is { index: number; value: number } => typeof point.value === 'number')
+    const fit = Statistics.linearTrend(indexed.map(point => point.index), indexed.map(point => point.value))
+    if (!fit) return null
+
+    const measureName = chart.series?.find(series => series.key === 'value')?.name ?? chart.yAxis ?? 'Value'
+    const period = chart.timeAxis ?? 'period'
+    const significant = fit.pValue < SIGNIFICANCE_LEVEL
+    const direction = fit.slope >= 0 ? 'up' : 'down'
+    const mean = Statistics.mean(indexed.map(point => point.value))
+    const relative = mean !== 0 ? ` (${this.format(Math.abs(fit.slope / mean) * 100)}% of the average)` : ''
+    const range = `${chart.data[0].name} to ${chart.data[chart.data.length - 1].name}`
+
+    const description = [
+      `${measureName} ${fit.slope >= 0 ? 'rose' : 'fell'} by about ${this.format(Math.abs(fit.slope))} per ${period}${relative} from ${range}.`,
+      significant
+        ? `The trend is statistically significant (${this.formatP(fit.pValue)}) and the line explains ${Math.round(fit.rSquared * 100)}% of the variation.`
+        : `The movement is not statistically significant (${this.formatP(fit.pValue)}), so it may be noise rather than a trend.`
+    ].join(' ')
+
+    return {
+      type: 'trend',
+      title: significant ? `${measureName} is trending ${direction}` : `${measureName} shows no clear trend`,
+      description,
+      value: this.round(fit.slope),
+      confidence: this.confidence(fit.pValue, fit.count),
+      significant,
+      evidence: {
+        statistics: [
+          { label: `Slope per ${period}`, value: this.format(fit.slope) },
+          { label: 'R²', value: this.format(fit.rSquared) },
+          { label: 'p-value', value: this.formatP(fit.pValue, false) },
+          { label: 'Periods', value: String(fit.count) }
+        ],
+        chart: {
+          ...chart,
+          data: chart.data.map((point, index) => ({ ...point, trend: this.round(fit.intercept + fit.slope * index) })),
+          series: [...(chart.series ?? [{ key: 'value', name: measureName }]), { key: 'trend', name: 'Linear trend' }]
+        }
+      }
+    }
+  }
+
+  // Pearson and Spearman coefficients for the named pair, or for the most strongly related pair of columns
+  static correlation(rows: DataRow[], options: ColumnOptions): InsightData | null {
+    const columns = this.numericColumns(rows, options.columns)
+    const focus = options.focus.filter(column => columns.includes(column))
+    const candidates: [string, string][] = []
+    if (focus.length >= 2) {
+      candidates.push([focus[0], focus[1]])
+    } else {
+      for (let i = 0; i < columns.length; i++) {
+        for (let j = i + 1; j < columns.length; j++) {
+          if (focus.length === 0 || focus.includes(columns[i]) || focus.includes(columns[j])) {
+            candidates.push([columns[i], columns[j]])
+          }
+        }
+      }
+    }
+
+    let best: { pair: Pair; result: CorrelationResult } | null = null
+    for (const [x, y] of candidates) {
+      const pair = this.pair(rows, x, y)
+      const result = Statistics.correlation(pair.xs, pair.ys)
+      if (result && (!best || Math.abs(result.pearson) > Math.abs(best.result.pearson))) best = { pair, result }
+    }
+    if (!best) return null
+
+    const { pair, result } = best
+    const xName = options.labels[pair.x] ?? pair.x
+    const yName = options.labels[pair.y] ?? pair.y
+    const strength = CORRELATION_STRENGTHS.find(([limit]) => Math.abs(result.pearson) >= limit)?.[1]
+    const significant = result.pValue < SIGNIFICANCE_LEVEL
+    const sign = result.pearson >= 0 ? 'positive' : 'negative'
+    const coefficients = `Pearson r = ${this.format(result.pearson)}, Spearman ρ = ${this.format(result.spearman)}, ${result.count} rows`
+
+    const sentences = [
+      strength
+        ? `${this.capitalize(xName)} and ${yName} have a ${strength} ${sign} correlation (${coefficients}).`
+        : `${this.capitalize(xName)} and ${yName} show little or no linear correlation (${coefficients}).`
+    ]
+    if (strength) {
+      sentences.push(`Where ${xName} is higher, ${yName} tends to be ${result.pearson >= 0 ? 'higher' : 'lower'}.`)
+    }
+    if (Math.abs(result.spearman) - Math.abs(result.pearson) >= MONOTONIC_MARGIN) {
+      sentences.push('The rank correlation is stronger, so the relationship is consistent but not a straight line.')
+    }
+    sentences.push(significant
+      ? `This is statistically significant (${this.formatP(result.pValue)}).`
+      : `This is not statistically significant (${this.formatP(result.pValue)}).`)
+
+    const step = Math.max(1, Math.ceil(pair.xs.length / MAX_SCATTER_POINTS))
+    return {
+      type: 'correlation',
+      title: strength ? `${this.capitalize(strength)} ${sign} link between ${xName} and ${yName}` : `No clear link between ${xName} and ${yName}`,
+      description: sentences.join(' '),
+      value: this.round(result.pearson),
+      significant,
+      confidence: this.confidence(result.pValue, result.count),
+      evidence: {
+        statistics: [
+          { label: 'Pearson r', value: this.format(result.pearson) },
+          { label: 'Spearman ρ', value: this.format(result.spearman) },
+          { label: 'p-value', value: this.formatP(result.pValue, false) },
+          { label: 'Rows', value: result.count.toLocaleString() }
+        ],
+        chart: {
+          type: 'scatter',
+          data: pair.xs
+            .filter((_, index) => index % step === 0)
+            .map((x, index) => ({ x, y: pair.ys[index * step] })),
+          xAxis: xName,
+          yAxis: yName,
+          title: `${yName} against ${xName}`,
+          description: step > 1 ? `Every ${step}th of ${pair.xs.length.toLocaleString()} rows` : undefined
+        }
+      }
+    }
+  }
+
+  // Values beyond three standard deviations or outside Tukey's fences, for the named column or the one with most
+  static anomalies(rows: DataRow[], options: ColumnOptions): InsightData | null {
+    const columns = this.numericColumns(rows, options.columns)
+      .filter(column => rows.filter(row => typeof row[column] === 'number').length >= OUTLIER_MIN_VALUES)
+    if (columns.length === 0) return null
+
+    const scanned = columns.map(column => {
+      const values = rows.map(row => row[column]).filter((value): value is number => typeof value === 'number')
+      const sorted = [...values].sort((a, b) => a - b)
+      const mean = Statistics.mean(values)
+      const stddev = Statistics.stddev(values)
+      const q1 = Statistics.quantile(sorted, 0.25)
+      const q3 = Statistics.quantile(sorted, 0.75)
+      const low = q1 - IQR_FENCE * (q3 - q1)
+      const high = q3 + IQR_FENCE * (q3 - q1)
+      const zScore = (value: number) => stddev === 0 ? 0 : (value - mean) / stddev
+      const flagged = rows.filter(row => {
+        const value = row[column]
+        return typeof value === 'number' && (Math.abs(zScore(value)) > Z_SCORE_LIMIT || value < low || value > high)
+      })
+      return { column, values, mean, stddev, low, high, zScore, flagged }
+    })
+    const focused = scanned.find(scan => options.focus.includes(scan.column))
+    const scan = focused ?? scanned.reduce((most, entry) => entry.flagged.length > most.flagged.length ? entry : most)
+    const name = options.labels[scan.column] ?? scan.column
+    const statistics: InsightStatistic[] = [
+      { label: 'Mean', value: this.format(scan.mean) },
+      { label: 'Std dev', value: this.format(scan.stddev) },
+      { label: 'Typical range', value: `${this.format(scan.low)} to ${this.format(scan.high)}` },
+      { label: 'Values', value: scan.values.length.toLocaleString() }
+    ]
+
+    if (scan.flagged.length === 0) {
+      return {
+        type: 'summary',
+        title: `No outliers in ${name}`,
+        description: `All ${scan.values.length.toLocaleString()} ${name} values lie within ${Z_SCORE_LIMIT} standard deviations of the mean (${this.format(scan.mean)}) and inside the typical range of ${this.format(scan.low)} to ${this.format(scan.high)}.`,
+        value: 0,
+        confidence: this.outlierConfidence(scan.values.length),
+        evidence: { statistics }
+      }
+    }
+
+    const z = (row: DataRow) => scan.zScore(row[scan.column] as number)
+    const ordered = [...scan.flagged].sort((a, b) => Math.abs(z(b)) - Math.abs(z(a)))
+    const extreme = ordered[0]
+    const beyondZ = scan.flagged.filter(row => Math.abs(z(row)) > Z_SCORE_LIMIT).length
+    const outsideFences = scan.flagged.filter(row => {
+      const value = row[scan.column] as number
+      return value < scan.low || value > scan.high
+    }).length
+    const columnNames = Object.keys(rows[0])
+
+    return {
+      type: 'anomaly',
+      title: `${scan.flagged.length} unusual ${name} value${scan.flagged.length === 1 ? '' : 's'}`,
+      description: [
+        `${scan.flagged.length} of ${scan.values.length.toLocaleString()} ${name} values ${this.verb(scan.flagged.length, 'stands', 'stand')} out.`,
+        `${beyondZ} ${this.verb(beyondZ, 'lies', 'lie')} more than ${Z_SCORE_LIMIT} standard deviations from the mean of ${this.format(scan.mean)},`,
+        `and ${outsideFences} ${this.verb(outsideFences, 'falls', 'fall')} outside the typical range of ${this.format(scan.low)} to ${this.format(scan.high)} (${IQR_FENCE} × IQR beyond the quartiles).`,
+        `The most extreme is ${this.format(extreme[scan.column] as number)}, ${this.format(Math.abs(z(extreme)))} standard deviations ${z(extreme) >= 0 ? 'above' : 'below'} the mean.`
+      ].join(' '),
+      value: scan.flagged.length,
+      confidence: this.outlierConfidence(scan.values.length),
+      evidence: {
+        statistics,
+        table: {
+          columns: [...columnNames, 'z_score'],
+          columnLabels: { ...options.labels, z_score: 'Z-score' },
+          rows: ordered.slice(0, MAX_EVIDENCE_ROWS).map(row => ({ ...row, z_score: this.round(z(row)) })),
+          title: `Unusual ${name} values`,
+          description: `Most extreme first${ordered.length > MAX_EVIDENCE_ROWS ? ` (first ${MAX_EVIDENCE_ROWS} shown)` : ''}`
+        }
+      }
+    }
+  }
+
+  // Candidate columns holding only numbers (or nulls) in the rows
+  private static numericColumns(rows: DataRow[], candidates: string[]): string[] {
+    if (rows.length === 0) return []
+    const present = new Set(Object.keys(rows[0]))
+    return candidates.filter(column =>
+      present.has(column) && rows.every(row => row[column] === null || typeof row[column] === 'number')
+    )
+  }
+
+  // Rows where both columns hold a number
+  private static pair(rows: DataRow[], x: string, y: string): Pair {
+    const xs: number[] = []
+    const ys: number[] = []
+    for (const row of rows) {
+      if (typeof row[x] === 'number' && typeof row[y] === 'number') {
+        xs.push(row[x] as number)
+        ys.push(row[y] as number)
+      }
+    }
+    return { x, y, xs, ys }
+  }
+
+  // Stronger evidence and more data earn more confidence
+  private static confidence(pValue: number, count: number): number {
+    const base = pValue < 0.01 ? 0.95 : pValue < SIGNIFICANCE_LEVEL ? 0.85 : pValue < 0.1 ? 0.65 : 0.5
+    return count < 8 ? base - 0.15 : base
+  }
+
+  private static outlierConfidence(count: number): number {
+    return count >= 30 ? 0.85 : 0.7
+  }
+
+  private static formatP(pValue: number, prefix = true): string {
+    if (pValue < 0.001) return prefix ? 'p < 0.001' : '< 0.001'
+    return `${prefix ? 'p = ' : ''}${pValue.toFixed(3)}`
+  }
+
+  private static format(value: number): string {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+
+  private static verb(count: number, singular: string, plural: string): string {
+    return count === 1 ? singular : plural
+  }
+
+  private static capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1)
+  }
+}
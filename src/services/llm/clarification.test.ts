@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { ConversationContext } from '../../types'
+import { makeRequest, salesTable } from '../../test/fixtures'
+import { Clarifier } from './clarification'
+import { FollowUpResolver } from './followUp'
+
+const check = (question: string, context?: ConversationContext) =>
+  Clarifier.check(makeRequest(question, [salesTable()], context))
+
+describe('Clarifier', () => {
+  it('asks which column a word meant when it names several measures equally', () => {
+    expect(check('average price by region')).toEqual({
+      prompt: 'By "price", did you mean Unit Price or Total Price?',
+      question: 'average price by region',
+      term: 'price',
+      options: [
+        { label: 'Unit Price', table: 'sales', column: 'Unit_Price' },
+        { label: 'Total Price', table: 'sales', column: 'Total_Price' }
+      ],
+      chosen: []
+    })
+  })
+
+  it.each([
+    'units by region',
+    'total units by region by quarter',
+    'monthly units with moving average',
+    'average unit price in the North region',
+    'total price by segment',
+    'price per unit'
+  ])('does not ask when "%s" names one column more fully than any other', question => {
+    expect(check(question)).toBeNull()
+  })
+
+  it('asks which measure to aggregate when none is named', () => {
+    const clarification = check('what is the average by region?')
+    expect(clarification?.prompt).toBe('Which column would you like the average of?')
+    expect(clarification?.options.map(option => option.column)).toEqual(['Units', 'Unit_Price', 'Total_Price'])
+  })
+
+  it('does not ask for a measure for counts or for a follow-up that keeps the previous one', () => {
+    expect(check('how many orders by region')).toBeNull()
+
+    const sql = 'SELECT Region, AVG(Units) AS average FROM sales GROUP BY Region'
+    const previous = { question: 'average units by region', sql, ...FollowUpResolver.summarize(sql), resultColumns: [], rowCount: 4 }
+    expect(check('now only the average for 2023', previous)).toBeNull()
+  })
+
+  it('uses the picked column in place of the other matches for the word', () => {
+    const request = makeRequest('average price by region', [salesTable()])
+    const chosen = [{ term: 'price', table: 'sales', column: 'Total_Price' }]
+    const grounding = Clarifier.apply(request.grounding, chosen)
+
+    expect(grounding.columns.filter(match => match.term === 'price')).toEqual([
+      { term: 'price', table: 'sales', column: 'Total_Price', via: 'chosen', coverage: 'exact' }
+    ])
+    expect(Clarifier.check({ ...request, grounding }, chosen)).toBeNull()
+  })
+})
@@ -0,0 +1,121 @@
+import { ClarificationChoice, ClarificationData, ClarificationOption } from '../../types'
+import { InsightEngine } from '../insightEngine'
+import { FollowUpResolver } from './followUp'
+import { ColumnMatch, Grounding, ValueGrounder } from './grounding'
+import { SQLGenerationRequest, TableContext } from './types'
+
+interface Ambiguity {
+  term: string
+  prompt: string
+  options: ClarificationOption[]
+}
+
+const MAX_OPTIONS = 6
+// Earlier kinds of match are more certain, after how fully the column is named
+const MATCH_STRENGTH: ColumnMatch['via'][] = ['chosen', 'name', 'label', 'synonym', 'fuzzy']
+const MEASURE_AGGREGATES: [RegExp, string][] = [
+  [/\b(average|avg|mean)\b/, 'average'],
+  [/\b(sum|total)\b/, 'total'],
+  [/\b(max|maximum|highest|largest)\b/, 'highest value'],
+  [/\b(min|minimum|lowest|smallest)\b/, 'lowest value']
+]
+const COUNT_PATTERN = /\b(count|how many|number of)\b/
+
+// Asks which column was meant instead of guessing when a question could use several measures
+export class Clarifier {
+  static check(request: SQLGenerationRequest, chosen: ClarificationChoice[] = []): ClarificationData | null {
+    const ambiguity = this.ambiguousTerm(request) ?? this.missingMeasure(request)
+    return ambiguity && { ...ambiguity, question: request.question, chosen }
+  }
+
+  // Picked columns replace whatever else their word was matched to
+  static apply(grounding: Grounding, chosen: ClarificationChoice[]): Grounding {
+    if (chosen.length === 0) return grounding
+    const terms = new Set(chosen.map(choice => choice.term))
+    return {
+      ...grounding,
+      columns: [
+        ...grounding.columns.filter(match => !terms.has(match.term)),
+        ...chosen.map(choice => ({ ...choice, via: 'chosen' as const, coverage: 'exact' as const }))
+      ]
+    }
+  }
+
+  // "price" when both Unit_Price and List_Price are named by it
+  private static ambiguousTerm({ grounding, tables, relationships }: SQLGenerationRequest): Ambiguity | null {
+    const measures = this.measures(tables, relationships)
+    const matchesByTerm = new Map<string, ColumnMatch[]>()
+    for (const match of grounding.columns) {
+      if (!measures.some(measure => measure.table === match.table && measure.column === match.column)) continue
+      matchesByTerm.set(match.term, [...(matchesByTerm.get(match.term) ?? []), match])
+    }
+
+    // Only columns tied for the strongest match compete, so a column named in full wins without a question
+    const compare = (a: ColumnMatch, b: ColumnMatch) =>
+      ValueGrounder.compare(a, b) || MATCH_STRENGTH.indexOf(a.via) - MATCH_STRENGTH.indexOf(b.via)
+    for (const [term, matches] of matchesByTerm) {
+      const [strongest] = [...matches].sort(compare)
+      const candidates = matches.filter(match => compare(match, strongest) === 0)
+      if (candidates.length < 2) continue
+      const options = this.options(candidates.slice(0, MAX_OPTIONS), tables)
+      return { term, prompt: `By "${term}", did you mean ${this.list(options)}?`, options }
+    }
+    return null
+  }
+
+  // "What is the average?" when several measures could be averaged and none is named
+  private static missingMeasure({ question, grounding, tables, relationships, context }: SQLGenerationRequest): Ambiguity | null {
+    // A follow-up keeps the measure of the answer it refines
+    if (context && FollowUpResolver.isFollowUp(question)) return null
+    const analysis = InsightEngine.detect(question)
+    if (analysis === 'correlation' || analysis === 'anomaly') return null
+
+    const lowercase = question.toLowerCase().replace(/\b(moving|rolling|trailing) (average|avg|mean)\b/g, '')
+    if (COUNT_PATTERN.test(lowercase)) return null
+    const aggregate = MEASURE_AGGREGATES.find(([pattern]) => pattern.test(lowercase))
+    if (!aggregate) return null
+
+    const measures = this.measures(tables, relationships)
+    const named = grounding.columns.some(match =>
+      measures.some(measure => measure.table === match.table && measure.column === match.column)
+    )
+    if (named || measures.length < 2) return null
+
+    const [pattern, description] = aggregate
+    const term = lowercase.match(pattern)?.[1] ?? description
+    return {
+      term,
+      prompt: `Which column would you like the ${description} of?`,
+      options: this.options(measures.slice(0, MAX_OPTIONS), tables)
+    }
+  }
+
+  // Numeric columns that are not join keys
+  private static measures(tables: TableContext[], relationships: SQLGenerationRequest['relationships']) {
+    const keys = new Set(relationships.flatMap(relationship => [
+      `${relationship.fromTable}.${relationship.fromColumn}`,
+      `${relationship.toTable}.${relationship.toColumn}`
+    ]))
+    return tables.flatMap(table => table.schema
+      .filter(schema => (schema.type === 'numeric' || schema.type === 'integer') && !keys.has(`${table.name}.${schema.name}`))
+      .map(schema => ({ table: table.name, column: schema.name }))
+    )
+  }
+
+  // Labels name the table too when the same label appears in several tables
+  private static options(columns: { table: string; column: string }[], tables: TableContext[]): ClarificationOption[] {
+    const label = (table: string, column: string) =>
+      tables.find(entry => entry.name === table)?.schema.find(entry => entry.name === column)?.label ?? column
+    const labels = columns.map(({ table, column }) => label(table, column))
+    return columns.map(({ table, column }, index) => ({
+      label: labels.filter(entry => entry === labels[index]).length > 1 ? `${labels[index]} (${table})` : labels[index],
+      table,
+      column
+    }))
+  }
+
+  private static list(options: ClarificationOption[]): string {
+    const labels = options.map(option => option.label)
+    return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels.join('')
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { ConversationContext } from '../../types'
+import { makeRequest, salesTable } from '../../test/fixtures'
+import { FollowUpResolver } from './followUp'
+
+const previousSQL = 'SELECT Region, ROUND(SUM(Total_Price), 2) AS total FROM sales GROUP BY Region ORDER BY total DESC'
+const previous: ConversationContext = {
+  question: 'total price by region',
+  sql: previousSQL,
+  ...FollowUpResolver.summarize(previousSQL),
+  resultColumns: ['Region', 'total'],
+  rowCount: 4
+}
+
+const resolve = (question: string) => {
+  const request = makeRequest(question, [salesTable()], previous)
+  return FollowUpResolver.resolve(question, previous, request.tables, request.grounding)
+}
+
+describe('FollowUpResolver', () => {
+  describe('isFollowUp', () => {
+    it.each([
+      'now only for 2023',
+      'and for the North region?',
+      'what about Retail',
+      'split that by segment',
+      'show this over time',
+      'in that region, how many orders?',
+      'for those, show units'
+    ])('treats "%s" as a follow-up', question => {
+      expect(FollowUpResolver.isFollowUp(question)).toBe(true)
+    })
+
+    it.each([
+      'In which region is total price highest?',
+      'For each product, what are total units?',
+      'monthly total price with moving average',
+      'average unit price by segment'
+    ])('treats "%s" as a new question', question => {
+      expect(FollowUpResolver.isFollowUp(question)).toBe(false)
+    })
+  })
+
+  describe('resolve', () => {
+    it('adds a year filter and keeps the grouping', () => {
+      expect(resolve('now only for 2023')).toBe(
+        'SELECT Region, ROUND(SUM(Total_Price), 2) AS total FROM sales WHERE YEAR(Order_Date) = 2023 GROUP BY Region ORDER BY total DESC'
+      )
+    })
+
+    it('filters on a value named in the question', () => {
+      expect(resolve('what about the North region')).toContain("WHERE Region = 'North'")
+      expect(resolve('only Retail')).toContain("WHERE Segment = 'Retail'")
+    })
+
+    it('adds a second grouping', () => {
+      expect(resolve('split that by segment')).toBe(
+        'SELECT Region, Segment, ROUND(SUM(Total_Price), 2) AS total FROM sales GROUP BY Region, Segment ORDER BY total DESC'
+      )
+    })
+
+    it('regroups by period for a question about change over time', () => {
+      expect(resolve('show this over time')).toContain("GROUP BY DATE_TRUNC('month', Order_Date), Region")
+    })
+
+    it('returns null when the question changes nothing it understands', () => {
+      expect(resolve('remove the filters')).toBeNull()
+    })
+  })
+
+  it('reports the filters, grouping and measures a follow-up kept', () => {
+    const current = FollowUpResolver.summarize(
+      "SELECT Region, ROUND(SUM(Total_Price), 2) AS total FROM sales WHERE Segment = 'Retail' GROUP BY Region"
+    )
+    expect(FollowUpResolver.carried(previous, current)).toEqual([
+      { kind: 'measure', description: 'ROUND(SUM(Total_Price), 2)' },
+      { kind: 'grouping', description: 'Region' }
+    ])
+  })
+})
@@ -0,0 +1,257 @@
+import { CarriedContext, ColumnSchema, ConversationContext, TimePeriod } from '../../types'
+import { TimeSeriesAnalyzer } from '../timeSeries'
+import { AGGREGATE_FUNCTIONS, childExpressions, Expression, formatExpression, formatStatement, SelectStatement, SQLEngine } from '../sql'
+import { Grounding } from './grounding'
+import { isMentioned, tokenize } from './matching'
+import { TableContext } from './types'
+
+interface ScopedColumn {
+  // Name or alias the previous query uses for the column's table
+  qualifier: string
+  table: string
+  schema: ColumnSchema
+}
+
+export interface QuerySummary {
+  filters: string[]
+  groupBy: string[]
+  measures: string[]
+}
+
+// Openers and references that only make sense against an earlier answer
+// "for" and "in" open new questions too ("in which region..."), so they only count before a reference
+const FOLLOW_UP_START = /^(and|now|only|just|but|also|then|instead|same|what about|how about|split|break|filter|restrict|exclude|remove|drop|without)\b/
+const FOLLOW_UP_REFERENCE = /\b(split|break) (that|it|this|them|those)( down)? by\b|\b(show|chart|plot) (that|it|this)\b|^(for|in) (that|it|this|them|those)\b|\b(same|instead|previous|above)\b/
+// Questions that only change how the answer is shown
+const PRESENTATION = /\b(chart|graph|plot|visuali[sz]e|table)\b/
+const CLEAR_FILTERS = /\b(remove|clear|drop|without)( the| any| all)? (filters?|conditions?)\b/
+const GROUPING_PHRASE = /\b(?:by|per|for each|across)\s+(?:the\s+|each\s+)?([a-z0-9_ ]+)/
+const TIME_WORDS = new Set(['year', 'month', 'date', 'time', 'period'])
+
+// Rewrites the previous query for questions such as "now only for 2023" or "split that by region"
+export class FollowUpResolver {
+  static isFollowUp(question: string): boolean {
+    const lowercaseQuestion = question.toLowerCase().trim()
+    return FOLLOW_UP_START.test(lowercaseQuestion) || FOLLOW_UP_REFERENCE.test(lowercaseQuestion)
+  }
+
+  // Returns the rewritten SQL, or null when the question changes nothing the resolver understands
+  static resolve(
+    question: string,
+    context: ConversationContext,
+    tables: TableContext[],
+    grounding: Grounding
+  ): string | null {
+    let statement: SelectStatement
+    try {
+      statement = SQLEngine.parse(context.sql)
+    } catch {
+      return null
+    }
+
+    const lowercaseQuestion = question.toLowerCase()
+    const columns = this.scopedColumns(statement, tables)
+    const qualify = statement.joins.length > 0
+    const reference = (column: ScopedColumn): Expression => ({
+      kind: 'column',
+      table: qualify ? column.qualifier : undefined,
+      name: column.schema.name
+    })
+
+    const original = formatStatement(statement)
+    let conditions = this.conjuncts(statement.where)
+    const without = (column: ScopedColumn) => {
+      conditions = conditions.filter(condition => !this.references(condition, column.schema.name))
+    }
+
+    if (CLEAR_FILTERS.test(lowercaseQuestion)) conditions = []
+
+    // "for all years", "every region"
+    for (const match of lowercaseQuestion.matchAll(/\b(?:all|any|every)\s+([a-z0-9_]+)/g)) {
+      const words = tokenize(match[1])
+      const timeWord = Array.from(words).some(word => TIME_WORDS.has(word))
+      for (const column of columns) {
+        if (isMentioned(column.schema.name, words) || (timeWord && this.isDate(column.schema))) without(column)
+      }
+    }
+
+    const dateColumns = columns.filter(column => this.isDate(column.schema))
+    const questionWords = tokenize(lowercaseQuestion)
+    const yearColumn = dateColumns.find(column => isMentioned(column.schema.name, questionWords)) ??
+      dateColumns.find(column => conditions.some(condition => this.references(condition, column.schema.name))) ??
+      dateColumns[0]
+    if (grounding.years.length > 0 && yearColumn) {
+      without(yearColumn)
+      conditions.push(this.matchAny(
+        { kind: 'function', name: 'YEAR', args: [reference(yearColumn)], distinct: false },
+        grounding.years
+      ))
+    }
+
+    // Category values named in the question, e.g. "only North and East"
+    for (const column of columns) {
+      const named = grounding.values
+        .filter(match => match.table === column.table && match.column === column.schema.name)
+        .map(match => match.value)
+      if (named.length === 0) continue
+      without(column)
+      conditions.push(this.matchAny(reference(column), named))
+    }
+    statement.where = this.conjoin(conditions)
+
+    // "show this over time", "by quarter"
+    const timeSeries = TimeSeriesAnalyzer.detect(question)
+    const overTime = Boolean(timeSeries && yearColumn && this.isAggregate(statement))
+    if (timeSeries && yearColumn && overTime) {
+      const { min, max } = yearColumn.schema
+      const unit = timeSeries.period ??
+        (min !== undefined && max !== undefined ? TimeSeriesAnalyzer.autoPeriod(String(min), String(max)) : 'month')
+      this.groupByPeriod(statement, reference(yearColumn), unit, timeSeries.period !== undefined)
+    }
+
+    const grouping = lowercaseQuestion.match(GROUPING_PHRASE)
+    if (grouping && this.isAggregate(statement)) {
+      const words = tokenize(grouping[1])
+      // Date columns named alongside a time question were grouped by period above
+      const column = columns.find(candidate =>
+        !this.isMeasure(candidate.schema) && !(overTime && this.isDate(candidate.schema)) &&
+        isMentioned(candidate.schema.name, words)
+      )
+      const instead = /\binstead\b/.test(lowercaseQuestion)
+      if (column && instead) this.dropGrouping(statement)
+      const grouped = statement.groupBy.map(formatExpression)
+      if (column && !grouped.includes(formatExpression(reference(column)))) {
+        const expression = reference(column)
+        const position = statement.columns.findIndex(item => this.containsAggregate(item.expression))
+        statement.columns.splice(position < 0 ? statement.columns.length : position, 0, { expression })
+        statement.groupBy.push(expression)
+      }
+    }
+
+    const sql = formatStatement(statement)
+    // Asking for the same answer as a chart or a time series reruns the query unchanged
+    if (sql === original && !overTime && !PRESENTATION.test(lowercaseQuestion)) return null
+    return sql
+  }
+
+  // The filters, grouping and aggregates of a query, as SQL text that can be compared across queries
+  static summarize(sql: string): QuerySummary {
+    try {
+      const statement = SQLEngine.parse(sql)
+      return {
+        filters: this.conjuncts(statement.where).map(formatExpression),
+        groupBy: statement.groupBy.map(formatExpression),
+        measures: statement.columns
+          .filter(item => this.containsAggregate(item.expression))
+          .map(item => formatExpression(item.expression))
+      }
+    } catch {
+      return { filters: [], groupBy: [], measures: [] }
+    }
+  }
+
+  // Parts of the previous query that the new one kept
+  static carried(previous: ConversationContext, current: QuerySummary): CarriedContext[] {
+    return [
+      ...current.measures
+        .filter(measure => previous.measures.includes(measure))
+        .map(description => ({ kind: 'measure' as const, description })),
+      ...current.filters
+        .filter(filter => previous.filters.includes(filter))
+        .map(description => ({ kind: 'filter' as const, description })),
+      ...current.groupBy
+        .filter(column => previous.groupBy.includes(column))
+        .map(description => ({ kind: 'grouping' as const, description }))
+    ]
+  }
+
+  private static scopedColumns(statement: SelectStatement, tables: TableContext[]): ScopedColumn[] {
+    const references = [statement.from, ...statement.joins.map(join => join.table)]
+    return references.flatMap(reference => {
+      const table = reference && tables.find(candidate => candidate.name.toLowerCase() === reference.name.toLowerCase())
+      if (!reference || !table) return []
+      return table.schema.map(schema => ({
+        qualifier: reference.alias ?? reference.name,
+        table: table.name,
+        schema
+      }))
+    })
+  }
+
+  private static conjuncts(expression?: Expression): Expression[] {
+    if (!expression) return []
+    if (expression.kind === 'binary' && expression.operator === 'AND') {
+      return [...this.conjuncts(expression.left), ...this.conjuncts(expression.right)]
+    }
+    return [expression]
+  }
+
+  private static conjoin(conditions: Expression[]): Expression | undefined {
+    return conditions.reduce<Expression | undefined>(
+      (left, right) => left ? { kind: 'binary', operator: 'AND', left, right } : right,
+      undefined
+    )
+  }
+
+  private static matchAny(operand: Expression, values: (string | number)[]): Expression {
+    const literals: Expression[] = values.map(value => ({ kind: 'literal', value }))
+    return literals.length === 1
+      ? { kind: 'binary', operator: '=', left: operand, right: literals[0] }
+      : { kind: 'in', operand, values: literals, negated: false }
+  }
+
+  // Groups by the start of each period, replacing the period of a query that already has one
+  private static groupByPeriod(statement: SelectStatement, column: Expression, unit: TimePeriod, explicit: boolean) {
+    const period: Expression = {
+      kind: 'function',
+      name: 'DATE_TRUNC',
+      args: [{ kind: 'literal', value: unit }, column],
+      distinct: false
+    }
+    const existing = statement.columns.find(item => item.alias?.toLowerCase() === 'period')
+    if (existing) {
+      // "as a running total" keeps the periods the query already has
+      if (!explicit) return
+      const previous = formatExpression(existing.expression)
+      statement.groupBy = statement.groupBy.map(expression => formatExpression(expression) === previous ? period : expression)
+      existing.expression = period
+    } else {
+      statement.columns.unshift({ expression: period, alias: 'period' })
+      statement.groupBy.unshift(period)
+      // Every period is shown, so a row limit from a ranking no longer applies
+      statement.limit = undefined
+      statement.offset = undefined
+    }
+    statement.orderBy = [{ expression: { kind: 'column', name: 'period' }, direction: 'ASC' }]
+  }
+
+  // Removes the current grouping columns, along with ordering on them
+  private static dropGrouping(statement: SelectStatement) {
+    const grouped = new Set(statement.groupBy.map(formatExpression))
+    statement.columns = statement.columns.filter(item => !grouped.has(formatExpression(item.expression)))
+    statement.orderBy = statement.orderBy.filter(item => !grouped.has(formatExpression(item.expression)))
+    statement.groupBy = []
+  }
+
+  private static isAggregate(statement: SelectStatement): boolean {
+    return statement.groupBy.length > 0 || statement.columns.some(item => this.containsAggregate(item.expression))
+  }
+
+  private static containsAggregate(expression: Expression): boolean {
+    if (expression.kind === 'function' && AGGREGATE_FUNCTIONS.has(expression.name)) return true
+    return childExpressions(expression).some(child => this.containsAggregate(child))
+  }
+
+  private static references(expression: Expression, column: string): boolean {
+    if (expression.kind === 'column') return expression.name.toLowerCase() === column.toLowerCase()
+    return childExpressions(expression).some(child => this.references(child, column))
+  }
+
+  private static isDate(schema: ColumnSchema): boolean {
+    return schema.type === 'date' || schema.type === 'datetime'
+  }
+
+  private static isMeasure(schema: ColumnSchema): boolean {
+    return schema.type === 'numeric' || schema.type === 'integer'
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { makeRequest, salesTable } from '../../test/fixtures'
+import { ValueGrounder } from './grounding'
+
+const ground = (question: string) => makeRequest(question, [salesTable()]).grounding
+const columns = (question: string) =>
+  ground(question).columns.map(({ term, column, coverage }) => ({ term, column, coverage }))
+
+describe('ValueGrounder', () => {
+  describe('columns', () => {
+    it('matches a column named in full over one that shares a word', () => {
+      expect(columns('total price by segment')).toEqual([
+        { term: 'segment', column: 'Segment', coverage: 'exact' },
+        { term: 'total price', column: 'Total_Price', coverage: 'exact' }
+      ])
+      expect(columns('show outliers in total price')).toEqual([
+        { term: 'total price', column: 'Total_Price', coverage: 'exact' }
+      ])
+    })
+
+    it('matches a one-word column to its own name rather than to part of a longer one', () => {
+      expect(columns('units by region')).toEqual([
+        { term: 'region', column: 'Region', coverage: 'exact' },
+        { term: 'units', column: 'Units', coverage: 'exact' }
+      ])
+    })
+
+    it('lets the words of a longer name take precedence over a column named by one of them', () => {
+      expect(columns('average unit price in the North region')).toContainEqual(
+        { term: 'unit price', column: 'Unit_Price', coverage: 'exact' }
+      )
+      expect(columns('average unit price in the North region').map(match => match.column)).not.toContain('Units')
+      expect(columns('price per unit')).toEqual([{ term: 'price unit', column: 'Unit_Price', coverage: 'all' }])
+    })
+
+    it('keeps every column a word names equally well', () => {
+      expect(columns('price by region')).toEqual([
+        { term: 'region', column: 'Region', coverage: 'exact' },
+        { term: 'price', column: 'Unit_Price', coverage: 'part' },
+        { term: 'price', column: 'Total_Price', coverage: 'part' }
+      ])
+    })
+
+    it('matches several columns in one question', () => {
+      expect(columns('units and unit price by region').map(match => match.column)).toEqual(['Region', 'Units', 'Unit_Price'])
+    })
+
+    it('does not combine words from different items of a list into one column', () => {
+      expect(columns('units and total price by month')).toEqual([
+        { term: 'units', column: 'Units', coverage: 'exact' },
+        { term: 'total price', column: 'Total_Price', coverage: 'exact' }
+      ])
+    })
+
+    it('matches a word again where it appears later in the question', () => {
+      expect(columns('average unit price and units by region')).toEqual([
+        { term: 'region', column: 'Region', coverage: 'exact' },
+        { term: 'units', column: 'Units', coverage: 'exact' },
+        { term: 'unit price', column: 'Unit_Price', coverage: 'exact' }
+      ])
+    })
+
+    it('does not read an aggregate word as part of a column name', () => {
+      expect(columns('total units by region').map(match => match.column)).toEqual(['Region', 'Units'])
+    })
+
+    it('matches synonyms and typos', () => {
+      expect(ground('quantity by segmnt').columns.map(({ term, column, via }) => ({ term, column, via }))).toEqual([
+        { term: 'segmnt', column: 'Segment', via: 'fuzzy' },
+        { term: 'quantity', column: 'Units', via: 'synonym' }
+      ])
+    })
+  })
+
+  describe('values and years', () => {
+    it('matches values of category columns, allowing for a typo, and years', () => {
+      const grounding = ground('quantity sold in the Nrth in 2023')
+      expect(grounding.values).toEqual([
+        { term: 'Nrth', table: 'sales', column: 'Region', value: 'North', fuzzy: true }
+      ])
+      expect(grounding.years).toEqual([2023])
+    })
+
+    it('lists the words that name nothing in the data', () => {
+      const question = 'revenue from retail customers'
+      expect(ValueGrounder.unmatched(question, ground(question))).toEqual({ terms: 3, unmatched: ['revenue', 'customers'] })
+    })
+  })
+})
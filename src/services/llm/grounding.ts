@@ -0,0 +1,413 @@
+import { GroundedTerm } from '../../types'
+import { Expression, SQLEngine, statementExpressions } from '../sql'
+import { TableContext } from './types'
+
+export interface ColumnMatch {
+  // Words of the question that name the column, in question order
+  term: string
+  table: string
+  column: string
+  // 'chosen' when the user picked the column in answer to a clarifying question
+  via: 'name' | 'label' | 'synonym' | 'fuzzy' | 'chosen'
+  // How much of the column's name the term covers: all of it as written, all of its words, or some of them
+  coverage: 'exact' | 'all' | 'part'
+}
+
+export interface ValueMatch {
+  term: string
+  table: string
+  column: string
+  value: string
+  fuzzy: boolean
+}
+
+export interface Grounding {
+  columns: ColumnMatch[]
+  values: ValueMatch[]
+  years: number[]
+}
+
+interface Candidate extends ColumnMatch {
+  // Positions of the term's words in the question
+  positions: number[]
+}
+
+interface Phrase {
+  start: number
+  length: number
+  text: string
+  original: string
+}
+
+// Words a column name part may be asked about with
+const SYNONYM_GROUPS = [
+  ['revenue', 'sales', 'turnover', 'income'],
+  ['price', 'cost', 'rate', 'fee'],
+  ['amount', 'value', 'spend', 'spending'],
+  ['profit', 'margin', 'earnings'],
+  ['quantity', 'qty', 'units', 'volume'],
+  ['customer', 'client', 'buyer', 'account'],
+  ['product', 'item', 'sku', 'article'],
+  ['region', 'area', 'territory', 'zone'],
+  ['country', 'nation'],
+  ['city', 'town'],
+  ['category', 'type', 'kind', 'segment'],
+  ['employee', 'staff', 'worker', 'rep', 'salesperson'],
+  ['date', 'day', 'time'],
+  ['supplier', 'vendor'],
+  ['department', 'dept', 'team', 'division']
+]
+
+// Common shorthand for category values
+const VALUE_SYNONYMS: Record<string, string> = {
+  usa: 'united states',
+  america: 'united states',
+  uk: 'united kingdom',
+  britain: 'united kingdom',
+  uae: 'united arab emirates',
+  nyc: 'new york',
+  la: 'los angeles',
+  sf: 'san francisco'
+}
+
+// Words that never stand for a data value on their own
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'in', 'on', 'of', 'for', 'by', 'per', 'and', 'or', 'to', 'at', 'is', 'are', 'was', 'with',
+  'from', 'what', 'which', 'who', 'how', 'many', 'much', 'show', 'me', 'list', 'give', 'find', 'all', 'each',
+  'every', 'total', 'average', 'mean', 'sum', 'count', 'number', 'min', 'max', 'top', 'only', 'now', 'just',
+  'that', 'this', 'it', 'other', 'yes', 'no', 'true', 'false', 'none', 'not', 'than', 'more', 'less', 'over',
+  'under', 'between', 'do', 'does', 'did', 'have', 'has', 'there', 'where', 'when', 'about', 'instead', 'same'
+])
+
+// Words that describe the analysis asked for rather than the data, so they never need a match
+const ANALYSIS_WORDS = new Set([
+  'show', 'tell', 'see', 'get', 'can', 'you', 'i', 'we', 'my', 'our', 'your', 'please', 'be', 'any', 'these', 'those',
+  'most', 'least', 'highest', 'lowest', 'largest', 'smallest', 'maximum', 'minimum', 'bottom', 'best', 'worst',
+  'breakdown', 'break', 'down', 'split', 'group', 'grouped', 'chart', 'graph', 'plot', 'visualize', 'table',
+  'trend', 'trending', 'time', 'over', 'growth', 'change', 'increase', 'decrease', 'running', 'moving', 'rolling',
+  'trailing', 'cumulative', 'compare', 'compared', 'vs', 'versus', 'distribution', 'percentage', 'percent', 'share',
+  'correlation', 'correlated', 'relationship', 'related', 'outlier', 'anomaly', 'anomalies', 'unusual', 'extreme',
+  'daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'annual', 'day', 'week', 'month', 'quarter', 'year',
+  'period', 'yoy', 'mom', 'qoq', 'wow', 'ytd', 'record', 'row', 'value', 'data', 'dataset', 'result', 'filter',
+  'remove', 'clear', 'also', 'again', 'like', 'up', 'into', 'as', 'been', 'whole', 'overall', 'across'
+])
+// Words that separate the things a question lists, so words either side never name one column together
+const CLAUSE_BREAKS = new Set(['and', 'or', 'vs', 'versus'])
+// Weaker coverage comes later
+const COVERAGE: ColumnMatch['coverage'][] = ['exact', 'all', 'part']
+const MAX_PHRASE_WORDS = 4
+const MIN_FUZZY_LENGTH = 4
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/
+
+// Matches words of a question to columns and to values stored in category columns
+export class ValueGrounder {
+  static ground(question: string, tables: TableContext[]): Grounding {
+    const originals = question.match(/[\p{L}\p{N}_]+/gu) ?? []
+    const words = originals.map(word => this.loose(word))
+    const phrases = this.phrases(originals, words)
+
+    const columns = this.matchColumns(this.clauses(question), tables)
+    const columnTerms = new Set(columns.flatMap(match => match.term.split(' ')))
+    const values = this.matchValues(phrases, tables, columns, columnTerms)
+
+    // A year that is itself a category value filters that column instead
+    const valueTerms = new Set(values.map(match => match.term))
+    const years = Array.from(new Set(
+      words.filter(word => YEAR_PATTERN.test(word) && !valueTerms.has(word)).map(Number)
+    ))
+
+    return { columns, values, years }
+  }
+
+  // Words of the question that name data but matched no column, value or year
+  static unmatched(question: string, grounding: Grounding): { terms: number; unmatched: string[] } {
+    const matched = new Set([
+      ...grounding.columns.flatMap(match => match.term.split(' ')),
+      ...grounding.values.flatMap(match => this.loose(match.term).split(' '))
+    ])
+    const terms = (question.match(/[\p{L}\p{N}_]+/gu) ?? [])
+      .map(word => this.loose(word))
+      .filter(word =>
+        word.length > 1 && !/^\d+$/.test(word) && !STOP_WORDS.has(word) &&
+        !ANALYSIS_WORDS.has(word) && !ANALYSIS_WORDS.has(word.replace(/s$/, ''))
+      )
+    const distinct = Array.from(new Set(terms))
+    return { terms: distinct.length, unmatched: distinct.filter(word => !matched.has(word)) }
+  }
+
+  // The matches the executed query actually relies on, described for display
+  static used(grounding: Grounding, sql: string, tables: TableContext[]): GroundedTerm[] {
+    let expressions: Expression[]
+    try {
+      expressions = statementExpressions(SQLEngine.parse(sql))
+    } catch {
+      return []
+    }
+
+    const referenced = new Set<string>()
+    const compared = new Set<string>()
+    for (const expression of expressions) {
+      if (expression.kind === 'column') referenced.add(expression.name.toLowerCase())
+      const [operand, candidates] = expression.kind === 'binary' && expression.operator === '='
+        ? [expression.left, [expression.right]]
+        : expression.kind === 'in' && !expression.negated ? [expression.operand, expression.values] : [null, []]
+      if (operand?.kind !== 'column') continue
+      for (const candidate of candidates) {
+        if (candidate.kind === 'literal') compared.add(`${operand.name.toLowerCase()}\u0000${candidate.value}`)
+      }
+    }
+
+    const label = (table: string, column: string) =>
+      tables.find(entry => entry.name === table)?.schema.find(entry => entry.name === column)?.label ?? column
+
+    return [
+      ...grounding.values
+        .filter(match => compared.has(`${match.column.toLowerCase()}\u0000${match.value}`))
+        .map(match => ({ term: match.term, column: label(match.table, match.column), value: match.value })),
+      // Columns named outright need no explanation
+      ...grounding.columns
+        .filter(match => match.via !== 'name' && match.via !== 'label' && referenced.has(match.column.toLowerCase()))
+        .map(match => ({ term: match.term, column: label(match.table, match.column) }))
+    ]
+  }
+
+  // Compares how fully two matches name their columns: by coverage, then by how many words they use
+  static compare(a: ColumnMatch, b: ColumnMatch): number {
+    return COVERAGE.indexOf(a.coverage) - COVERAGE.indexOf(b.coverage) ||
+      b.term.split(' ').length - a.term.split(' ').length
+  }
+
+  private static matchColumns(
+    { words, clauses }: { words: string[]; clauses: number[] },
+    tables: TableContext[]
+  ): ColumnMatch[] {
+    const candidates: Candidate[] = []
+
+    for (const table of tables) {
+      for (const schema of table.schema) {
+        const candidate = (positions: number[], via: ColumnMatch['via'], coverage: ColumnMatch['coverage']): Candidate => ({
+          term: positions.map(position => words[position]).join(' '),
+          table: table.name,
+          column: schema.name,
+          via,
+          coverage,
+          positions
+        })
+
+        const nameParts = this.nameParts(schema.name)
+        const labelParts = this.nameParts(schema.label)
+        // Name matches come first so the label wins only when it is named more fully than the column's own name
+        const named = [
+          ...this.cover(nameParts, words, clauses).map(cover => candidate(cover.positions, 'name', cover.coverage)),
+          ...this.cover(labelParts, words, clauses).map(cover => candidate(cover.positions, 'label', cover.coverage))
+        ].filter(match =>
+          // The "total" of "total units" asks for a sum rather than naming part of Total_Price
+          match.coverage !== 'part' || !match.term.split(' ').every(word => STOP_WORDS.has(word))
+        )
+        if (named.length > 0) {
+          candidates.push(...named)
+          continue
+        }
+
+        const parts = Array.from(new Set([...nameParts, ...labelParts]))
+        const synonym = words.findIndex(word =>
+          !STOP_WORDS.has(word) &&
+          parts.some(part => this.synonyms(part).has(word) || this.synonyms(part).has(word.replace(/s$/, '')))
+        )
+        if (synonym >= 0) {
+          candidates.push(candidate([synonym], 'synonym', 'part'))
+          continue
+        }
+
+        const typo = words.findIndex(word =>
+          word.length > MIN_FUZZY_LENGTH && !STOP_WORDS.has(word) &&
+          parts.some(part => part.length > MIN_FUZZY_LENGTH && part[0] === word[0] && this.distance(part, word, 1) <= 1)
+        )
+        if (typo >= 0) candidates.push(candidate([typo], 'fuzzy', 'part'))
+      }
+    }
+
+    // A word gives way to a stronger match that uses it, and to a longer one naming all of a column:
+    // "units" names Units rather than being one word of Unit_Price, while the "unit" of "unit price"
+    // or "price per unit" is part of Unit_Price. Equally strong matches are all kept.
+    const kept = candidates.filter(candidate => !candidates.some(other =>
+      other !== candidate &&
+      candidate.positions.every(position => other.positions.includes(position)) &&
+      (this.compare(other, candidate) < 0 ||
+        (other.coverage !== 'part' && other.positions.length > candidate.positions.length))
+    ))
+    // Each column keeps its strongest remaining match, the earliest of equals
+    return kept
+      .filter((candidate, index) => !kept.some((other, otherIndex) =>
+        other.table === candidate.table && other.column === candidate.column &&
+        (this.compare(other, candidate) || otherIndex - index) < 0
+      ))
+      .map(({ positions, ...match }) => match)
+  }
+
+  // Every place the question names the parts of a column name: all of them in order, or within one clause
+  // all of them apart or some of them
+  private static cover(
+    parts: string[],
+    words: string[],
+    clauses: number[]
+  ): { positions: number[]; coverage: ColumnMatch['coverage'] }[] {
+    if (parts.length === 0) return []
+    const same = (word: string, part: string) => word === part || word.replace(/s$/, '') === part.replace(/s$/, '')
+    const covers: { positions: number[]; coverage: ColumnMatch['coverage'] }[] = []
+
+    for (let start = 0; start + parts.length <= words.length; start++) {
+      if (parts.every((part, offset) => same(words[start + offset], part))) {
+        covers.push({ positions: parts.map((_, offset) => start + offset), coverage: 'exact' })
+      }
+    }
+    if (parts.length === 1) return covers
+
+    for (const clause of new Set(clauses)) {
+      const found = parts
+        .map(part => words.findIndex((word, position) => clauses[position] === clause && same(word, part)))
+        .filter(position => position >= 0)
+      const positions = Array.from(new Set(found)).sort((a, b) => a - b)
+      if (positions.length > 0) covers.push({ positions, coverage: found.length === parts.length ? 'all' : 'part' })
+    }
+    return covers
+  }
+
+  // The question's words, numbered by clause: "and", "or", "vs" and punctuation start a new one
+  private static clauses(question: string): { words: string[]; clauses: number[] } {
+    const words: string[] = []
+    const clauses: number[] = []
+    let clause = 0
+    for (const token of question.match(/[\p{L}\p{N}_]+|[,;&]/gu) ?? []) {
+      const text = this.loose(token)
+      if (!text || CLAUSE_BREAKS.has(text)) clause++
+      for (const word of text.split(' ').filter(Boolean)) {
+        words.push(word)
+        clauses.push(clause)
+      }
+    }
+    return { words, clauses }
+  }
+
+  private static matchValues(
+    phrases: Phrase[],
+    tables: TableContext[],
+    columns: ColumnMatch[],
+    columnTerms: Set<string>
+  ): ValueMatch[] {
+    const candidates: (ValueMatch & { phrase: Phrase })[] = []
+
+    for (const table of tables) {
+      for (const [column, values] of Object.entries(table.values)) {
+        for (const value of values) {
+          const text = this.loose(value)
+          if (text.length < 2) continue
+          const length = text.split(' ').length
+          if (length > MAX_PHRASE_WORDS) continue
+
+          for (const phrase of phrases) {
+            const words = phrase.text.split(' ')
+            if ((VALUE_SYNONYMS[phrase.text] ?? phrase.text) === text) {
+              if (words.every(word => STOP_WORDS.has(word))) continue
+              candidates.push({ term: phrase.original, table: table.name, column, value, fuzzy: false, phrase })
+              continue
+            }
+
+            if (
+              phrase.length === length && text.length >= MIN_FUZZY_LENGTH && phrase.text[0] === text[0] &&
+              !words.some(word => STOP_WORDS.has(word) || columnTerms.has(word))
+            ) {
+              const allowed = text.length >= 8 ? 2 : 1
+              if (Math.abs(phrase.text.length - text.length) <= allowed && this.distance(phrase.text, text, allowed) <= allowed) {
+                candidates.push({ term: phrase.original, table: table.name, column, value, fuzzy: true, phrase })
+              }
+            }
+          }
+        }
+      }
+    }
+
+    // Exact matches beat fuzzy ones and longer phrases beat the words inside them;
+    // a value found in several columns goes to the column the question names
+    const mentioned = (candidate: ValueMatch) =>
+      columns.some(match => match.table === candidate.table && match.column === candidate.column)
+    candidates.sort((a, b) =>
+      Number(a.fuzzy) - Number(b.fuzzy) ||
+      b.phrase.length - a.phrase.length ||
+      Number(mentioned(b)) - Number(mentioned(a))
+    )
+
+    const taken = new Set<number>()
+    const accepted: (ValueMatch & { phrase: Phrase })[] = []
+    for (const candidate of candidates) {
+      const span = Array.from({ length: candidate.phrase.length }, (_, index) => candidate.phrase.start + index)
+      if (span.some(index => taken.has(index))) continue
+      span.forEach(index => taken.add(index))
+      accepted.push(candidate)
+    }
+    return accepted
+      .sort((a, b) => a.phrase.start - b.phrase.start)
+      .map(({ phrase, ...match }) => match)
+  }
+
+  private static phrases(originals: string[], words: string[]): Phrase[] {
+    const phrases: Phrase[] = []
+    for (let start = 0; start < words.length; start++) {
+      for (let length = 1; length <= MAX_PHRASE_WORDS && start + length <= words.length; length++) {
+        phrases.push({
+          start,
+          length,
+          text: words.slice(start, start + length).join(' '),
+          original: originals.slice(start, start + length).join(' ')
+        })
+      }
+    }
+    return phrases
+  }
+
+  private static nameParts(name: string): string[] {
+    return this.loose(name.replace(/([a-z])([A-Z])/g, '$1 $2'))
+      .split(' ')
+      .filter(part => part.length >= 3 && part !== 'id')
+  }
+
+  private static synonyms(part: string): Set<string> {
+    const singular = part.replace(/s$/, '')
+    const group = SYNONYM_GROUPS.find(entry => entry.includes(part) || entry.includes(singular))
+    return new Set(group ?? [])
+  }
+
+  private static loose(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+  }
+
+  // Edit distance counting a swap of neighbouring letters as one edit; gives up once it exceeds the limit
+  private static distance(a: string, b: string, limit: number): number {
+    let before: number[] = []
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      let best = i
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          current[j] = Math.min(current[j], before[j - 2] + 1)
+        }
+        best = Math.min(best, current[j])
+      }
+      if (best > limit) return best
+      before = previous
+      previous = current
+    }
+    return previous[b.length]
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { makeRequest, salesTable } from '../../test/fixtures'
+import { HeuristicProvider } from './heuristicProvider'
+
+const generate = (question: string) => new HeuristicProvider().generateSQL(makeRequest(question, [salesTable()]))
+
+describe('HeuristicProvider', () => {
+  it('groups by every category named after "by", in the order named', async () => {
+    expect(await generate('total price by region by product')).toBe(
+      'SELECT Region, Product, ROUND(SUM(Total_Price), 2) AS total FROM sales GROUP BY Region, Product ORDER BY total DESC'
+    )
+    expect(await generate('total price by product and region')).toContain('GROUP BY Product, Region')
+  })
+
+  it('groups by a category alongside the period of a trend', async () => {
+    expect(await generate('total units by region by quarter')).toContain("GROUP BY DATE_TRUNC('quarter', Order_Date), Region")
+  })
+
+  it('groups by the one category named', async () => {
+    expect(await generate('units by region')).toContain('GROUP BY Region ORDER BY')
+  })
+})
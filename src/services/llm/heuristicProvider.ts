@@ -0,0 +1,234 @@
+import { ColumnSchema, TableRelationship } from '../../types'
+import { InsightEngine } from '../insightEngine'
+import { AggregateName, ColumnRef, Measure, QueryBuilder, QueryFilter, QuerySpec } from '../queryBuilder'
+import { TimeSeriesAnalyzer } from '../timeSeries'
+import { FollowUpResolver } from './followUp'
+import { Grounding } from './grounding'
+import { isMentioned, tokenize } from './matching'
+import { LLMProvider, SQLGenerationRequest, TableContext } from './types'
+
+interface CandidateColumn extends ColumnRef {
+  schema: ColumnSchema
+}
+
+const AGGREGATE_ALIASES: Record<AggregateName, string> = {
+  AVG: 'average',
+  SUM: 'total',
+  COUNT: 'count',
+  MIN: 'minimum',
+  MAX: 'maximum'
+}
+
+// Keyword-based fallback used when no language model is configured
+export class HeuristicProvider implements LLMProvider {
+  readonly name = 'heuristic'
+
+  async generateSQL({ question, tables, relationships, context, grounding }: SQLGenerationRequest): Promise<string> {
+    if (context && FollowUpResolver.isFollowUp(question)) {
+      const resolved = FollowUpResolver.resolve(question, context, tables, grounding)
+      if (resolved) return resolved
+    }
+
+    const lowercaseQuestion = question.toLowerCase()
+    const words = tokenize(lowercaseQuestion)
+    const columns = tables.flatMap(table =>
+      table.schema.map(schema => ({ table: table.name, column: schema.name, schema }))
+    )
+    const isNamed = (c: CandidateColumn, terms?: Set<string>) =>
+      grounding.columns.some(match =>
+        match.table === c.table && match.column === c.column &&
+        (!terms || match.term.split(' ').every(word => terms.has(word)))
+      )
+
+    const numericColumns = this.preferMentioned(
+      columns.filter(c => c.schema.type === 'numeric' || c.schema.type === 'integer'),
+      isNamed
+    )
+    const categoryColumns = columns.filter(c => c.schema.type === 'categorical' || c.schema.type === 'boolean')
+    // Each dimension named after "by" is grouped on, in the order named ("by region by product");
+    // they win over a dimension the question only filters on
+    const groupPhrase = lowercaseQuestion.match(/ (?:by|per|for each) (.+)$/)?.[1]
+    const groupWords = groupPhrase?.split(/[^a-z0-9]+/) ?? []
+    const groupTerms = new Set(groupWords)
+    const namedAt = (c: CandidateColumn) => Math.min(...grounding.columns
+      .filter(match => match.table === c.table && match.column === c.column)
+      .map(match => groupWords.indexOf(match.term.split(' ')[0]))
+      .filter(position => position >= 0))
+    const groupedCategories = categoryColumns
+      .filter(c => isNamed(c, groupTerms))
+      .sort((a, b) => namedAt(a) - namedAt(b))
+    const mentionedCategories = groupedCategories.length > 0
+      ? groupedCategories
+      : categoryColumns.filter(c => isNamed(c)).slice(0, 1)
+
+    const wantsBreakdown = lowercaseQuestion.includes('group by') || lowercaseQuestion.includes('breakdown')
+    const wantsGrouping = wantsBreakdown || / (by|per|for each) /.test(lowercaseQuestion)
+    const groupColumns = !wantsGrouping ? []
+      : mentionedCategories.length > 0 ? mentionedCategories
+      : wantsBreakdown ? this.preferMentioned(categoryColumns, isNamed).slice(0, 1)
+      : []
+    const groupBy = groupColumns.map(c => ({ table: c.table, column: c.column }))
+
+    // The "average" in "moving average" describes the chart, not the measure
+    let aggregate = this.detectAggregate(lowercaseQuestion.replace(/\b(moving|rolling|trailing) (average|avg|mean)\b/g, ''))
+    // "revenue by segment" names a measure and a dimension without an aggregate word
+    const mentionedMeasure = numericColumns.find(c => isNamed(c))
+    // "revenue and units by month" lists several measures; otherwise the first one is used
+    const namedMeasures = numericColumns.filter(c => isNamed(c))
+    const listsMeasures = namedMeasures.length > 1 && /\b(and|vs|versus)\b|,/.test(lowercaseQuestion)
+    const measureColumns = listsMeasures ? namedMeasures : numericColumns.slice(0, 1)
+    if (!aggregate && groupColumns.length > 0) {
+      aggregate = mentionedMeasure ? 'SUM' : 'COUNT'
+    }
+
+    const filters = this.filters(grounding, columns, isNamed)
+    const mentionedTable = this.mentionedTable(tables, words)?.name
+    const baseTable = mentionedTable ?? filters[0]?.column.table ?? tables[0]?.name
+    if (!baseTable) {
+      throw new Error('There are no tables to query')
+    }
+
+    // Correlations and outliers are computed from the individual rows, so nothing is aggregated or cut off
+    const analysis = InsightEngine.detect(question)
+    if (analysis === 'correlation' || analysis === 'anomaly') {
+      const table = mentionedMeasure?.table ?? baseTable
+      return QueryBuilder.toSQL({
+        table,
+        measures: [],
+        groupBy: [],
+        filters: this.reachable(table, filters, relationships)
+      }, relationships)
+    }
+
+    const timeSeries = TimeSeriesAnalyzer.detect(question)
+    const dateColumn = this.preferMentioned(columns.filter(c => this.isDate(c.schema)), isNamed)[0]
+    if (timeSeries && dateColumn) {
+      const timeAggregate = aggregate ?? (mentionedMeasure ? 'SUM' : 'COUNT')
+      const timeMeasures = timeAggregate === 'COUNT' ? [] : measureColumns
+      const { min, max } = dateColumn.schema
+      const unit = timeSeries.period ??
+        (min !== undefined && max !== undefined ? TimeSeriesAnalyzer.autoPeriod(String(min), String(max)) : 'month')
+      if (timeAggregate === 'COUNT' || timeMeasures.length > 0) {
+        const table = timeMeasures[0]?.table ?? dateColumn.table
+        const spec: QuerySpec = {
+          table,
+          measures: this.measures(timeAggregate, timeMeasures),
+          groupBy,
+          period: { column: { table: dateColumn.table, column: dateColumn.column }, unit },
+          filters: this.reachable(table, filters, relationships),
+          orderBy: { key: 'period', direction: 'ASC' }
+        }
+        if (QueryBuilder.canJoin(spec, relationships)) {
+          return QueryBuilder.toSQL(spec, relationships)
+        }
+      }
+    }
+
+    if (aggregate) {
+      const aggregateMeasures = aggregate === 'COUNT' ? [] : measureColumns
+      if (aggregate === 'COUNT' || aggregateMeasures.length > 0) {
+        // Counts run over the table the question names, else the one holding the dimension
+        const table = aggregateMeasures[0]?.table ?? mentionedTable ?? groupColumns[0]?.table ?? baseTable
+        const spec: QuerySpec = {
+          table,
+          measures: this.measures(aggregate, aggregateMeasures),
+          groupBy: [],
+          filters: this.reachable(table, filters, relationships)
+        }
+
+        if (groupBy.length > 0) {
+          const grouped: QuerySpec = {
+            ...spec,
+            groupBy,
+            orderBy: { key: spec.measures[0].alias, direction: 'DESC' }
+          }
+          if (QueryBuilder.canJoin(grouped, relationships)) {
+            return QueryBuilder.toSQL(grouped, relationships)
+          }
+        }
+        return QueryBuilder.toSQL(spec, relationships)
+      }
+    }
+
+    // Default: show all data
+    return QueryBuilder.toSQL({
+      table: baseTable,
+      measures: [],
+      groupBy: [],
+      filters: this.reachable(baseTable, filters, relationships),
+      limit: 100
+    }, relationships)
+  }
+
+  // Values named in the question become equality filters, and years filter the date column
+  private filters(
+    grounding: Grounding,
+    columns: CandidateColumn[],
+    isNamed: (c: CandidateColumn) => boolean
+  ): QueryFilter[] {
+    const filters: QueryFilter[] = []
+    for (const match of grounding.values) {
+      const existing = filters.find(filter => filter.column.table === match.table && filter.column.column === match.column)
+      if (existing) existing.values.push(match.value)
+      else filters.push({ column: { table: match.table, column: match.column }, values: [match.value] })
+    }
+
+    const dateColumns = this.preferMentioned(columns.filter(c => this.isDate(c.schema)), isNamed)
+    if (grounding.years.length > 0 && dateColumns.length > 0) {
+      filters.push({
+        column: { table: dateColumns[0].table, column: dateColumns[0].column },
+        values: grounding.years,
+        part: 'year'
+      })
+    }
+    return filters
+  }
+
+  // Filters on tables that cannot be joined to the queried one are left out
+  private reachable(table: string, filters: QueryFilter[], relationships: TableRelationship[]): QueryFilter[] {
+    return filters.filter(filter =>
+      QueryBuilder.canJoin({ table, measures: [], groupBy: [], filters: [filter] }, relationships)
+    )
+  }
+
+  private isDate(schema: ColumnSchema): boolean {
+    return schema.type === 'date' || schema.type === 'datetime'
+  }
+
+  private detectAggregate(question: string): AggregateName | null {
+    if (/\b(averages?|avg|mean)\b/.test(question)) return 'AVG'
+    if (/\b(count|how many)\b/.test(question)) return 'COUNT'
+    if (/\b(sums?|totals?)\b/.test(question)) return 'SUM'
+    if (/\b(max|maximum|highest|largest)\b/.test(question)) return 'MAX'
+    if (/\b(min|minimum|lowest|smallest)\b/.test(question)) return 'MIN'
+    if (question.includes('group by') || question.includes('breakdown')) return 'COUNT'
+    return null
+  }
+
+  private mentionedTable(tables: TableContext[], words: Set<string>): TableContext | undefined {
+    return tables.find(table => isMentioned(table.name, words))
+  }
+
+  // Several measured columns get aliases naming their column, e.g. total_revenue and total_units
+  private measures(aggregate: AggregateName, columns: CandidateColumn[]): Measure[] {
+    if (columns.length === 0) return [{ aggregate, alias: AGGREGATE_ALIASES[aggregate] }]
+    return columns.map(c => ({
+      aggregate,
+      column: { table: c.table, column: c.column },
+      alias: columns.length === 1
+        ? AGGREGATE_ALIASES[aggregate]
+        : `${AGGREGATE_ALIASES[aggregate]}_${c.column.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`
+    }))
+  }
+
+  // Moves columns named in the question to the front, keeping schema order otherwise
+  private preferMentioned(
+    columns: CandidateColumn[],
+    isNamed: (c: CandidateColumn) => boolean
+  ): CandidateColumn[] {
+    return [
+      ...columns.filter(c => isNamed(c)),
+      ...columns.filter(c => !isNamed(c))
+    ]
+  }
+}
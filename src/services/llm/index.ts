@@ -0,0 +1,44 @@
+import { Clarifier } from './clarification'
+import { FollowUpResolver } from './followUp'
+import { ValueGrounder } from './grounding'
+import { HeuristicProvider } from './heuristicProvider'
+import { MockLLMProvider } from './mockProvider'
+import { OpenAIProvider } from './openAIProvider'
+import { LLMProvider } from './types'
+
+export * from './types'
+export type { ColumnMatch, Grounding, ValueMatch } from './grounding'
+export { Clarifier, FollowUpResolver, HeuristicProvider, MockLLMProvider, OpenAIProvider, ValueGrounder }
+
+export interface ProviderSetup {
+  provider: LLMProvider
+  // Set when the configuration asked for a provider that cannot be used, which the heuristic one stands in for
+  problem?: string
+}
+
+// VITE_LLM_PROVIDER selects the backend; without it OpenAI is used when a key is configured
+export function createLLMProvider(): ProviderSetup {
+  const provider = import.meta.env.VITE_LLM_PROVIDER
+  const apiKey = import.meta.env.VITE_OPENAI_API_KEY
+
+  switch (provider) {
+    case 'mock':
+      return { provider: new MockLLMProvider() }
+    case 'heuristic':
+      return { provider: new HeuristicProvider() }
+    case 'openai':
+      if (!apiKey) {
+        return {
+          provider: new HeuristicProvider(),
+          problem: 'VITE_LLM_PROVIDER is "openai" but VITE_OPENAI_API_KEY is not set, so questions are answered by keyword matching'
+        }
+      }
+      return { provider: new OpenAIProvider(apiKey, import.meta.env.VITE_OPENAI_MODEL || undefined) }
+    default:
+      return {
+        provider: apiKey
+          ? new OpenAIProvider(apiKey, import.meta.env.VITE_OPENAI_MODEL || undefined)
+          : new HeuristicProvider()
+      }
+  }
+}
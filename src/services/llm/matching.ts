@@ -0,0 +1,15 @@
+// Lowercase words of a question; "orders" also matches "order" and vice versa
+export function tokenize(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  return new Set(words.flatMap(word => [word, word.replace(/s$/, '')]))
+}
+
+// A column counts as mentioned when one of its name parts appears as a word in the question
+export function isMentioned(name: string, words: Set<string>): boolean {
+  const parts = name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(part => part.length >= 3 && part !== 'id')
+  return parts.some(part => words.has(part) || words.has(part.replace(/s$/, '')))
+}
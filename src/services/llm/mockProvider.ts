@@ -0,0 +1,32 @@
+import defaultFixture from './fixtures/mockResponses.json'
+import { buildPromptMessages, extractSQL, PromptMessage } from './prompt'
+import { LLMProvider, SQLGenerationRequest } from './types'
+
+export interface MockFixture {
+  replies: { question: string; sql: string }[]
+  fallback?: string
+}
+
+// Deterministic stand-in for a language model that answers from canned replies
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock'
+  readonly prompts: PromptMessage[][] = []
+
+  constructor(private fixture: MockFixture = defaultFixture) {}
+
+  async generateSQL(request: SQLGenerationRequest): Promise<string> {
+    this.prompts.push(buildPromptMessages(request))
+
+    const question = this.normalize(request.question)
+    const reply = this.fixture.replies.find(entry => this.normalize(entry.question) === question)
+    const sql = reply?.sql ?? this.fixture.fallback
+    if (!sql) {
+      throw new Error(`No canned reply for question "${request.question}"`)
+    }
+    return extractSQL(sql.replace(/\{table\}/g, request.tables[0]?.name ?? 'data'))
+  }
+
+  private normalize(question: string): string {
+    return question.toLowerCase().replace(/[?!.]+$/, '').replace(/\s+/g, ' ').trim()
+  }
+}
@@ -0,0 +1,38 @@
+import { buildPromptMessages, extractSQL } from './prompt'
+import { LLMProvider, SQLGenerationRequest } from './types'
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai'
+
+  constructor(
+    private apiKey: string,
+    private model = 'gpt-4o-mini',
+    private endpoint = 'https://api.openai.com/v1/chat/completions'
+  ) {}
+
+  async generateSQL(request: SQLGenerationRequest): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: buildPromptMessages(request)
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI request failed with status ${response.status}`)
+    }
+
+    const body = await response.json()
+    const reply = body?.choices?.[0]?.message?.content
+    if (typeof reply !== 'string' || reply.trim() === '') {
+      throw new Error('OpenAI returned an empty reply')
+    }
+    return extractSQL(reply)
+  }
+}
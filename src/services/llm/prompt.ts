@@ -0,0 +1,83 @@
+import { SQLGenerationRequest } from './types'
+
+// Columns with at most this many distinct values list them in the prompt
+const MAX_PROMPT_VALUES = 20
+
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export function buildPromptMessages(request: SQLGenerationRequest): PromptMessage[] {
+  const tables = request.tables.map(table => {
+    const schema = table.schema.map(column => {
+      const range = column.min !== undefined ? `, range ${column.min} to ${column.max}` : ''
+      const nullable = column.nullable ? ', nullable' : ''
+      const label = column.label !== column.name ? `, header "${column.label}"` : ''
+      const values = table.values[column.name]
+      const listed = values && values.length <= MAX_PROMPT_VALUES ? `; values: ${values.join(', ')}` : ''
+      return `- ${column.name} (${column.type}${nullable}, ${column.cardinality} distinct${range}${label})${listed}`
+    }).join('\n')
+    const samples = table.sampleRows.map(row => JSON.stringify(row)).join('\n')
+    return [`Table "${table.name}" columns:`, schema, 'Sample rows:', samples || '(no rows)'].join('\n')
+  })
+
+  const joins = request.relationships.map(r =>
+    `- ${r.fromTable}.${r.fromColumn} = ${r.toTable}.${r.toColumn}`
+  )
+
+  const matches = [
+    ...request.grounding.values.map(match =>
+      `- "${match.term}" is the value '${match.value}' of ${match.table}.${match.column}`
+    ),
+    ...request.grounding.columns
+      .filter(match => match.via === 'synonym' || match.via === 'fuzzy')
+      .map(match => `- "${match.term}" refers to ${match.table}.${match.column}`),
+    ...request.grounding.columns
+      .filter(match => match.via === 'chosen')
+      .map(match => `- "${match.term}" means ${match.table}.${match.column}, as the user confirmed`)
+  ]
+
+  const system = [
+    'You translate questions about spreadsheet data into a single SQL SELECT statement.',
+    '',
+    ...tables.flatMap(table => [table, '']),
+    ...(joins.length > 0 ? ['Tables can be joined on:', ...joins, ''] : []),
+    ...(matches.length > 0 ? ['Words in the question matched to the data (filter on these exact values):', ...matches, ''] : []),
+    ...(request.context ? [
+      'The previous answer was computed with:',
+      request.context.sql,
+      'If the question refines that answer (e.g. "now only for 2023" or "split that by region"),',
+      'modify this query, keeping its filters and grouping unless the question replaces them.',
+      ''
+    ] : []),
+    'Rules:',
+    '- Reply with the SQL statement only, without explanation or code fences.',
+    '- Only use the tables and columns listed above; double-quote names that are not plain identifiers.',
+    '- Qualify columns with their table name when joining.',
+    '- Supported: SELECT, WHERE, JOIN, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET, DISTINCT, CASE,',
+    '  COUNT/SUM/AVG/MIN/MAX/MEDIAN/STDDEV and scalar functions such as ROUND, LOWER, UPPER, YEAR, QUARTER, MONTH, WEEK,',
+    "  and DATE_TRUNC('day' | 'week' | 'month' | 'quarter' | 'year', date).",
+    '- For questions about change over time, select DATE_TRUNC(...) AS period with the measure, group by it and order by period.',
+    '- For questions about correlations or outliers, select the individual rows without aggregating or LIMIT; the statistics are computed afterwards.',
+    '- Alias aggregate results with short descriptive names.'
+  ].join('\n')
+
+  const history: PromptMessage[] = request.history.map(turn => ({
+    role: turn.role,
+    content: turn.role === 'assistant' && turn.sql_query ? turn.sql_query : turn.content
+  }))
+
+  return [
+    { role: 'system', content: system },
+    ...history,
+    { role: 'user', content: request.question }
+  ]
+}
+
+// Models sometimes wrap the statement in a code fence or add a trailing semicolon
+export function extractSQL(reply: string): string {
+  const fenced = reply.match(/```(?:sql)?\s*([\s\S]*?)```/i)
+  const sql = (fenced ? fenced[1] : reply).trim()
+  return sql.replace(/;\s*$/, '')
+}
@@ -0,0 +1,26 @@
+import { Grounding } from './grounding'
+import { ColumnSchema, ConversationContext, ConversationTurn, DataRow, TableRelationship } from '../../types'
+
+export interface TableContext {
+  name: string
+  schema: ColumnSchema[]
+  sampleRows: DataRow[]
+  // Distinct values of category and short text columns, so values named in a question can be matched
+  values: Record<string, string[]>
+}
+
+export interface SQLGenerationRequest {
+  question: string
+  tables: TableContext[]
+  relationships: TableRelationship[]
+  history: ConversationTurn[]
+  // Columns and values the question's words were matched to
+  grounding: Grounding
+  // The previous answer, when the question may refine it
+  context?: ConversationContext
+}
+
+export interface LLMProvider {
+  readonly name: string
+  generateSQL(request: SQLGenerationRequest): Promise<string>
+}
@@ -0,0 +1,152 @@
+import { DateOrder, ParseLocale } from '../types'
+
+export interface LocalePreset {
+  id: string
+  label: string
+  // Resolved from the browser when omitted
+  locale?: ParseLocale
+}
+
+export const LOCALE_PRESETS: LocalePreset[] = [
+  { id: 'auto', label: 'Browser default' },
+  { id: 'us', label: 'US (12/31/2024, 1,234.56)', locale: { dateOrder: 'MDY', decimalSeparator: '.' } },
+  { id: 'uk', label: 'UK (31/12/2024, 1,234.56)', locale: { dateOrder: 'DMY', decimalSeparator: '.' } },
+  { id: 'eu', label: 'Continental Europe (31.12.2024, 1.234,56)', locale: { dateOrder: 'DMY', decimalSeparator: ',' } },
+  { id: 'iso', label: 'ISO (2024-12-31, 1234.56)', locale: { dateOrder: 'YMD', decimalSeparator: '.' } }
+]
+
+export const DEFAULT_LOCALE: ParseLocale = { dateOrder: 'MDY', decimalSeparator: '.' }
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+]
+const CURRENCY = /^[$€£¥]\s?|\s?[$€£¥]$/g
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?Z?)?$/
+const NUMERIC_DATE = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?)?$/i
+const NAMED_DATE = /^(?:(\d{1,2})[\s-]+([a-z]{3,9})\.?|([a-z]{3,9})\.?\s+(\d{1,2}),?)[\s,-]+(\d{2,4})$/i
+
+// Parses text numbers and dates written in a regional style into plain numbers and ISO strings
+export class LocaleParser {
+  static resolve(presetId: string, language = typeof navigator !== 'undefined' ? navigator.language : 'en-US'): ParseLocale {
+    const preset = LOCALE_PRESETS.find(entry => entry.id === presetId)
+    return preset?.locale ?? this.fromLanguage(language)
+  }
+
+  // Reads the separator and day/month order the browser uses for a language tag
+  static fromLanguage(language: string): ParseLocale {
+    try {
+      const decimal = new Intl.NumberFormat(language).formatToParts(1.5).find(part => part.type === 'decimal')?.value
+      const order = new Intl.DateTimeFormat(language)
+        .formatToParts(new Date(2024, 11, 31))
+        .filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year')
+        .map(part => part.type[0].toUpperCase())
+        .join('')
+      return {
+        dateOrder: order === 'DMY' || order === 'YMD' ? order : 'MDY',
+        decimalSeparator: decimal === ',' ? ',' : '.'
+      }
+    } catch {
+      return DEFAULT_LOCALE
+    }
+  }
+
+  static parseNumber(text: string, locale: ParseLocale): number | null {
+    let value = text.trim().replace(CURRENCY, '')
+    let negative = false
+    // Accounting style "(1,234)"
+    if (/^\(.*\)$/.test(value)) {
+      negative = true
+      value = value.slice(1, -1).trim()
+    }
+
+    const decimal = locale.decimalSeparator === ',' ? ',' : '\\.'
+    const thousands = locale.decimalSeparator === ',' ? '[.\\s\\u202f]' : '[,\\s\\u202f]'
+    const grouped = new RegExp(`^[-+]?\\d{1,3}(${thousands}\\d{3})+(${decimal}\\d+)?$`)
+    const plain = new RegExp(`^[-+]?(\\d+(${decimal}\\d*)?|${decimal}\\d+)([eE][-+]?\\d+)?$`)
+
+    if (grouped.test(value)) {
+      value = value.replace(new RegExp(thousands, 'g'), '')
+    } else if (!plain.test(value)) {
+      return null
+    }
+
+    const number = Number(value.replace(',', '.'))
+    if (isNaN(number)) return null
+    return negative ? -number : number
+  }
+
+  // Returns "YYYY-MM-DD", or "YYYY-MM-DDTHH:mm:ss" when the text has a time
+  static parseDate(text: string, order: DateOrder): string | null {
+    const value = text.trim()
+
+    const iso = value.match(ISO_DATE)
+    if (iso) {
+      return this.toISO(+iso[1], +iso[2], +iso[3], iso[4] ? [+iso[4], +iso[5], +(iso[6] ?? 0)] : null)
+    }
+
+    const numeric = value.match(NUMERIC_DATE)
+    if (numeric) {
+      const parts = [numeric[1], numeric[2], numeric[3]]
+      // A four-digit first part is always a year
+      const effectiveOrder: DateOrder = parts[0].length === 4 ? 'YMD' : order
+      const [year, month, day] = effectiveOrder === 'YMD'
+        ? [parts[0], parts[1], parts[2]]
+        : effectiveOrder === 'DMY' ? [parts[2], parts[1], parts[0]] : [parts[2], parts[0], parts[1]]
+      if (effectiveOrder !== 'YMD' && year.length !== 2 && year.length !== 4) return null
+
+      let time: [number, number, number] | null = null
+      if (numeric[4]) {
+        let hours = +numeric[4]
+        const meridiem = numeric[7]?.toLowerCase()
+        if (meridiem === 'pm' && hours < 12) hours += 12
+        if (meridiem === 'am' && hours === 12) hours = 0
+        time = [hours, +numeric[5], +(numeric[6] ?? 0)]
+      }
+      return this.toISO(this.expandYear(year), +month, +day, time)
+    }
+
+    const named = value.match(NAMED_DATE)
+    if (named) {
+      // Full names and abbreviations such as "Sep" or "Sept"
+      const monthName = (named[2] ?? named[3]).toLowerCase()
+      const month = MONTHS.findIndex(name => name.startsWith(monthName)) + 1
+      if (month === 0) return null
+      return this.toISO(this.expandYear(named[5]), month, +(named[1] ?? named[4]), null)
+    }
+
+    return null
+  }
+
+  static dateToISO(date: Date): string | null {
+    if (isNaN(date.getTime())) return null
+    const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0
+    return this.toISO(
+      date.getFullYear(),
+      date.getMonth() + 1,
+      date.getDate(),
+      hasTime ? [date.getHours(), date.getMinutes(), date.getSeconds()] : null
+    )
+  }
+
+  static toISO(year: number, month: number, day: number, time: [number, number, number] | null): string | null {
+    if (month < 1 || month > 12 || day < 1) return null
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+    if (day > daysInMonth) return null
+
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const date = `${String(year).padStart(4, '0')}-${pad(month)}-${pad(day)}`
+    if (!time) return date
+
+    const [hours, minutes, seconds] = time
+    if (hours > 23 || minutes > 59 || seconds > 59) return null
+    return `${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+  }
+
+  // Two-digit years follow the spreadsheet convention: 00-49 is 2000s, 50-99 is 1900s
+  private static expandYear(year: string): number {
+    const value = +year
+    if (year.length > 2) return value
+    return value < 50 ? 2000 + value : 1900 + value
+  }
+}
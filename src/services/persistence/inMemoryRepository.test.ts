@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { AnalysisResult } from '../../types'
+import { salesTable } from '../../test/fixtures'
+import { WorkspaceManager } from '../workspace'
+import { InMemoryRepository } from './inMemoryRepository'
+
+const workspace = WorkspaceManager.create([salesTable()])
+const answer: AnalysisResult = {
+  type: 'table',
+  data: { columns: ['total'], rows: [{ total: 1 }], title: 'Total' },
+  sql_query: 'SELECT COUNT(*) AS total FROM sales',
+  confidence_score: 0.9
+}
+
+describe('InMemoryRepository', () => {
+  it('saves a workspace and loads it back', async () => {
+    const repository = new InMemoryRepository()
+    const dataset = await repository.saveWorkspace(workspace)
+
+    expect(dataset).toMatchObject({ user_id: 'local-user', row_count: 120 })
+    expect(await repository.listDatasets()).toEqual([dataset])
+    expect(await repository.loadWorkspace(dataset.id)).toBe(workspace)
+  })
+
+  it('lists only the datasets of its user', async () => {
+    const repository = new InMemoryRepository('someone')
+    await repository.saveWorkspace(workspace)
+    expect(await new InMemoryRepository('someone else').listDatasets()).toEqual([])
+  })
+
+  it('keeps the answers to questions about a dataset until it is deleted', async () => {
+    const repository = new InMemoryRepository()
+    const dataset = await repository.saveWorkspace(workspace)
+    await repository.saveQuery(dataset.id, 'how many orders', answer)
+
+    expect((await repository.listQueries(dataset.id)).map(query => query.question)).toEqual(['how many orders'])
+
+    await repository.deleteDataset(dataset.id)
+    expect(await repository.listDatasets()).toEqual([])
+    expect(await repository.listQueries(dataset.id)).toEqual([])
+    await expect(repository.loadWorkspace(dataset.id)).rejects.toThrow(`Dataset ${dataset.id} was not found`)
+  })
+
+  it('updates the workspace and summary of a saved dataset', async () => {
+    const repository = new InMemoryRepository()
+    const dataset = await repository.saveWorkspace(workspace)
+    const smaller = WorkspaceManager.create([{ ...salesTable(), data: salesTable().data.slice(0, 10) }])
+
+    expect(await repository.updateWorkspace(dataset.id, smaller)).toMatchObject({ id: dataset.id, row_count: 10 })
+    expect(await repository.loadWorkspace(dataset.id)).toBe(smaller)
+  })
+
+  it('refuses to save a clarifying question or an answer for an unknown dataset', async () => {
+    const repository = new InMemoryRepository()
+    const dataset = await repository.saveWorkspace(workspace)
+    const clarification: AnalysisResult = {
+      type: 'clarification',
+      data: { prompt: 'Which?', question: 'price', term: 'price', options: [], chosen: [] },
+      confidence_score: 0
+    }
+
+    await expect(repository.saveQuery(dataset.id, 'price', clarification)).rejects.toThrow('clarifying question')
+    await expect(repository.saveQuery('missing', 'how many orders', answer)).rejects.toThrow('Dataset missing was not found')
+  })
+})
@@ -0,0 +1,86 @@
+import { AnalysisResult, Dataset, Query, Workspace } from '../../types'
+import { generateId } from '../../lib/utils'
+import { summarizeWorkspace } from './summary'
+import { DatasetRepository } from './types'
+
+// Stand-in used when Supabase is not configured, and in tests
+export class InMemoryRepository implements DatasetRepository {
+  private datasets = new Map<string, Dataset>()
+  private workspaces = new Map<string, Workspace>()
+  private queries: Query[] = []
+
+  constructor(private userId = 'local-user') {}
+
+  async saveWorkspace(workspace: Workspace): Promise<Dataset> {
+    const now = new Date().toISOString()
+    const dataset: Dataset = {
+      id: generateId(),
+      user_id: this.userId,
+      ...summarizeWorkspace(workspace),
+      created_at: now,
+      updated_at: now
+    }
+    this.datasets.set(dataset.id, dataset)
+    this.workspaces.set(dataset.id, workspace)
+    return dataset
+  }
+
+  async updateWorkspace(datasetId: string, workspace: Workspace): Promise<Dataset> {
+    const existing = this.requireDataset(datasetId)
+    const dataset: Dataset = {
+      ...existing,
+      ...summarizeWorkspace(workspace),
+      updated_at: new Date().toISOString()
+    }
+    this.datasets.set(datasetId, dataset)
+    this.workspaces.set(datasetId, workspace)
+    return dataset
+  }
+
+  async listDatasets(): Promise<Dataset[]> {
+    return Array.from(this.datasets.values())
+      .filter(dataset => dataset.user_id === this.userId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  }
+
+  async loadWorkspace(datasetId: string): Promise<Workspace> {
+    this.requireDataset(datasetId)
+    return this.workspaces.get(datasetId) as Workspace
+  }
+
+  async deleteDataset(datasetId: string): Promise<void> {
+    this.datasets.delete(datasetId)
+    this.workspaces.delete(datasetId)
+    this.queries = this.queries.filter(query => query.dataset_id !== datasetId)
+  }
+
+  async saveQuery(datasetId: string, question: string, result: AnalysisResult): Promise<Query> {
+    if (result.type === 'clarification') throw new Error('A clarifying question is not an answer and cannot be saved')
+    this.requireDataset(datasetId)
+    const query: Query = {
+      id: generateId(),
+      dataset_id: datasetId,
+      user_id: this.userId,
+      question,
+      sql_query: result.sql_query ?? '',
+      result_type: result.type,
+      result_data: result,
+      confidence_score: result.confidence_score,
+      created_at: new Date().toISOString()
+    }
+    this.queries.push(query)
+    return query
+  }
+
+  async listQueries(datasetId: string): Promise<Query[]> {
+    return this.queries.filter(query => query.dataset_id === datasetId)
+  }
+
+  private requireDataset(datasetId: string): Dataset {
+    const dataset = this.datasets.get(datasetId)
+    if (!dataset) {
+      throw new Error(`Dataset ${datasetId} was not found`)
+    }
+    return dataset
+  }
+}
@@ -0,0 +1,32 @@
+import { DATASET_BUCKET, supabase } from '../../lib/supabase'
+import { InMemoryRepository } from './inMemoryRepository'
+import { RecipeStore } from './recipeStore'
+import { SupabaseRepository } from './supabaseRepository'
+import { DatasetRepository } from './types'
+
+export * from './types'
+export { InMemoryRepository, RecipeStore, SupabaseRepository }
+
+const LOCAL_USER_KEY = 'ai-data-agent:user-id'
+
+export async function createRepository(): Promise<DatasetRepository> {
+  if (!supabase) {
+    return new InMemoryRepository()
+  }
+  return new SupabaseRepository(supabase, await resolveUserId(), DATASET_BUCKET)
+}
+
+// Signed-in users keep their own id; anonymous visitors get a stable per-browser id
+async function resolveUserId(): Promise<string> {
+  const { data } = await supabase!.auth.getSession()
+  if (data.session?.user.id) {
+    return data.session.user.id
+  }
+
+  let userId = localStorage.getItem(LOCAL_USER_KEY)
+  if (!userId) {
+    userId = crypto.randomUUID()
+    localStorage.setItem(LOCAL_USER_KEY, userId)
+  }
+  return userId
+}
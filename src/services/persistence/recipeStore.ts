@@ -0,0 +1,29 @@
+import { CleaningRecipe, CleaningStep } from '../../types'
+
+const RECIPES_KEY = 'ai-data-agent:cleaning-recipes'
+
+// Recipes are small and reused across datasets, so they live in the browser rather than with a dataset
+export class RecipeStore {
+  static list(): CleaningRecipe[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(RECIPES_KEY) ?? '[]')
+      return Array.isArray(stored) ? stored : []
+    } catch {
+      return []
+    }
+  }
+
+  // Saving under an existing name replaces that recipe
+  static save(name: string, steps: CleaningStep[]): CleaningRecipe[] {
+    const recipe: CleaningRecipe = { name, steps, createdAt: new Date().toISOString() }
+    const recipes = [recipe, ...this.list().filter(existing => existing.name !== name)]
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes))
+    return recipes
+  }
+
+  static remove(name: string): CleaningRecipe[] {
+    const recipes = this.list().filter(recipe => recipe.name !== name)
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes))
+    return recipes
+  }
+}
@@ -0,0 +1,20 @@
+import { Workspace } from '../../types'
+
+export function summarizeWorkspace(workspace: Workspace) {
+  const { tables } = workspace
+  const qualify = tables.length > 1
+  const rowCount = tables.reduce((sum, table) => sum + table.data.length, 0)
+  const quality = tables.length > 0
+    ? Math.round(tables.reduce((sum, table) => sum + table.metadata.dataQualityScore, 0) / tables.length)
+    : 0
+
+  return {
+    name: tables.map(table => table.label).join(', ') || 'Untitled dataset',
+    file_name: Array.from(new Set(tables.map(table => table.metadata.fileName))).join(', '),
+    columns: tables.flatMap(table =>
+      table.columns.map(column => qualify ? `${table.name}.${column}` : column)
+    ),
+    row_count: rowCount,
+    data_quality_score: quality
+  }
+}
@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../../lib/supabase'
+import { AnalysisResult, Dataset, Query, Workspace } from '../../types'
+import { summarizeWorkspace } from './summary'
+import { DatasetRepository, StoredWorkspace } from './types'
+
+export class SupabaseRepository implements DatasetRepository {
+  constructor(
+    private client: SupabaseClient<Database>,
+    private userId: string,
+    private bucket: string
+  ) {}
+
+  async saveWorkspace(workspace: Workspace): Promise<Dataset> {
+    const { data, error } = await this.client
+      .from('datasets')
+      .insert({ user_id: this.userId, ...summarizeWorkspace(workspace) })
+      .select()
+      .single()
+    if (error) throw new Error(`Failed to save dataset: ${error.message}`)
+
+    try {
+      await this.uploadWorkspace(data.id, workspace)
+    } catch (uploadError) {
+      // A dataset without its rows could never be opened, so it is not kept
+      await this.client.from('datasets').delete().eq('id', data.id)
+      throw uploadError
+    }
+    return data
+  }
+
+  async updateWorkspace(datasetId: string, workspace: Workspace): Promise<Dataset> {
+    await this.uploadWorkspace(datasetId, workspace)
+    return this.updateDataset(datasetId, {
+      ...summarizeWorkspace(workspace),
+      updated_at: new Date().toISOString()
+    })
+  }
+
+  async listDatasets(): Promise<Dataset[]> {
+    const { data, error } = await this.client
+      .from('datasets')
+      .select()
+      .eq('user_id', this.userId)
+      .order('updated_at', { ascending: false })
+    if (error) throw new Error(`Failed to list datasets: ${error.message}`)
+    return data
+  }
+
+  async loadWorkspace(datasetId: string): Promise<Workspace> {
+    const { data: dataset, error } = await this.client
+      .from('datasets')
+      .select()
+      .eq('id', datasetId)
+      .single()
+    if (error) throw new Error(`Failed to load dataset: ${error.message}`)
+
+    const { data: blob, error: downloadError } = await this.client.storage
+      .from(this.bucket)
+      .download(this.storagePath(dataset.id))
+    if (downloadError) throw new Error(`Failed to download dataset rows: ${downloadError.message}`)
+
+    const stored = JSON.parse(await blob.text()) as StoredWorkspace
+    return stored.workspace
+  }
+
+  // The rows go first: if they cannot be removed the dataset is left as it was rather than half deleted
+  async deleteDataset(datasetId: string): Promise<void> {
+    const { error: removeError } = await this.client.storage
+      .from(this.bucket)
+      .remove([this.storagePath(datasetId)])
+    if (removeError) throw new Error(`Failed to delete dataset rows: ${removeError.message}`)
+
+    const { error: queryError } = await this.client.from('queries').delete().eq('dataset_id', datasetId)
+    if (queryError) throw new Error(`Failed to delete query history: ${queryError.message}`)
+
+    const { error } = await this.client.from('datasets').delete().eq('id', datasetId)
+    if (error) throw new Error(`Failed to delete dataset: ${error.message}`)
+  }
+
+  async saveQuery(datasetId: string, question: string, result: AnalysisResult): Promise<Query> {
+    if (result.type === 'clarification') throw new Error('A clarifying question is not an answer and cannot be saved')
+    const { data, error } = await this.client
+      .from('queries')
+      .insert({
+        dataset_id: datasetId,
+        user_id: this.userId,
+        question,
+        sql_query: result.sql_query ?? '',
+        result_type: result.type,
+        result_data: result,
+        confidence_score: result.confidence_score
+      })
+      .select()
+      .single()
+    if (error) throw new Error(`Failed to save query: ${error.message}`)
+    return data
+  }
+
+  async listQueries(datasetId: string): Promise<Query[]> {
+    const { data, error } = await this.client
+      .from('queries')
+      .select()
+      .eq('dataset_id', datasetId)
+      .order('created_at', { ascending: true })
+    if (error) throw new Error(`Failed to load query history: ${error.message}`)
+    return data
+  }
+
+  // The rows of each dataset are kept in one blob under the folder of the user it belongs to
+  private storagePath(datasetId: string): string {
+    return `${this.userId}/${datasetId}.json`
+  }
+
+  private async uploadWorkspace(datasetId: string, workspace: Workspace): Promise<void> {
+    const path = this.storagePath(datasetId)
+    const stored: StoredWorkspace = { version: 1, workspace }
+    const blob = new Blob([JSON.stringify(stored)], { type: 'application/json' })
+
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(path, blob, { upsert: true, contentType: 'application/json' })
+    if (error) throw new Error(`Failed to upload dataset rows: ${error.message}`)
+  }
+
+  private async updateDataset(
+    datasetId: string,
+    changes: Database['public']['Tables']['datasets']['Update']
+  ): Promise<Dataset> {
+    const { data, error } = await this.client
+      .from('datasets')
+      .update(changes)
+      .eq('id', datasetId)
+      .select()
+      .single()
+    if (error) throw new Error(`Failed to update dataset: ${error.message}`)
+    return data
+  }
+}
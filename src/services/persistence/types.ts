@@ -0,0 +1,17 @@
+import { AnalysisResult, Dataset, Query, Workspace } from '../../types'
+
+export interface DatasetRepository {
+  saveWorkspace(workspace: Workspace): Promise<Dataset>
+  updateWorkspace(datasetId: string, workspace: Workspace): Promise<Dataset>
+  listDatasets(): Promise<Dataset[]>
+  loadWorkspace(datasetId: string): Promise<Workspace>
+  deleteDataset(datasetId: string): Promise<void>
+  saveQuery(datasetId: string, question: string, result: AnalysisResult): Promise<Query>
+  listQueries(datasetId: string): Promise<Query[]>
+}
+
+// The dataset row stores a summary; the parsed rows live in a separate blob
+export interface StoredWorkspace {
+  version: 1
+  workspace: Workspace
+}
@@ -0,0 +1,173 @@
+import { TableRelationship, TimePeriod } from '../types'
+import { formatLiteral, quoteIdentifier } from './sql'
+
+export interface ColumnRef {
+  table: string
+  column: string
+}
+
+export type AggregateName = 'SUM' | 'AVG' | 'COUNT' | 'MIN' | 'MAX'
+
+export interface Measure {
+  aggregate: AggregateName
+  // Omitted for COUNT(*)
+  column?: ColumnRef
+  alias: string
+}
+
+// Keeps rows whose column, or the year of a date column, equals one of the values
+export interface QueryFilter {
+  column: ColumnRef
+  values: (string | number)[]
+  part?: 'year'
+}
+
+export interface QuerySpec {
+  table: string
+  measures: Measure[]
+  groupBy: ColumnRef[]
+  // Groups by the start of each period of a date column, selected as "period"
+  period?: { column: ColumnRef; unit: TimePeriod }
+  filters?: QueryFilter[]
+  // Plain columns to list when there are no measures; all columns when empty
+  select?: ColumnRef[]
+  orderBy?: { key: string; direction: 'ASC' | 'DESC' }
+  limit?: number
+}
+
+interface JoinStep {
+  table: string
+  on: TableRelationship
+}
+
+// Compiles a structured query into SQL, adding joins along detected relationships
+export class QueryBuilder {
+  static toSQL(spec: QuerySpec, relationships: TableRelationship[]): string {
+    const tables = this.referencedTables(spec)
+    const joins = this.planJoins(spec.table, tables, relationships)
+    const qualify = joins.length > 0
+
+    const column = (ref: ColumnRef) =>
+      qualify ? `${quoteIdentifier(ref.table)}.${quoteIdentifier(ref.column)}` : quoteIdentifier(ref.column)
+
+    const groups = [
+      ...(spec.period ? [`DATE_TRUNC('${spec.period.unit}', ${column(spec.period.column)})`] : []),
+      ...spec.groupBy.map(column)
+    ]
+
+    const selectList: string[] = []
+    if (spec.measures.length > 0) {
+      if (spec.period) selectList.push(`${groups[0]} AS period`)
+      selectList.push(...spec.groupBy.map(column))
+      for (const measure of spec.measures) {
+        const argument = measure.column ? column(measure.column) : '*'
+        const expression = measure.aggregate === 'COUNT'
+          ? `COUNT(${argument})`
+          : `ROUND(${measure.aggregate}(${argument}), 2)`
+        selectList.push(`${expression} AS ${quoteIdentifier(measure.alias)}`)
+      }
+    } else if (spec.select && spec.select.length > 0) {
+      selectList.push(...spec.select.map(column))
+    } else {
+      selectList.push(qualify ? `${quoteIdentifier(spec.table)}.*` : '*')
+    }
+
+    const clauses = [`SELECT ${selectList.join(', ')}`, `FROM ${quoteIdentifier(spec.table)}`]
+
+    for (const join of joins) {
+      const { on } = join
+      clauses.push(
+        `JOIN ${quoteIdentifier(join.table)} ON ` +
+        `${column({ table: on.fromTable, column: on.fromColumn })} = ${column({ table: on.toTable, column: on.toColumn })}`
+      )
+    }
+
+    const conditions = (spec.filters ?? []).map(filter => {
+      const operand = filter.part === 'year' ? `YEAR(${column(filter.column)})` : column(filter.column)
+      const values = filter.values.map(formatLiteral)
+      return values.length === 1 ? `${operand} = ${values[0]}` : `${operand} IN (${values.join(', ')})`
+    })
+    if (conditions.length > 0) {
+      clauses.push(`WHERE ${conditions.join(' AND ')}`)
+    }
+
+    if (spec.measures.length > 0 && groups.length > 0) {
+      clauses.push(`GROUP BY ${groups.join(', ')}`)
+    }
+    if (spec.orderBy) {
+      clauses.push(`ORDER BY ${quoteIdentifier(spec.orderBy.key)} ${spec.orderBy.direction}`)
+    }
+    if (spec.limit !== undefined) {
+      clauses.push(`LIMIT ${spec.limit}`)
+    }
+
+    return clauses.join(' ')
+  }
+
+  // Whether every table the spec touches can be reached from its base table
+  static canJoin(spec: QuerySpec, relationships: TableRelationship[]): boolean {
+    try {
+      this.planJoins(spec.table, this.referencedTables(spec), relationships)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private static referencedTables(spec: QuerySpec): string[] {
+    const refs = [
+      ...spec.groupBy,
+      ...(spec.select ?? []),
+      ...(spec.filters ?? []).map(filter => filter.column),
+      ...(spec.period ? [spec.period.column] : []),
+      ...spec.measures.map(measure => measure.column).filter((ref): ref is ColumnRef => ref !== undefined)
+    ]
+    return Array.from(new Set(refs.map(ref => ref.table)))
+  }
+
+  // Breadth-first search over relationships so multi-hop joins are found too
+  private static planJoins(base: string, tables: string[], relationships: TableRelationship[]): JoinStep[] {
+    const joins: JoinStep[] = []
+    const joined = new Set([base])
+
+    for (const target of tables) {
+      if (joined.has(target)) continue
+
+      const previous = new Map<string, { from: string; on: TableRelationship }>()
+      const queue = Array.from(joined)
+      const visited = new Set(queue)
+
+      while (queue.length > 0 && !visited.has(target)) {
+        const current = queue.shift() as string
+        for (const relationship of relationships) {
+          const next = relationship.fromTable === current ? relationship.toTable
+            : relationship.toTable === current ? relationship.fromTable
+            : null
+          if (next && !visited.has(next)) {
+            visited.add(next)
+            previous.set(next, { from: current, on: relationship })
+            queue.push(next)
+          }
+        }
+      }
+
+      if (!visited.has(target)) {
+        throw new Error(`No relationship connects "${base}" with "${target}"`)
+      }
+
+      const path: JoinStep[] = []
+      let step = target
+      while (!joined.has(step)) {
+        const link = previous.get(step)!
+        path.unshift({ table: step, on: link.on })
+        step = link.from
+      }
+      for (const join of path) {
+        joins.push(join)
+        joined.add(join.table)
+      }
+    }
+
+    return joins
+  }
+}
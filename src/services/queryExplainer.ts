@@ -0,0 +1,225 @@
+import { ColumnSchema, Workspace } from '../types'
+import { Expression, formatExpression, PlanStep, QueryResult, StepStatistics } from './sql'
+
+const COMPARISONS: Record<string, string> = {
+  '=': 'is',
+  '!=': 'is not',
+  '<': 'is below',
+  '<=': 'is at most',
+  '>': 'is above',
+  '>=': 'is at least'
+}
+
+// Aggregates read as a noun ("total Revenue") and as the step that computes them ("summed Revenue")
+const AGGREGATE_NOUNS: Record<string, string> = {
+  SUM: 'total',
+  AVG: 'average',
+  MIN: 'lowest',
+  MAX: 'highest',
+  MEDIAN: 'median',
+  STDDEV: 'standard deviation of'
+}
+const AGGREGATE_VERBS: Record<string, string> = {
+  SUM: 'summed',
+  AVG: 'averaged',
+  MIN: 'took the lowest',
+  MAX: 'took the highest',
+  MEDIAN: 'took the median',
+  STDDEV: 'measured the spread of'
+}
+const DATE_PARTS = new Set(['YEAR', 'QUARTER', 'MONTH', 'WEEK', 'DAY'])
+
+// Describes how a query arrived at its rows, one plain-language step per stage of the executed plan
+export class QueryExplainer {
+  static explain(result: QueryResult, workspace: Workspace): string[] {
+    const schemas = this.schemas(result, workspace)
+    const describe = (expression: Expression) => this.describe(expression, schemas)
+
+    return result.statistics.flatMap((statistic, index) => {
+      const previous = result.statistics[index - 1]?.step
+      return this.step(statistic, previous, describe, schemas)
+    })
+  }
+
+  // "Started from the 5,000 rows of sales, kept 1,240 of them where Region is North and summed Revenue."
+  static toSentence(steps: string[]): string {
+    if (steps.length === 0) return ''
+    const parts = steps.length > 1
+      ? [...steps.slice(0, -1), `and ${steps[steps.length - 1]}`]
+      : steps
+    const sentence = parts.join(steps.length > 2 ? ', ' : ' ')
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`
+  }
+
+  private static step(
+    { step, inputRows, outputRows }: StepStatistics,
+    previous: PlanStep | undefined,
+    describe: (expression: Expression) => string,
+    schemas: Map<string, ColumnSchema>
+  ): string[] {
+    switch (step.op) {
+      case 'scan':
+        return [`started from the ${this.rows(outputRows)} of ${step.table}`]
+      case 'join': {
+        const condition = step.condition
+        if (step.joinType === 'CROSS' || !condition) {
+          return [`paired every row with every row of ${step.table}, giving ${this.rows(outputRows)}`]
+        }
+        const keep = step.joinType === 'LEFT' ? ', keeping rows without a match' : ''
+        return [`matched them to ${step.table} ${this.joinKey(condition, describe)}${keep}, giving ${this.rows(outputRows)}`]
+      }
+      case 'filter':
+        return [outputRows === inputRows
+          ? `kept all ${this.rows(inputRows)} where ${describe(step.condition)}`
+          : `kept ${outputRows.toLocaleString()} of ${this.rows(inputRows)} where ${describe(step.condition)}`]
+      case 'aggregate': {
+        const measures = step.aggregates.map(aggregate => this.aggregateStep(aggregate, describe))
+        if (step.groupBy.length === 0) {
+          if (measures.length === 0) return []
+          // A bare count already says how many rows it covered
+          return measures.length === 1 && measures[0] === 'counted the rows'
+            ? [`counted the ${this.rows(inputRows)}`]
+            : [`${this.list(measures)} across ${this.rows(inputRows)}`]
+        }
+        const groups = `${outputRows.toLocaleString()} ${outputRows === 1 ? 'group' : 'groups'}`
+        return [
+          `grouped them by ${this.list(step.groupBy.map(describe))} into ${groups}`,
+          ...(measures.length > 0 ? [`${this.list(measures)} in each`] : [])
+        ]
+      }
+      case 'having':
+        return [`kept ${outputRows.toLocaleString()} of ${inputRows.toLocaleString()} groups where ${describe(step.condition)}`]
+      case 'distinct':
+        return outputRows === inputRows ? [] : [`removed duplicates, leaving ${this.rows(outputRows)}`]
+      case 'sort':
+        return [`sorted by ${this.list(step.keys.map(key => {
+          const temporal = this.isTemporal(key.expression, schemas)
+          const order = key.direction === 'DESC'
+            ? temporal ? 'latest to earliest' : 'highest to lowest'
+            : temporal ? 'earliest to latest' : 'lowest to highest'
+          return `${describe(key.expression)} from ${order}`
+        }))}`]
+      case 'limit': {
+        const skipped = step.offset > 0 ? `skipped the first ${step.offset.toLocaleString()}` : ''
+        // Nothing is left out when the limit is above the number of rows
+        if (step.limit === undefined || step.limit >= inputRows - step.offset) return skipped ? [skipped] : []
+        const ranked = previous?.op === 'sort' && previous.keys[0]?.direction === 'DESC' ? 'top' : 'first'
+        return [`${skipped ? `${skipped}, then ` : ''}kept the ${ranked} ${step.limit.toLocaleString()}`]
+      }
+      default:
+        return []
+    }
+  }
+
+  private static aggregateStep(aggregate: Expression, describe: (expression: Expression) => string): string {
+    if (aggregate.kind !== 'function') return `calculated ${describe(aggregate)}`
+    const [argument] = aggregate.args
+    if (aggregate.name === 'COUNT') {
+      if (!argument || argument.kind === 'star') return 'counted the rows'
+      return aggregate.distinct ? `counted the distinct ${describe(argument)} values` : `counted the ${describe(argument)} values`
+    }
+    const verb = AGGREGATE_VERBS[aggregate.name]
+    return verb && argument ? `${verb} ${describe(argument)}` : `calculated ${describe(aggregate)}`
+  }
+
+  private static joinKey(condition: Expression, describe: (expression: Expression) => string): string {
+    if (condition.kind === 'binary' && condition.operator === '=' &&
+      condition.left.kind === 'column' && condition.right.kind === 'column') {
+      const left = describe(condition.left)
+      const right = describe(condition.right)
+      return left === right ? `by ${left}` : `by linking ${left} to ${right}`
+    }
+    return `where ${describe(condition)}`
+  }
+
+  // Conditions and values in words, with columns called by their original headers
+  private static describe(expression: Expression, schemas: Map<string, ColumnSchema>): string {
+    const describe = (inner: Expression) => this.describe(inner, schemas)
+    switch (expression.kind) {
+      case 'column':
+        return schemas.get(expression.name.toLowerCase())?.label ?? expression.name
+      case 'literal':
+        // Numbers are shown as written, so years and codes do not gain thousands separators
+        return expression.value === null ? 'empty' : String(expression.value)
+      case 'star':
+        return 'all columns'
+      case 'binary':
+        if (expression.operator === 'AND' || expression.operator === 'OR') {
+          return `${describe(expression.left)} ${expression.operator.toLowerCase()} ${describe(expression.right)}`
+        }
+        return COMPARISONS[expression.operator]
+          ? `${describe(expression.left)} ${COMPARISONS[expression.operator]} ${describe(expression.right)}`
+          : `${describe(expression.left)} ${expression.operator} ${describe(expression.right)}`
+      case 'in': {
+        const values = this.list(expression.values.map(describe), 'or')
+        return `${describe(expression.operand)} ${expression.negated ? 'is not' : 'is'} ${values}`
+      }
+      case 'between':
+        return `${describe(expression.operand)} is ${expression.negated ? 'not ' : ''}between ${describe(expression.low)} and ${describe(expression.high)}`
+      case 'like': {
+        const pattern = expression.pattern.kind === 'literal' ? String(expression.pattern.value) : ''
+        const text = pattern.replace(/^%|%$/g, '')
+        const [how, negated] = /^%.+%$/.test(pattern) ? ['contains', 'does not contain']
+          : pattern.endsWith('%') ? ['starts with', 'does not start with']
+          : pattern.startsWith('%') ? ['ends with', 'does not end with']
+          : ['matches', 'does not match']
+        return `${describe(expression.operand)} ${expression.negated ? negated : how} "${text}"`
+      }
+      case 'isNull':
+        return `${describe(expression.operand)} is ${expression.negated ? 'not empty' : 'empty'}`
+      case 'unary':
+        return expression.operator === 'NOT' ? `not (${describe(expression.operand)})` : `-${describe(expression.operand)}`
+      case 'function':
+        return this.describeFunction(expression, describe)
+      default:
+        return formatExpression(expression)
+    }
+  }
+
+  private static describeFunction(
+    expression: Extract<Expression, { kind: 'function' }>,
+    describe: (expression: Expression) => string
+  ): string {
+    const [first, second] = expression.args
+    if (expression.name === 'COUNT') {
+      if (!first || first.kind === 'star') return 'number of rows'
+      return `number of ${expression.distinct ? 'distinct ' : ''}${describe(first)} values`
+    }
+    if (AGGREGATE_NOUNS[expression.name] && first) return `${AGGREGATE_NOUNS[expression.name]} ${describe(first)}`
+    if (DATE_PARTS.has(expression.name) && first) return `${expression.name.toLowerCase()} of ${describe(first)}`
+    if (expression.name === 'DATE_TRUNC' && first?.kind === 'literal' && second) {
+      return `${String(first.value).toLowerCase()} of ${describe(second)}`
+    }
+    // Rounding and case changes do not change what the value means
+    if (['ROUND', 'LOWER', 'UPPER', 'TRIM'].includes(expression.name) && first) return describe(first)
+    return formatExpression(expression)
+  }
+
+  private static isTemporal(expression: Expression, schemas: Map<string, ColumnSchema>): boolean {
+    if (expression.kind === 'function') return expression.name === 'DATE_TRUNC'
+    if (expression.kind !== 'column') return false
+    const schema = schemas.get(expression.name.toLowerCase())
+    return expression.name.toLowerCase() === 'period' || schema?.type === 'date' || schema?.type === 'datetime'
+  }
+
+  // Schemas of the columns of the queried tables, by lowercase name
+  private static schemas(result: QueryResult, workspace: Workspace): Map<string, ColumnSchema> {
+    const schemas = new Map<string, ColumnSchema>()
+    for (const step of result.plan.steps) {
+      if (step.op !== 'scan' && step.op !== 'join') continue
+      const table = workspace.tables.find(candidate => candidate.name.toLowerCase() === step.table.toLowerCase())
+      for (const schema of table?.schema ?? []) {
+        if (!schemas.has(schema.name.toLowerCase())) schemas.set(schema.name.toLowerCase(), schema)
+      }
+    }
+    return schemas
+  }
+
+  private static rows(count: number): string {
+    return `${count.toLocaleString()} ${count === 1 ? 'row' : 'rows'}`
+  }
+
+  private static list(items: string[], conjunction = 'and'): string {
+    return items.length > 1 ? `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}` : items.join('')
+  }
+}
@@ -0,0 +1,111 @@
+import { AnalysisResult, ChartData, ColumnSchema, DataTable, TimePeriod, Workspace } from '../types'
+import { SQLEngine } from './sql'
+import { TimeSeriesAnalyzer } from './timeSeries'
+
+const MAX_SUGGESTIONS = 4
+// Breakdowns by columns with more values than this are hard to read
+const MAX_BREAKDOWN_VALUES = 25
+const ADVERBS: Record<TimePeriod, string> = { day: 'daily', week: 'weekly', month: 'monthly', quarter: 'quarterly', year: 'yearly' }
+
+// Clickable questions phrased with the user's own column names
+export class QuestionSuggester {
+  // Starting points built from the column types of the loaded tables
+  static initial(workspace: Workspace, asked: string[] = []): string[] {
+    // Measures are the most interesting thing to ask about, so start from a table that has one
+    const table = workspace.tables.find(candidate => this.measures(candidate).length > 0) ?? workspace.tables[0]
+    if (!table) return []
+
+    const [measure, other] = this.measures(table)
+    const category = this.categories(table)[0]
+    const date = this.dates(table)[0]
+    const candidates: string[] = []
+
+    if (measure && category) candidates.push(`What is the average ${measure.label} by ${category.label}?`)
+    if (date) {
+      const period = this.period(date)
+      candidates.push(measure
+        ? `Show ${ADVERBS[period]} ${measure.label}`
+        : `How many records are there per ${period}?`)
+    }
+    if (category) candidates.push(`Show a breakdown by ${category.label}`)
+    if (measure && other) candidates.push(`Is there a correlation between ${measure.label} and ${other.label}?`)
+    if (measure) candidates.push(`Are there any outliers in ${measure.label}?`)
+    candidates.push('How many records are there?')
+
+    return this.pick(candidates, asked)
+  }
+
+  // Next steps for the answer just shown, topped up with starting questions
+  static followUps(result: AnalysisResult, workspace: Workspace, asked: string[] = []): string[] {
+    const context = result.context
+    if (!context || context.measures.length === 0) return this.initial(workspace, asked)
+
+    const tables = this.queriedTables(context.sql, workspace)
+    const shown = new Set(context.resultColumns.map(column => column.toLowerCase()))
+    const timeAxis = result.type === 'chart' ? (result.data as ChartData).timeAxis : undefined
+    const overTime = timeAxis !== undefined || shown.has('period')
+    const candidates: string[] = []
+
+    const categories = tables.flatMap(table => this.categories(table))
+      .filter(schema => !shown.has(schema.name.toLowerCase()))
+    for (const category of categories.slice(0, overTime ? 1 : 2)) {
+      candidates.push(`Break this down by ${category.label}`)
+    }
+
+    const dates = tables.flatMap(table => this.dates(table))
+    if (!overTime && dates.length > 0) {
+      // With several date columns the question names the one to use
+      candidates.push(dates.length > 1 ? `Show this over time by ${dates[0].label}` : 'Show this over time')
+    }
+    if (timeAxis) {
+      candidates.push(`Show this ${timeAxis} over ${timeAxis}`)
+      candidates.push('Show this as a running total')
+    }
+    if (context.filters.length > 0) candidates.push('Remove the filters')
+    if (!overTime && result.type === 'table' && context.groupBy.length > 0) candidates.push('Show this as a chart')
+
+    return this.pick([...candidates, ...this.initial(workspace)], asked)
+  }
+
+  private static queriedTables(sql: string, workspace: Workspace): DataTable[] {
+    try {
+      const statement = SQLEngine.parse(sql)
+      const names = [statement.from, ...statement.joins.map(join => join.table)]
+        .map(reference => reference?.name.toLowerCase())
+      return workspace.tables.filter(table => names.includes(table.name.toLowerCase()))
+    } catch {
+      return []
+    }
+  }
+
+  // Distinct suggestions that have not been asked yet
+  private static pick(candidates: string[], asked: string[]): string[] {
+    const seen = new Set(asked.map(question => question.trim().toLowerCase()))
+    return candidates.filter(candidate => {
+      const key = candidate.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    }).slice(0, MAX_SUGGESTIONS)
+  }
+
+  private static period(date: ColumnSchema): TimePeriod {
+    return date.min !== undefined && date.max !== undefined
+      ? TimeSeriesAnalyzer.autoPeriod(String(date.min), String(date.max))
+      : 'month'
+  }
+
+  private static measures(table: DataTable): ColumnSchema[] {
+    return table.schema.filter(schema => schema.type === 'numeric' || schema.type === 'integer')
+  }
+
+  private static categories(table: DataTable): ColumnSchema[] {
+    return table.schema.filter(schema =>
+      (schema.type === 'categorical' || schema.type === 'boolean') && schema.cardinality <= MAX_BREAKDOWN_VALUES
+    )
+  }
+
+  private static dates(table: DataTable): ColumnSchema[] {
+    return table.schema.filter(schema => schema.type === 'date' || schema.type === 'datetime')
+  }
+}
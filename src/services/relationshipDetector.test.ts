@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { makeTable } from '../test/fixtures'
+import { RelationshipDetector } from './relationshipDetector'
+import { SQLEngine } from './sql'
+
+const regions = makeTable('regions', ['North', 'South', 'East', 'West'].map((name, index) => ({ region: name, manager: `M${index}` })))
+const orders = (region: (name: string) => string) => makeTable('orders', Array.from({ length: 20 }, (_, index) => ({
+  order_id: index + 1,
+  region: region(['North', 'South', 'East', 'West'][index % 4]),
+  units: index
+})))
+
+describe('RelationshipDetector', () => {
+  it('links a column to the key of another table with the same values', () => {
+    expect(RelationshipDetector.detect([orders(name => name), regions])).toEqual([
+      expect.objectContaining({ fromTable: 'orders', fromColumn: 'region', toTable: 'regions', toColumn: 'region', overlap: 1 })
+    ])
+  })
+
+  it('does not link keys that a join would not match', () => {
+    const lowercase = orders(name => name.toLowerCase())
+    expect(RelationshipDetector.detect([lowercase, regions])).toEqual([])
+
+    const joined = SQLEngine.execute(
+      'SELECT orders.order_id FROM orders JOIN regions ON orders.region = regions.region',
+      [lowercase, regions].map(table => ({ name: table.name, columns: table.columns, rows: table.data }))
+    )
+    expect(joined.rows).toEqual([])
+  })
+})
@@ -0,0 +1,107 @@
+import { ColumnSchema, ColumnType, DataTable, TableRelationship } from '../types'
+import { joinKey } from './sql'
+
+const JOINABLE_TYPES: ColumnType[] = ['identifier', 'integer', 'categorical', 'text']
+const MIN_OVERLAP = 0.5
+const MIN_KEY_UNIQUENESS = 0.95
+const MAX_DISTINCT_SAMPLE = 1000
+
+export class RelationshipDetector {
+  // Finds likely foreign key -> key pairs between tables, best match per table pair
+  static detect(tables: DataTable[]): TableRelationship[] {
+    const best = new Map<string, TableRelationship>()
+
+    for (const from of tables) {
+      for (const to of tables) {
+        if (from === to) continue
+
+        for (const fromColumn of from.schema) {
+          for (const toColumn of to.schema) {
+            const candidate = this.scoreCandidate(from, fromColumn, to, toColumn)
+            if (!candidate) continue
+
+            const pairKey = [from.name, to.name].sort().join('|')
+            const current = best.get(pairKey)
+            if (!current || candidate.confidence > current.confidence) {
+              best.set(pairKey, candidate)
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(best.values()).sort((a, b) => b.confidence - a.confidence)
+  }
+
+  private static scoreCandidate(
+    from: DataTable,
+    fromColumn: ColumnSchema,
+    to: DataTable,
+    toColumn: ColumnSchema
+  ): TableRelationship | null {
+    if (!JOINABLE_TYPES.includes(fromColumn.type) || !JOINABLE_TYPES.includes(toColumn.type)) {
+      return null
+    }
+
+    // The referenced side has to behave like a key
+    const toPresent = to.data.length - toColumn.nullCount
+    if (toPresent === 0 || toColumn.cardinality / toPresent < MIN_KEY_UNIQUENESS) {
+      return null
+    }
+
+    const nameScore = this.nameScore(fromColumn.name, toColumn.name, to.name)
+    const bothIdentifiers = fromColumn.type === 'identifier' && toColumn.type === 'identifier'
+    if (nameScore === 0 && !bothIdentifiers) {
+      return null
+    }
+
+    const overlap = this.valueOverlap(from, fromColumn.name, to, toColumn.name)
+    if (overlap < MIN_OVERLAP || (nameScore === 0 && overlap < 0.9)) {
+      return null
+    }
+
+    return {
+      fromTable: from.name,
+      fromColumn: fromColumn.name,
+      toTable: to.name,
+      toColumn: toColumn.name,
+      overlap,
+      confidence: Math.round((overlap * 0.6 + nameScore * 0.4) * 100) / 100
+    }
+  }
+
+  private static nameScore(fromColumn: string, toColumn: string, toTable: string): number {
+    const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+    const from = normalize(fromColumn)
+    const to = normalize(toColumn)
+    const table = normalize(toTable).replace(/s$/, '')
+
+    // orders.customer_id -> customers.id
+    if (to === 'id' && (from === `${table}id` || from === `${table}key`)) return 1
+    if (from === to) return to === 'id' ? 0.3 : 1
+    if (from.length >= 3 && to.length >= 3 && (from.endsWith(to) || to.endsWith(from))) return 0.6
+    return 0
+  }
+
+  // Keys are compared the way a join matches them, so the overlap is the share of keys a join would find
+  private static valueOverlap(from: DataTable, fromColumn: string, to: DataTable, toColumn: string): number {
+    const targetValues = new Set(
+      to.data.map(row => row[toColumn]).filter(value => value !== null && value !== undefined).map(joinKey)
+    )
+
+    const sourceValues = new Set<string>()
+    for (const row of from.data) {
+      const value = row[fromColumn]
+      if (value === null || value === undefined) continue
+      sourceValues.add(joinKey(value))
+      if (sourceValues.size >= MAX_DISTINCT_SAMPLE) break
+    }
+    if (sourceValues.size === 0) return 0
+
+    let matches = 0
+    sourceValues.forEach(value => {
+      if (targetValues.has(value)) matches++
+    })
+    return matches / sourceValues.size
+  }
+}
@@ -0,0 +1,100 @@
+import { DataRow } from '../../types'
+
+export type LiteralValue = string | number | boolean | null
+
+// Any value a column or expression can hold while a query runs
+export type SQLValue = string | number | boolean | Date | null
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '||'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'AND' | 'OR'
+
+export type Expression =
+  | { kind: 'literal'; value: LiteralValue }
+  | { kind: 'column'; table?: string; name: string }
+  | { kind: 'star'; table?: string }
+  | { kind: 'unary'; operator: 'NOT' | '-'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'function'; name: string; args: Expression[]; distinct: boolean }
+  | { kind: 'in'; operand: Expression; values: Expression[]; negated: boolean }
+  | { kind: 'between'; operand: Expression; low: Expression; high: Expression; negated: boolean }
+  | { kind: 'like'; operand: Expression; pattern: Expression; negated: boolean }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'case'; operand?: Expression; branches: { when: Expression; then: Expression }[]; otherwise?: Expression }
+
+export interface SelectItem {
+  expression: Expression
+  alias?: string
+}
+
+export interface TableReference {
+  name: string
+  alias?: string
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'CROSS'
+
+export interface JoinClause {
+  type: JoinType
+  table: TableReference
+  on?: Expression
+}
+
+export interface OrderByItem {
+  expression: Expression
+  direction: 'ASC' | 'DESC'
+}
+
+export interface SelectStatement {
+  distinct: boolean
+  columns: SelectItem[]
+  from: TableReference | null
+  joins: JoinClause[]
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderByItem[]
+  limit?: number
+  offset?: number
+}
+
+export interface SQLTable {
+  name: string
+  columns: string[]
+  rows: DataRow[]
+}
+
+export interface OutputColumn {
+  name: string
+  expression: Expression
+}
+
+export type PlanStep =
+  | { op: 'scan'; table: string; alias: string }
+  | { op: 'join'; joinType: JoinType; table: string; alias: string; condition?: Expression }
+  | { op: 'filter'; condition: Expression }
+  | { op: 'aggregate'; groupBy: Expression[]; aggregates: Expression[] }
+  | { op: 'having'; condition: Expression }
+  | { op: 'project'; columns: OutputColumn[] }
+  | { op: 'distinct' }
+  | { op: 'sort'; keys: OrderByItem[] }
+  | { op: 'limit'; limit?: number; offset: number }
+
+export interface QueryPlan {
+  statement: SelectStatement
+  steps: PlanStep[]
+}
+
+export interface StepStatistics {
+  step: PlanStep
+  inputRows: number
+  outputRows: number
+}
+
+export interface QueryResult {
+  columns: string[]
+  rows: DataRow[]
+  plan: QueryPlan
+  statistics: StepStatistics[]
+}
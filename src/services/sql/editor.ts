@@ -0,0 +1,135 @@
+import { SQLTable } from './ast'
+import { quoteIdentifier } from './format'
+import { FUNCTION_NAMES } from './functions'
+import { KEYWORDS } from './tokenizer'
+
+export type SQLSpanKind = 'keyword' | 'function' | 'identifier' | 'number' | 'string' | 'operator' | 'comment' | 'text'
+
+export interface SQLSpan {
+  kind: SQLSpanKind
+  text: string
+}
+
+export interface SQLCompletion {
+  kind: 'column' | 'table' | 'function' | 'keyword'
+  label: string
+  // Text put in place of the word being typed
+  insert: string
+  // e.g. the table a column belongs to
+  detail?: string
+}
+
+export interface SQLCompletions {
+  // Range of the word being typed, replaced by the picked completion
+  from: number
+  to: number
+  items: SQLCompletion[]
+}
+
+const MAX_COMPLETIONS = 8
+
+// Unlike the tokenizer these accept unfinished text, since they run on every keystroke
+const SPAN_PATTERNS: [SQLSpanKind, RegExp][] = [
+  ['comment', /^--[^\n]*/],
+  ['string', /^'(?:[^']|'')*'?/],
+  ['identifier', /^"(?:[^"]|"")*"?|^`[^`]*`?|^\[[^\]]*\]?/],
+  ['number', /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/],
+  ['identifier', /^[A-Za-z_][A-Za-z0-9_]*/],
+  ['operator', /^(?:<=|>=|<>|!=|\|\||[=<>+\-*/%])/]
+]
+
+// Splits SQL into coloured spans that together spell out the text exactly
+export function highlightSQL(sql: string): SQLSpan[] {
+  const spans: SQLSpan[] = []
+  const push = (kind: SQLSpanKind, text: string) => {
+    const last = spans[spans.length - 1]
+    if (last && last.kind === kind && kind === 'text') last.text += text
+    else spans.push({ kind, text })
+  }
+
+  let i = 0
+  while (i < sql.length) {
+    const rest = sql.slice(i)
+    const found = SPAN_PATTERNS.map(([kind, pattern]) => [kind, rest.match(pattern)?.[0]] as const)
+      .find(([, text]) => text)
+    if (!found) {
+      push('text', sql[i])
+      i++
+      continue
+    }
+
+    const [kind, text] = found as [SQLSpanKind, string]
+    i += text.length
+    if (kind === 'identifier' && /^[A-Za-z_]/.test(text)) {
+      const upper = text.toUpperCase()
+      if (KEYWORDS.has(upper)) push('keyword', text)
+      else if (FUNCTION_NAMES.includes(upper) && /^\s*\(/.test(sql.slice(i))) push('function', text)
+      else push('identifier', text)
+    } else {
+      push(kind, text)
+    }
+  }
+  return spans
+}
+
+// Columns, tables, functions and keywords starting with the word before the cursor.
+// After "alias." only the columns of that table are offered.
+export function completeSQL(sql: string, cursor: number, tables: SQLTable[]): SQLCompletions {
+  const before = sql.slice(0, cursor)
+  const prefix = before.match(/[A-Za-z_][A-Za-z0-9_]*$/)?.[0] ?? ''
+  const from = cursor - prefix.length
+  const to = cursor + (sql.slice(cursor).match(/^[A-Za-z0-9_]*/)?.[0].length ?? 0)
+  const none = { from, to, items: [] }
+
+  // Nothing is offered inside quoted text or comments
+  const quotes = (before.match(/'/g) ?? []).length
+  if (quotes % 2 === 1 || /--[^\n]*$/.test(before)) return none
+
+  const qualifier = before.slice(0, from).match(/([A-Za-z_][A-Za-z0-9_]*|"[^"]+")\s*\.$/)?.[1]
+  if (!prefix && !qualifier) return none
+
+  const referenced = referencedTables(sql, tables)
+  const starts = (label: string) =>
+    label.toLowerCase().startsWith(prefix.toLowerCase()) && label.toLowerCase() !== prefix.toLowerCase()
+
+  const columnsOf = (table: SQLTable): SQLCompletion[] => table.columns
+    .filter(starts)
+    .map(column => ({ kind: 'column', label: column, insert: quoteIdentifier(column), detail: table.name }))
+
+  if (qualifier) {
+    const name = qualifier.replace(/^"|"$/g, '').toLowerCase()
+    const table = referenced.get(name) ?? tables.find(entry => entry.name.toLowerCase() === name)
+    return { from, to, items: table ? columnsOf(table).slice(0, MAX_COMPLETIONS) : [] }
+  }
+
+  // Columns of the tables already in the query come first
+  const queried = Array.from(new Set(referenced.values()))
+  const items: SQLCompletion[] = [
+    ...(queried.length > 0 ? queried : tables).flatMap(columnsOf),
+    ...tables
+      .filter(table => starts(table.name))
+      .map(table => ({ kind: 'table' as const, label: table.name, insert: quoteIdentifier(table.name) })),
+    ...FUNCTION_NAMES
+      .filter(starts)
+      .map(name => ({ kind: 'function' as const, label: name, insert: `${name}(` })),
+    ...Array.from(KEYWORDS)
+      .filter(starts)
+      .map(keyword => ({ kind: 'keyword' as const, label: keyword, insert: keyword }))
+  ]
+  return { from, to, items: items.slice(0, MAX_COMPLETIONS) }
+}
+
+// Tables named after FROM or JOIN, keyed by their alias and by their own name
+function referencedTables(sql: string, tables: SQLTable[]): Map<string, SQLTable> {
+  const referenced = new Map<string, SQLTable>()
+  const pattern = /\b(?:FROM|JOIN)\s+("[^"]+"|[A-Za-z_][A-Za-z0-9_]*)(?:\s+(?:AS\s+)?([A-Za-z_][A-Za-z0-9_]*))?/gi
+  for (const match of Array.from(sql.matchAll(pattern))) {
+    const name = match[1].replace(/^"|"$/g, '').toLowerCase()
+    const table = tables.find(entry => entry.name.toLowerCase() === name)
+    if (!table) continue
+    referenced.set(name, table)
+    const alias = match[2]
+    if (alias && !KEYWORDS.has(alias.toUpperCase())) referenced.set(alias.toLowerCase(), table)
+  }
+  return referenced
+}
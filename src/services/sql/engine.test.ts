@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { formatStatement, SQLEngine, SQLTable } from '.'
+
+const sales: SQLTable = {
+  name: 'sales',
+  columns: ['id', 'region', 'product_id', 'units', 'revenue', 'order_date'],
+  rows: [
+    { id: 1, region: 'North', product_id: 1, units: 2, revenue: 200, order_date: '2023-01-15' },
+    { id: 2, region: 'North', product_id: 2, units: 1, revenue: 50, order_date: '2023-02-03' },
+    { id: 3, region: 'South', product_id: 1, units: 4, revenue: 400, order_date: '2023-02-20' },
+    { id: 4, region: 'South', product_id: 3, units: null, revenue: null, order_date: '2023-04-01' },
+    { id: 5, region: 'East', product_id: 2, units: 3, revenue: '150', order_date: '2024-01-10' }
+  ]
+}
+
+const products: SQLTable = {
+  name: 'products',
+  columns: ['product_id', 'name'],
+  rows: [
+    { product_id: 1, name: 'Widget' },
+    { product_id: 2, name: 'Gadget' }
+  ]
+}
+
+const tables = [sales, products]
+const run = (sql: string) => SQLEngine.execute(sql, tables)
+
+describe('SQLEngine', () => {
+  it('filters, groups and sorts', () => {
+    const result = run(
+      "SELECT region, SUM(revenue) AS total FROM sales WHERE order_date >= '2023-01-01' GROUP BY region ORDER BY total DESC"
+    )
+    expect(result.columns).toEqual(['region', 'total'])
+    expect(result.rows).toEqual([
+      { region: 'South', total: 400 },
+      { region: 'North', total: 250 },
+      { region: 'East', total: 150 }
+    ])
+  })
+
+  it('skips empty values in aggregates and counts every row with COUNT(*)', () => {
+    const [row] = run('SELECT COUNT(*) AS rows, COUNT(units) AS counted, AVG(units) AS average FROM sales').rows
+    expect(row).toEqual({ rows: 5, counted: 4, average: 2.5 })
+  })
+
+  it('returns one row for an aggregate over no rows', () => {
+    const result = run("SELECT COUNT(*) AS n, SUM(revenue) AS total FROM sales WHERE region = 'West'")
+    expect(result.rows).toEqual([{ n: 0, total: null }])
+  })
+
+  it('compares numeric text as a number', () => {
+    const result = run('SELECT id FROM sales WHERE revenue > 100 ORDER BY id')
+    expect(result.rows.map(row => row.id)).toEqual([1, 3, 5])
+  })
+
+  it('treats comparisons with empty values as unknown', () => {
+    const result = run('SELECT id FROM sales WHERE NOT (units > 2) ORDER BY id')
+    expect(result.rows.map(row => row.id)).toEqual([1, 2])
+  })
+
+  it('keeps unmatched rows in a LEFT JOIN', () => {
+    const result = run(
+      'SELECT s.id, p.name FROM sales s LEFT JOIN products p ON s.product_id = p.product_id ORDER BY s.id'
+    )
+    expect(result.rows.map(row => row.name)).toEqual(['Widget', 'Gadget', 'Widget', null, 'Gadget'])
+  })
+
+  it('drops unmatched rows in an INNER JOIN', () => {
+    const result = run('SELECT COUNT(*) AS n FROM sales JOIN products ON sales.product_id = products.product_id')
+    expect(result.rows).toEqual([{ n: 4 }])
+  })
+
+  it('filters groups with HAVING on an alias', () => {
+    const result = run('SELECT region, COUNT(*) AS orders FROM sales GROUP BY region HAVING orders > 1 ORDER BY region')
+    expect(result.rows).toEqual([{ region: 'North', orders: 2 }, { region: 'South', orders: 2 }])
+  })
+
+  it('groups by a truncated date', () => {
+    const result = run(
+      "SELECT DATE_TRUNC('quarter', order_date) AS period, COUNT(*) AS orders FROM sales GROUP BY DATE_TRUNC('quarter', order_date) ORDER BY period"
+    )
+    expect(result.rows).toEqual([
+      { period: '2023-01-01', orders: 3 },
+      { period: '2023-04-01', orders: 1 },
+      { period: '2024-01-01', orders: 1 }
+    ])
+  })
+
+  it('applies OFFSET before LIMIT and keeps nulls last in either direction', () => {
+    const result = run('SELECT id FROM sales ORDER BY units DESC LIMIT 2 OFFSET 1')
+    expect(result.rows.map(row => row.id)).toEqual([5, 1])
+    expect(run('SELECT id FROM sales ORDER BY units').rows.map(row => row.id)).toEqual([2, 1, 5, 3, 4])
+  })
+
+  it('evaluates CASE, LIKE, IN and BETWEEN', () => {
+    const result = run(`
+      SELECT id, CASE WHEN units >= 3 THEN 'bulk' ELSE 'single' END AS size
+      FROM sales
+      WHERE region LIKE '%th' AND id IN (1, 2, 3) AND revenue BETWEEN 50 AND 300
+      ORDER BY id
+    `)
+    expect(result.rows).toEqual([{ id: 1, size: 'single' }, { id: 2, size: 'single' }])
+  })
+
+  it('records rows in and out of each plan step', () => {
+    const result = run("SELECT region FROM sales WHERE region = 'North'")
+    expect(result.statistics.map(({ step, inputRows, outputRows }) => [step.op, inputRows, outputRows])).toEqual([
+      ['scan', 0, 5],
+      ['filter', 5, 2],
+      ['project', 2, 2]
+    ])
+  })
+
+  describe('validate', () => {
+    it('accepts a query the tables can answer', () => {
+      expect(SQLEngine.validate('SELECT region FROM sales', tables)).toBeNull()
+    })
+
+    it.each([
+      ['SELECT region FROM orders', 'Unknown table "orders"'],
+      ['SELECT colour FROM sales', 'Unknown column "colour"'],
+      ['SELECT product_id FROM sales JOIN products ON sales.product_id = products.product_id', 'ambiguous'],
+      ['SELECT region FROM sales WHERE SUM(revenue) > 10', 'use HAVING instead'],
+      ['SELECT SUM(AVG(revenue)) FROM sales', 'cannot be nested'],
+      ['SELECT FOO(region) FROM sales', 'Unknown function FOO'],
+      ["SELECT DATE_TRUNC('fortnight', order_date) FROM sales", "Unknown DATE_TRUNC unit 'fortnight'"],
+      ['SELECT DATE_TRUNC(region, order_date) FROM sales', 'DATE_TRUNC expects a unit in quotes']
+    ])('reports a problem with %s', (sql, problem) => {
+      expect(SQLEngine.validate(sql, tables)).toContain(problem)
+    })
+
+    it('reports an unknown DATE_TRUNC unit even when no rows are read', () => {
+      const empty = { ...sales, rows: [] }
+      expect(() => SQLEngine.execute("SELECT DATE_TRUNC('fortnight', order_date) FROM sales", [empty]))
+        .toThrow("Unknown DATE_TRUNC unit 'fortnight'")
+    })
+  })
+
+  describe('formatStatement', () => {
+    it('prints a nested negation so it reads back as the same query', () => {
+      const sql = 'SELECT id, -(-units) AS units, -(-2) AS two FROM sales WHERE -(-id) < 3 ORDER BY id'
+      const formatted = formatStatement(SQLEngine.parse(sql))
+
+      expect(formatted).not.toContain('--')
+      expect(SQLEngine.parse(formatted)).toEqual(SQLEngine.parse(sql))
+      expect(run(formatted).rows).toEqual([{ id: 1, units: 2, two: 2 }, { id: 2, units: 1, two: 2 }])
+    })
+  })
+})
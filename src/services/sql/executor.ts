@@ -0,0 +1,326 @@
+import { DataRow } from '../../types'
+import { Expression, PlanStep, QueryPlan, QueryResult, SQLTable, SQLValue, StepStatistics } from './ast'
+import { AGGREGATE_FUNCTIONS, callScalarFunction, compareValues, computeAggregate, joinKey, sortCompare, toNumber } from './functions'
+import { formatExpression } from './format'
+
+interface Binding {
+  sources: Record<string, DataRow | null>
+  aggregates?: Record<string, SQLValue>
+  output?: DataRow
+}
+
+export class QueryExecutor {
+  static execute(plan: QueryPlan, tables: SQLTable[]): QueryResult {
+    const tablesByName = new Map(tables.map(table => [table.name.toLowerCase(), table]))
+    const statistics: StepStatistics[] = []
+
+    // A query without FROM evaluates its select list once
+    let bindings: Binding[] = plan.statement.from ? [] : [{ sources: {} }]
+    let columns: string[] = []
+
+    for (const step of plan.steps) {
+      const inputRows = bindings.length
+      bindings = this.runStep(step, bindings, tablesByName)
+      if (step.op === 'project') {
+        columns = step.columns.map(column => column.name)
+      }
+      statistics.push({ step, inputRows, outputRows: bindings.length })
+    }
+
+    return {
+      columns,
+      rows: bindings.map(binding => binding.output ?? {}),
+      plan,
+      statistics
+    }
+  }
+
+  private static runStep(step: PlanStep, bindings: Binding[], tables: Map<string, SQLTable>): Binding[] {
+    switch (step.op) {
+      case 'scan':
+        return this.table(tables, step.table).rows.map(row => ({ sources: { [step.alias]: row } }))
+
+      case 'join':
+        return this.join(bindings, this.table(tables, step.table), step.alias, step.joinType, step.condition)
+
+      case 'filter':
+      case 'having':
+        return bindings.filter(binding => this.isTrue(this.evaluate(step.condition, binding)))
+
+      case 'aggregate':
+        return this.aggregate(bindings, step.groupBy, step.aggregates)
+
+      case 'project':
+        return bindings.map(binding => {
+          const output: DataRow = {}
+          for (const column of step.columns) {
+            output[column.name] = this.evaluate(column.expression, binding)
+          }
+          return { ...binding, output }
+        })
+
+      case 'distinct': {
+        const seen = new Set<string>()
+        return bindings.filter(binding => {
+          const key = JSON.stringify(Object.values(binding.output ?? {}))
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+      }
+
+      case 'sort': {
+        const keyed = bindings.map(binding => ({
+          binding,
+          keys: step.keys.map(key => this.evaluate(key.expression, binding))
+        }))
+        keyed.sort((a, b) => {
+          for (let i = 0; i < step.keys.length; i++) {
+            const comparison = sortCompare(a.keys[i], b.keys[i])
+            if (comparison !== 0) {
+              const bothPresent = a.keys[i] !== null && a.keys[i] !== undefined && b.keys[i] !== null && b.keys[i] !== undefined
+              return step.keys[i].direction === 'DESC' && bothPresent ? -comparison : comparison
+            }
+          }
+          return 0
+        })
+        return keyed.map(entry => entry.binding)
+      }
+
+      case 'limit':
+        return bindings.slice(step.offset, step.limit === undefined ? undefined : step.offset + step.limit)
+    }
+  }
+
+  private static table(tables: Map<string, SQLTable>, name: string): SQLTable {
+    const table = tables.get(name.toLowerCase())
+    if (!table) {
+      throw new Error(`Unknown table "${name}"`)
+    }
+    return table
+  }
+
+  private static join(
+    bindings: Binding[],
+    table: SQLTable,
+    alias: string,
+    joinType: 'INNER' | 'LEFT' | 'CROSS',
+    condition?: Expression
+  ): Binding[] {
+    const result: Binding[] = []
+    const equiJoin = condition ? this.equiJoinColumns(condition, alias) : null
+
+    // Hash the right-hand table when the condition is a plain column equality
+    let index: Map<string, DataRow[]> | null = null
+    if (equiJoin) {
+      index = new Map()
+      for (const row of table.rows) {
+        const value = row[equiJoin.right]
+        if (value === null || value === undefined) continue
+        const key = joinKey(value)
+        const bucket = index.get(key)
+        if (bucket) bucket.push(row)
+        else index.set(key, [row])
+      }
+    }
+
+    for (const binding of bindings) {
+      let candidates = table.rows
+      if (index && equiJoin) {
+        const value = this.evaluate(equiJoin.left, binding)
+        candidates = value === null || value === undefined ? [] : index.get(joinKey(value)) ?? []
+      }
+
+      let matched = false
+      for (const row of candidates) {
+        const combined: Binding = { sources: { ...binding.sources, [alias]: row } }
+        if (!condition || this.isTrue(this.evaluate(condition, combined))) {
+          result.push(combined)
+          matched = true
+        }
+      }
+
+      if (!matched && joinType === 'LEFT') {
+        result.push({ sources: { ...binding.sources, [alias]: null } })
+      }
+    }
+
+    return result
+  }
+
+  private static equiJoinColumns(condition: Expression, alias: string): { left: Expression; right: string } | null {
+    if (condition.kind !== 'binary' || condition.operator !== '=') return null
+    const { left, right } = condition
+    if (left.kind !== 'column' || right.kind !== 'column') return null
+    if (right.table === alias && left.table !== alias) return { left, right: right.name }
+    if (left.table === alias && right.table !== alias) return { left: right, right: left.name }
+    return null
+  }
+
+  private static aggregate(bindings: Binding[], groupBy: Expression[], aggregates: Expression[]): Binding[] {
+    const groups = new Map<string, Binding[]>()
+
+    for (const binding of bindings) {
+      const key = JSON.stringify(groupBy.map(expression => this.evaluate(expression, binding) ?? null))
+      const group = groups.get(key)
+      if (group) group.push(binding)
+      else groups.set(key, [binding])
+    }
+
+    // Aggregates without GROUP BY always produce exactly one row
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', [])
+    }
+
+    return Array.from(groups.values()).map(group => {
+      const values: Record<string, SQLValue> = {}
+      for (const aggregate of aggregates) {
+        if (aggregate.kind !== 'function') continue
+        const argument = aggregate.args[0]
+        const inputs = argument.kind === 'star'
+          ? group.map(() => 1)
+          : group.map(binding => this.evaluate(argument, binding))
+        values[formatExpression(aggregate)] = computeAggregate(aggregate.name, inputs, aggregate.distinct)
+      }
+      return { sources: group[0]?.sources ?? {}, aggregates: values }
+    })
+  }
+
+  private static evaluate(expression: Expression, binding: Binding): SQLValue {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value
+
+      case 'column': {
+        const row = binding.sources[expression.table ?? '']
+        const value = row ? row[expression.name] : null
+        return value === undefined ? null : value
+      }
+
+      case 'star':
+        throw new Error('* cannot be used as a value')
+
+      case 'unary': {
+        const operand = this.evaluate(expression.operand, binding)
+        if (operand === null) return null
+        return expression.operator === 'NOT' ? !this.isTrue(operand) : this.negate(operand)
+      }
+
+      case 'binary':
+        return this.evaluateBinary(expression.operator, expression.left, expression.right, binding)
+
+      case 'function': {
+        if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+          const key = formatExpression(expression)
+          if (!binding.aggregates || !(key in binding.aggregates)) {
+            throw new Error(`Aggregate ${key} is not available here`)
+          }
+          return binding.aggregates[key]
+        }
+        return callScalarFunction(expression.name, expression.args.map(arg => this.evaluate(arg, binding)))
+      }
+
+      case 'in': {
+        const operand = this.evaluate(expression.operand, binding)
+        if (operand === null) return null
+        const found = expression.values.some(value => compareValues(operand, this.evaluate(value, binding)) === 0)
+        return expression.negated ? !found : found
+      }
+
+      case 'between': {
+        const operand = this.evaluate(expression.operand, binding)
+        const low = compareValues(operand, this.evaluate(expression.low, binding))
+        const high = compareValues(operand, this.evaluate(expression.high, binding))
+        if (low === null || high === null) return null
+        const inside = low >= 0 && high <= 0
+        return expression.negated ? !inside : inside
+      }
+
+      case 'like': {
+        const operand = this.evaluate(expression.operand, binding)
+        const pattern = this.evaluate(expression.pattern, binding)
+        if (operand === null || pattern === null) return null
+        const matches = this.likeToRegExp(String(pattern)).test(String(operand))
+        return expression.negated ? !matches : matches
+      }
+
+      case 'isNull': {
+        const value = this.evaluate(expression.operand, binding)
+        const isNull = value === null || value === undefined
+        return expression.negated ? !isNull : isNull
+      }
+
+      case 'case': {
+        const operand = expression.operand ? this.evaluate(expression.operand, binding) : undefined
+        for (const branch of expression.branches) {
+          const when = this.evaluate(branch.when, binding)
+          const matches = expression.operand ? compareValues(operand, when) === 0 : this.isTrue(when)
+          if (matches) return this.evaluate(branch.then, binding)
+        }
+        return expression.otherwise ? this.evaluate(expression.otherwise, binding) : null
+      }
+    }
+  }
+
+  private static evaluateBinary(operator: string, leftExpression: Expression, rightExpression: Expression, binding: Binding): SQLValue {
+    const left = this.evaluate(leftExpression, binding)
+
+    // Three-valued logic with short-circuiting
+    if (operator === 'AND' || operator === 'OR') {
+      const leftTruth = left === null ? null : this.isTrue(left)
+      if (operator === 'AND' && leftTruth === false) return false
+      if (operator === 'OR' && leftTruth === true) return true
+      const right = this.evaluate(rightExpression, binding)
+      const rightTruth = right === null ? null : this.isTrue(right)
+      if (operator === 'AND') return rightTruth === false ? false : leftTruth === null || rightTruth === null ? null : true
+      return rightTruth === true ? true : leftTruth === null || rightTruth === null ? null : false
+    }
+
+    const right = this.evaluate(rightExpression, binding)
+    if (left === null || right === null) return null
+
+    if (operator === '||') return `${left}${right}`
+
+    if (['=', '!=', '<', '<=', '>', '>='].includes(operator)) {
+      const comparison = compareValues(left, right)
+      if (comparison === null) return null
+      switch (operator) {
+        case '=': return comparison === 0
+        case '!=': return comparison !== 0
+        case '<': return comparison < 0
+        case '<=': return comparison <= 0
+        case '>': return comparison > 0
+        default: return comparison >= 0
+      }
+    }
+
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a === null || b === null) return null
+    switch (operator) {
+      case '+': return a + b
+      case '-': return a - b
+      case '*': return a * b
+      case '/': return b === 0 ? null : a / b
+      case '%': return b === 0 ? null : a % b
+      default: throw new Error(`Unknown operator ${operator}`)
+    }
+  }
+
+  private static negate(value: SQLValue): number | null {
+    const number = toNumber(value)
+    return number === null ? null : -number
+  }
+
+  private static isTrue(value: SQLValue): boolean {
+    return value === true || (typeof value === 'number' && value !== 0)
+  }
+
+  private static likeToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('')
+    return new RegExp(`^${source}$`, 'is')
+  }
+}
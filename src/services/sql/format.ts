@@ -0,0 +1,97 @@
+import { Expression, LiteralValue, SelectStatement, TableReference } from './ast'
+import { KEYWORDS } from './tokenizer'
+
+export function quoteIdentifier(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORDS.has(name.toUpperCase())) {
+    return name
+  }
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+export function formatLiteral(value: LiteralValue): string {
+  if (value === null) return 'NULL'
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  return String(value)
+}
+
+export function formatExpression(expression: Expression): string {
+  switch (expression.kind) {
+    case 'literal':
+      return formatLiteral(expression.value)
+    case 'column':
+      return expression.table
+        ? `${quoteIdentifier(expression.table)}.${quoteIdentifier(expression.name)}`
+        : quoteIdentifier(expression.name)
+    case 'star':
+      return expression.table ? `${quoteIdentifier(expression.table)}.*` : '*'
+    case 'unary':
+      return expression.operator === 'NOT'
+        ? `NOT ${wrap(expression.operand)}`
+        : `-${negatable(expression.operand)}`
+    case 'binary':
+      return `${wrap(expression.left)} ${expression.operator} ${wrap(expression.right)}`
+    case 'function':
+      return `${expression.name}(${expression.distinct ? 'DISTINCT ' : ''}${expression.args.map(formatExpression).join(', ')})`
+    case 'in':
+      return `${wrap(expression.operand)} ${expression.negated ? 'NOT IN' : 'IN'} (${expression.values.map(formatExpression).join(', ')})`
+    case 'between':
+      return `${wrap(expression.operand)} ${expression.negated ? 'NOT BETWEEN' : 'BETWEEN'} ${wrap(expression.low)} AND ${wrap(expression.high)}`
+    case 'like':
+      return `${wrap(expression.operand)} ${expression.negated ? 'NOT LIKE' : 'LIKE'} ${wrap(expression.pattern)}`
+    case 'isNull':
+      return `${wrap(expression.operand)} IS ${expression.negated ? 'NOT NULL' : 'NULL'}`
+    case 'case': {
+      const parts = ['CASE']
+      if (expression.operand) parts.push(formatExpression(expression.operand))
+      for (const branch of expression.branches) {
+        parts.push(`WHEN ${formatExpression(branch.when)} THEN ${formatExpression(branch.then)}`)
+      }
+      if (expression.otherwise) parts.push(`ELSE ${formatExpression(expression.otherwise)}`)
+      parts.push('END')
+      return parts.join(' ')
+    }
+  }
+}
+
+// Prints a parsed statement back as SQL, used when a query is rewritten rather than generated
+export function formatStatement(statement: SelectStatement): string {
+  const columns = statement.columns.map(item =>
+    item.alias ? `${formatExpression(item.expression)} AS ${quoteIdentifier(item.alias)}` : formatExpression(item.expression)
+  )
+  const parts = [`SELECT ${statement.distinct ? 'DISTINCT ' : ''}${columns.join(', ')}`]
+  if (statement.from) parts.push(`FROM ${formatTable(statement.from)}`)
+  for (const join of statement.joins) {
+    const on = join.on ? ` ON ${formatExpression(join.on)}` : ''
+    parts.push(`${join.type === 'INNER' ? 'JOIN' : `${join.type} JOIN`} ${formatTable(join.table)}${on}`)
+  }
+  if (statement.where) parts.push(`WHERE ${formatExpression(statement.where)}`)
+  if (statement.groupBy.length > 0) parts.push(`GROUP BY ${statement.groupBy.map(formatExpression).join(', ')}`)
+  if (statement.having) parts.push(`HAVING ${formatExpression(statement.having)}`)
+  if (statement.orderBy.length > 0) {
+    parts.push(`ORDER BY ${statement.orderBy.map(item => `${formatExpression(item.expression)} ${item.direction}`).join(', ')}`)
+  }
+  if (statement.limit !== undefined) parts.push(`LIMIT ${statement.limit}`)
+  if (statement.offset !== undefined) parts.push(`OFFSET ${statement.offset}`)
+  return parts.join(' ')
+}
+
+function formatTable(table: TableReference): string {
+  return table.alias ? `${quoteIdentifier(table.name)} ${quoteIdentifier(table.alias)}` : quoteIdentifier(table.name)
+}
+
+// A minus printed before another one would start a "--" comment, so such operands are parenthesised
+function negatable(expression: Expression): string {
+  const negative = expression.kind === 'unary' ||
+    (expression.kind === 'literal' && typeof expression.value === 'number' && expression.value < 0)
+  return negative ? `(${formatExpression(expression)})` : wrap(expression)
+}
+
+// Parenthesise compound operands so the printed SQL keeps the parsed precedence
+function wrap(expression: Expression): string {
+  const text = formatExpression(expression)
+  return expression.kind === 'binary' || expression.kind === 'between' || expression.kind === 'like' ||
+    expression.kind === 'in' || expression.kind === 'isNull'
+    ? `(${text})`
+    : text
+}
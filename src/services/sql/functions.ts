@@ -0,0 +1,175 @@
+import { SQLValue } from './ast'
+
+export const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'MEDIAN', 'STDDEV'])
+
+export function toNumber(value: SQLValue | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'number') return isNaN(value) ? null : value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  const parsed = Number(String(value).trim())
+  return isNaN(parsed) ? null : parsed
+}
+
+// Numeric-looking keys hash the same whether stored as text or number, matching compareValues
+export function joinKey(value: SQLValue): string {
+  const number = toNumber(value)
+  return number !== null ? `n:${number}` : `s:${String(value)}`
+}
+
+export function compareValues(a: SQLValue | undefined, b: SQLValue | undefined): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null
+
+  const numA = typeof a === 'number' ? a : null
+  const numB = typeof b === 'number' ? b : null
+  if (numA !== null && numB !== null) return numA - numB
+
+  // Mixed number/text comparisons are numeric when the text is a number
+  if (numA !== null || numB !== null) {
+    const left = toNumber(a)
+    const right = toNumber(b)
+    if (left !== null && right !== null) return left - right
+  }
+
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b)
+
+  const left = String(a)
+  const right = String(b)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+// Sort comparator that places nulls last regardless of direction
+export function sortCompare(a: SQLValue | undefined, b: SQLValue | undefined): number {
+  const aMissing = a === null || a === undefined
+  const bMissing = b === null || b === undefined
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1
+  return compareValues(a, b) ?? 0
+}
+
+export function computeAggregate(name: string, values: SQLValue[], distinct: boolean): SQLValue {
+  let present = values.filter((value): value is Exclude<SQLValue, null> => value !== null && value !== undefined)
+  if (distinct) {
+    present = Array.from(new Set(present))
+  }
+
+  if (name === 'COUNT') return present.length
+
+  if (name === 'MIN' || name === 'MAX') {
+    if (present.length === 0) return null
+    return present.reduce((best, value) => {
+      const comparison = compareValues(value, best) ?? 0
+      return (name === 'MIN' ? comparison < 0 : comparison > 0) ? value : best
+    })
+  }
+
+  const numbers = present.map(toNumber).filter((value): value is number => value !== null)
+  if (numbers.length === 0) return null
+
+  switch (name) {
+    case 'SUM':
+      return numbers.reduce((sum, value) => sum + value, 0)
+    case 'AVG':
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+    case 'MEDIAN': {
+      const sorted = [...numbers].sort((a, b) => a - b)
+      const middle = Math.floor(sorted.length / 2)
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+    }
+    case 'STDDEV': {
+      if (numbers.length < 2) return null
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+      const variance = numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (numbers.length - 1)
+      return Math.sqrt(variance)
+    }
+    default:
+      throw new Error(`Unknown aggregate function ${name}`)
+  }
+}
+
+const SCALAR_FUNCTIONS: Record<string, (...args: SQLValue[]) => SQLValue> = {
+  LOWER: value => value === null ? null : String(value).toLowerCase(),
+  UPPER: value => value === null ? null : String(value).toUpperCase(),
+  TRIM: value => value === null ? null : String(value).trim(),
+  LENGTH: value => value === null ? null : String(value).length,
+  SUBSTR: (value, start, length) => {
+    if (value === null) return null
+    const from = Math.max((toNumber(start) ?? 1) - 1, 0)
+    const count = toNumber(length)
+    return count === null ? String(value).substr(from) : String(value).substr(from, count)
+  },
+  CONCAT: (...values) => values.map(value => value ?? '').join(''),
+  COALESCE: (...values) => values.find(value => value !== null && value !== undefined) ?? null,
+  NULLIF: (a, b) => compareValues(a, b) === 0 ? null : a,
+  ABS: value => mapNumber(value, Math.abs),
+  FLOOR: value => mapNumber(value, Math.floor),
+  CEIL: value => mapNumber(value, Math.ceil),
+  ROUND: (value, digits) => mapNumber(value, n => {
+    const factor = Math.pow(10, toNumber(digits) ?? 0)
+    return Math.round(n * factor) / factor
+  }),
+  YEAR: value => datePart(value, date => date.getUTCFullYear()),
+  MONTH: value => datePart(value, date => date.getUTCMonth() + 1),
+  DAY: value => datePart(value, date => date.getUTCDate()),
+  QUARTER: value => datePart(value, date => Math.floor(date.getUTCMonth() / 3) + 1),
+  WEEK: value => datePart(value, isoWeek),
+  DATE_TRUNC: (unit, value) => {
+    const date = parseDate(value)
+    // The planner has already checked that the unit is known
+    return date ? truncateDate(date, String(unit).toLowerCase()) : null
+  }
+}
+
+// Every function a query can call, for completing names as they are typed
+export const FUNCTION_NAMES = [...Array.from(AGGREGATE_FUNCTIONS), ...Object.keys(SCALAR_FUNCTIONS)]
+
+export function isScalarFunction(name: string): boolean {
+  return name in SCALAR_FUNCTIONS
+}
+
+export function callScalarFunction(name: string, args: SQLValue[]): SQLValue {
+  const fn = SCALAR_FUNCTIONS[name]
+  if (!fn) {
+    throw new Error(`Unknown function ${name}`)
+  }
+  return fn(...args.map(arg => arg === undefined ? null : arg))
+}
+
+function mapNumber(value: SQLValue, fn: (n: number) => number): number | null {
+  const number = toNumber(value)
+  return number === null ? null : fn(number)
+}
+
+export function parseDate(value: SQLValue | undefined): Date | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null
+  const date = value instanceof Date ? value : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+function datePart(value: SQLValue, fn: (date: Date) => number): number | null {
+  const date = parseDate(value)
+  return date ? fn(date) : null
+}
+
+export const TRUNCATE_UNITS = ['day', 'week', 'month', 'quarter', 'year']
+
+// First day of the day, week (starting Monday), month, quarter or year, as YYYY-MM-DD
+export function truncateDate(date: Date, unit: string): string {
+  if (!TRUNCATE_UNITS.includes(unit)) {
+    throw new Error(`Unknown DATE_TRUNC unit '${unit}'`)
+  }
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  const day = date.getUTCDate()
+  const start = unit === 'day' ? Date.UTC(year, month, day)
+    : unit === 'week' ? Date.UTC(year, month, day - (date.getUTCDay() + 6) % 7)
+    : unit === 'month' ? Date.UTC(year, month, 1)
+    : unit === 'quarter' ? Date.UTC(year, month - month % 3, 1)
+    : Date.UTC(year, 0, 1)
+  return new Date(start).toISOString().slice(0, 10)
+}
+
+// ISO 8601 week number: weeks start on Monday and belong to the year their Thursday falls in
+function isoWeek(date: Date): number {
+  const thursday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 3 - (date.getUTCDay() + 6) % 7)
+  const yearStart = Date.UTC(new Date(thursday).getUTCFullYear(), 0, 1)
+  return Math.floor((thursday - yearStart) / (7 * 86400000)) + 1
+}
@@ -0,0 +1,36 @@
+import { QueryPlan, QueryResult, SelectStatement, SQLTable } from './ast'
+import { SQLParser } from './parser'
+import { QueryPlanner } from './planner'
+import { QueryExecutor } from './executor'
+
+export * from './ast'
+export { completeSQL, highlightSQL } from './editor'
+export type { SQLCompletion, SQLCompletions, SQLSpan, SQLSpanKind } from './editor'
+export { formatExpression, formatLiteral, formatStatement, quoteIdentifier } from './format'
+export { AGGREGATE_FUNCTIONS, joinKey, parseDate, truncateDate } from './functions'
+export { KEYWORDS } from './tokenizer'
+export { childExpressions, statementExpressions } from './walk'
+
+export class SQLEngine {
+  static parse(sql: string): SelectStatement {
+    return SQLParser.parse(sql)
+  }
+
+  static plan(sql: string, tables: SQLTable[]): QueryPlan {
+    return QueryPlanner.plan(SQLParser.parse(sql), tables)
+  }
+
+  // Returns a description of the first problem, or null when the query can run against the tables
+  static validate(sql: string, tables: SQLTable[]): string | null {
+    try {
+      this.plan(sql, tables)
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  static execute(sql: string, tables: SQLTable[]): QueryResult {
+    return QueryExecutor.execute(this.plan(sql, tables), tables)
+  }
+}
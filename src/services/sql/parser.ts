@@ -0,0 +1,424 @@
+import { tokenize, Token, TokenType } from './tokenizer'
+import {
+  BinaryOperator,
+  Expression,
+  JoinClause,
+  JoinType,
+  OrderByItem,
+  SelectItem,
+  SelectStatement,
+  TableReference
+} from './ast'
+
+export class SQLParser {
+  private tokens: Token[]
+  private index = 0
+
+  private constructor(sql: string) {
+    this.tokens = tokenize(sql)
+  }
+
+  static parse(sql: string): SelectStatement {
+    const parser = new SQLParser(sql)
+    const statement = parser.parseSelect()
+    parser.acceptPunctuation(';')
+    parser.expect('eof')
+    return statement
+  }
+
+  private parseSelect(): SelectStatement {
+    this.expectKeyword('SELECT')
+    const distinct = this.acceptKeyword('DISTINCT')
+
+    const columns: SelectItem[] = []
+    do {
+      columns.push(this.parseSelectItem())
+    } while (this.acceptPunctuation(','))
+
+    let from: TableReference | null = null
+    const joins: JoinClause[] = []
+    if (this.acceptKeyword('FROM')) {
+      from = this.parseTableReference()
+      let join: JoinClause | null
+      while ((join = this.parseJoin())) {
+        joins.push(join)
+      }
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined
+
+    const groupBy: Expression[] = []
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY')
+      do {
+        groupBy.push(this.parseExpression())
+      } while (this.acceptPunctuation(','))
+    }
+
+    const having = this.acceptKeyword('HAVING') ? this.parseExpression() : undefined
+
+    const orderBy: OrderByItem[] = []
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY')
+      do {
+        const expression = this.parseExpression()
+        let direction: 'ASC' | 'DESC' = 'ASC'
+        if (this.acceptKeyword('DESC')) {
+          direction = 'DESC'
+        } else {
+          this.acceptKeyword('ASC')
+        }
+        orderBy.push({ expression, direction })
+      } while (this.acceptPunctuation(','))
+    }
+
+    let limit: number | undefined
+    let offset: number | undefined
+    if (this.acceptKeyword('LIMIT')) {
+      limit = this.parseInteger()
+      if (this.acceptPunctuation(',')) {
+        // MySQL style "LIMIT offset, count"
+        offset = limit
+        limit = this.parseInteger()
+      }
+    }
+    if (this.acceptKeyword('OFFSET')) {
+      offset = this.parseInteger()
+    }
+
+    return { distinct, columns, from, joins, where, groupBy, having, orderBy, limit, offset }
+  }
+
+  private parseSelectItem(): SelectItem {
+    if (this.acceptOperator('*')) {
+      return { expression: { kind: 'star' } }
+    }
+
+    // table.*
+    if (this.peek().type === 'identifier' && this.peekAt(1).value === '.' && this.peekAt(2).value === '*') {
+      const table = this.next().value
+      this.next()
+      this.next()
+      return { expression: { kind: 'star', table } }
+    }
+
+    const expression = this.parseExpression()
+    return { expression, alias: this.parseAlias() }
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.acceptKeyword('AS')) {
+      return this.expectAliasName()
+    }
+    const token = this.peek()
+    if (token.type === 'identifier' || token.type === 'string') {
+      return this.next().value
+    }
+    return undefined
+  }
+
+  private expectAliasName(): string {
+    const token = this.next()
+    if (token.type !== 'identifier' && token.type !== 'string') {
+      throw this.error(token, 'an alias')
+    }
+    return token.value
+  }
+
+  private parseTableReference(): TableReference {
+    const token = this.next()
+    if (token.type !== 'identifier') {
+      throw this.error(token, 'a table name')
+    }
+    return { name: token.value, alias: this.parseAlias() }
+  }
+
+  private parseJoin(): JoinClause | null {
+    let type: JoinType
+    if (this.acceptKeyword('JOIN')) {
+      type = 'INNER'
+    } else if (this.acceptKeyword('INNER')) {
+      this.expectKeyword('JOIN')
+      type = 'INNER'
+    } else if (this.acceptKeyword('LEFT')) {
+      this.acceptKeyword('OUTER')
+      this.expectKeyword('JOIN')
+      type = 'LEFT'
+    } else if (this.acceptKeyword('CROSS')) {
+      this.expectKeyword('JOIN')
+      type = 'CROSS'
+    } else if (this.acceptPunctuation(',')) {
+      type = 'CROSS'
+    } else {
+      return null
+    }
+
+    const table = this.parseTableReference()
+    if (type === 'CROSS') {
+      return { type, table }
+    }
+    this.expectKeyword('ON')
+    return { type, table, on: this.parseExpression() }
+  }
+
+  private parseInteger(): number {
+    const token = this.next()
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      throw this.error(token, 'a whole number')
+    }
+    return parseInt(token.value, 10)
+  }
+
+  private parseExpression(): Expression {
+    return this.parseOr()
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', operator: 'OR', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot()
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', operator: 'AND', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive()
+
+    const token = this.peek()
+    if (token.type === 'operator' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.next()
+      return { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.parseAdditive() }
+    }
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT')
+      this.expectKeyword('NULL')
+      return { kind: 'isNull', operand: left, negated }
+    }
+
+    const negated = this.acceptKeyword('NOT')
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunctuation('(')
+      const values: Expression[] = []
+      do {
+        values.push(this.parseExpression())
+      } while (this.acceptPunctuation(','))
+      this.expectPunctuation(')')
+      return { kind: 'in', operand: left, values, negated }
+    }
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseAdditive()
+      this.expectKeyword('AND')
+      const high = this.parseAdditive()
+      return { kind: 'between', operand: left, low, high, negated }
+    }
+
+    if (this.acceptKeyword('LIKE')) {
+      return { kind: 'like', operand: left, pattern: this.parseAdditive(), negated }
+    }
+
+    if (negated) {
+      throw this.error(this.peek(), 'IN, BETWEEN or LIKE after NOT')
+    }
+
+    return left
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative()
+    let token = this.peek()
+    while (token.type === 'operator' && ['+', '-', '||'].includes(token.value)) {
+      this.next()
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.parseMultiplicative() }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary()
+    let token = this.peek()
+    while (token.type === 'operator' && ['*', '/', '%'].includes(token.value)) {
+      this.next()
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.parseUnary() }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseUnary(): Expression {
+    if (this.acceptOperator('-')) {
+      const operand = this.parseUnary()
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value }
+      }
+      return { kind: 'unary', operator: '-', operand }
+    }
+    if (this.acceptOperator('+')) {
+      return this.parseUnary()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        return { kind: 'literal', value: token.value }
+      case 'keyword':
+        if (token.value === 'NULL') return { kind: 'literal', value: null }
+        if (token.value === 'TRUE') return { kind: 'literal', value: true }
+        if (token.value === 'FALSE') return { kind: 'literal', value: false }
+        if (token.value === 'CASE') return this.parseCase()
+        // LEFT(...) is a function even though LEFT is a join keyword
+        if (token.value === 'LEFT' && this.peek().value === '(') return this.parseFunction(token.value)
+        throw this.error(token, 'an expression')
+      case 'identifier':
+        if (this.peek().value === '(') {
+          return this.parseFunction(token.value)
+        }
+        if (this.acceptPunctuation('.')) {
+          const column = this.next()
+          if (column.type !== 'identifier') {
+            throw this.error(column, 'a column name')
+          }
+          return { kind: 'column', table: token.value, name: column.value }
+        }
+        return { kind: 'column', name: token.value }
+      case 'punctuation':
+        if (token.value === '(') {
+          const expression = this.parseExpression()
+          this.expectPunctuation(')')
+          return expression
+        }
+        throw this.error(token, 'an expression')
+      default:
+        throw this.error(token, 'an expression')
+    }
+  }
+
+  private parseFunction(name: string): Expression {
+    this.expectPunctuation('(')
+    const upperName = name.toUpperCase()
+
+    if (this.acceptOperator('*')) {
+      this.expectPunctuation(')')
+      return { kind: 'function', name: upperName, args: [{ kind: 'star' }], distinct: false }
+    }
+
+    const distinct = this.acceptKeyword('DISTINCT')
+    const args: Expression[] = []
+    if (!this.acceptPunctuation(')')) {
+      do {
+        args.push(this.parseExpression())
+      } while (this.acceptPunctuation(','))
+      this.expectPunctuation(')')
+    }
+
+    return { kind: 'function', name: upperName, args, distinct }
+  }
+
+  private parseCase(): Expression {
+    const operand = this.peek().value === 'WHEN' && this.peek().type === 'keyword'
+      ? undefined
+      : this.parseExpression()
+
+    const branches: { when: Expression; then: Expression }[] = []
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression()
+      this.expectKeyword('THEN')
+      branches.push({ when, then: this.parseExpression() })
+    }
+    if (branches.length === 0) {
+      throw this.error(this.peek(), 'WHEN')
+    }
+
+    const otherwise = this.acceptKeyword('ELSE') ? this.parseExpression() : undefined
+    this.expectKeyword('END')
+    return { kind: 'case', operand, branches, otherwise }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== 'eof') this.index++
+    return token
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek()
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.peek()
+    if (token.type === 'operator' && token.value === value) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(this.peek(), keyword)
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      throw this.error(this.peek(), `'${value}'`)
+    }
+  }
+
+  private expect(type: TokenType): void {
+    if (this.peek().type !== type) {
+      throw this.error(this.peek(), type === 'eof' ? 'end of query' : type)
+    }
+  }
+
+  private error(token: Token, expected: string): Error {
+    const found = token.type === 'eof' ? 'end of query' : `'${token.value}'`
+    return new Error(`SQL syntax error at position ${token.position}: expected ${expected} but found ${found}`)
+  }
+}
@@ -0,0 +1,316 @@
+import { Expression, OrderByItem, OutputColumn, PlanStep, QueryPlan, SelectStatement, SQLTable } from './ast'
+import { AGGREGATE_FUNCTIONS, isScalarFunction, TRUNCATE_UNITS } from './functions'
+import { formatExpression } from './format'
+
+interface Source {
+  alias: string
+  table: SQLTable
+}
+
+export class QueryPlanner {
+  private sources: Source[] = []
+
+  private constructor(private statement: SelectStatement, private tables: SQLTable[]) {}
+
+  static plan(statement: SelectStatement, tables: SQLTable[]): QueryPlan {
+    return new QueryPlanner(statement, tables).build()
+  }
+
+  private build(): QueryPlan {
+    const statement = this.statement
+    const steps: PlanStep[] = []
+
+    if (statement.from) {
+      const source = this.addSource(statement.from.name, statement.from.alias)
+      steps.push({ op: 'scan', table: source.table.name, alias: source.alias })
+    }
+
+    for (const join of statement.joins) {
+      const source = this.addSource(join.table.name, join.table.alias)
+      steps.push({
+        op: 'join',
+        joinType: join.type,
+        table: source.table.name,
+        alias: source.alias,
+        condition: join.on ? this.resolve(join.on, 'JOIN condition') : undefined
+      })
+    }
+
+    if (statement.where) {
+      const condition = this.resolve(statement.where, 'WHERE')
+      if (this.collectAggregates(condition).length > 0) {
+        throw new Error('Aggregate functions are not allowed in WHERE; use HAVING instead')
+      }
+      steps.push({ op: 'filter', condition })
+    }
+
+    const columns = this.buildOutputColumns()
+
+    const groupBy = statement.groupBy.map(expression =>
+      this.resolve(this.substituteOutputReference(expression, columns, 'GROUP BY'), 'GROUP BY')
+    )
+    const having = statement.having
+      ? this.resolve(this.substituteOutputReference(statement.having, columns, 'HAVING'), 'HAVING')
+      : undefined
+    const orderBy: OrderByItem[] = statement.orderBy.map(item => ({
+      expression: this.resolve(this.substituteOutputReference(item.expression, columns, 'ORDER BY'), 'ORDER BY'),
+      direction: item.direction
+    }))
+
+    const aggregates = this.uniqueAggregates([
+      ...columns.map(column => column.expression),
+      ...(having ? [having] : []),
+      ...orderBy.map(item => item.expression)
+    ])
+
+    if (groupBy.length > 0 || aggregates.length > 0) {
+      steps.push({ op: 'aggregate', groupBy, aggregates })
+    }
+    if (having) {
+      if (groupBy.length === 0 && aggregates.length === 0) {
+        throw new Error('HAVING requires GROUP BY or an aggregate function')
+      }
+      steps.push({ op: 'having', condition: having })
+    }
+
+    steps.push({ op: 'project', columns })
+
+    if (statement.distinct) {
+      steps.push({ op: 'distinct' })
+    }
+    if (orderBy.length > 0) {
+      steps.push({ op: 'sort', keys: orderBy })
+    }
+    if (statement.limit !== undefined || statement.offset !== undefined) {
+      steps.push({ op: 'limit', limit: statement.limit, offset: statement.offset ?? 0 })
+    }
+
+    return { statement, steps }
+  }
+
+  private addSource(name: string, alias?: string): Source {
+    const table = this.tables.find(t => t.name.toLowerCase() === name.toLowerCase())
+    if (!table) {
+      const available = this.tables.map(t => t.name).join(', ')
+      throw new Error(`Unknown table "${name}". Available tables: ${available || 'none'}`)
+    }
+
+    const sourceAlias = alias ?? table.name
+    if (this.sources.some(source => source.alias.toLowerCase() === sourceAlias.toLowerCase())) {
+      throw new Error(`Table name or alias "${sourceAlias}" is used more than once`)
+    }
+
+    const source = { alias: sourceAlias, table }
+    this.sources.push(source)
+    return source
+  }
+
+  private buildOutputColumns(): OutputColumn[] {
+    const columns: OutputColumn[] = []
+    const usedNames = new Set<string>()
+
+    const addColumn = (name: string, expression: Expression) => {
+      let uniqueName = name
+      let suffix = 2
+      while (usedNames.has(uniqueName.toLowerCase())) {
+        uniqueName = `${name}_${suffix++}`
+      }
+      usedNames.add(uniqueName.toLowerCase())
+      columns.push({ name: uniqueName, expression })
+    }
+
+    for (const item of this.statement.columns) {
+      if (item.expression.kind === 'star') {
+        for (const source of this.sourcesFor(item.expression.table)) {
+          for (const column of source.table.columns) {
+            addColumn(column, { kind: 'column', table: source.alias, name: column })
+          }
+        }
+        continue
+      }
+
+      const expression = this.resolve(item.expression, 'SELECT')
+      const name = item.alias
+        ?? (expression.kind === 'column' ? expression.name : formatExpression(item.expression))
+      addColumn(name, expression)
+    }
+
+    return columns
+  }
+
+  private sourcesFor(table?: string): Source[] {
+    if (!table) {
+      if (this.sources.length === 0) {
+        throw new Error('SELECT * requires a FROM clause')
+      }
+      return this.sources
+    }
+    const source = this.findSource(table)
+    if (!source) {
+      throw new Error(`Unknown table or alias "${table}"`)
+    }
+    return [source]
+  }
+
+  private findSource(alias: string): Source | undefined {
+    return this.sources.find(source => source.alias.toLowerCase() === alias.toLowerCase())
+  }
+
+  // GROUP BY and ORDER BY may use select aliases or ordinals, HAVING only aliases.
+  // GROUP BY prefers a source column over an alias of the same name; the others prefer the alias.
+  private substituteOutputReference(expression: Expression, columns: OutputColumn[], clause: 'GROUP BY' | 'HAVING' | 'ORDER BY'): Expression {
+    const isTopLevelOrdinal = clause !== 'HAVING' && expression.kind === 'literal' && typeof expression.value === 'number'
+    if (isTopLevelOrdinal) {
+      const position = expression.value as number
+      const column = columns[position - 1]
+      if (!column) {
+        throw new Error(`Column position ${position} in ${clause} is out of range`)
+      }
+      return column.expression
+    }
+
+    if (expression.kind === 'column' && !expression.table) {
+      const column = columns.find(c => c.name.toLowerCase() === expression.name.toLowerCase())
+      if (column && (clause !== 'GROUP BY' || !this.isSourceColumn(expression.name))) {
+        return column.expression
+      }
+      return expression
+    }
+
+    const isAggregate = expression.kind === 'function' && AGGREGATE_FUNCTIONS.has(expression.name)
+    if (clause === 'GROUP BY' || isAggregate) {
+      return expression
+    }
+    return this.mapChildren(expression, child =>
+      child.kind === 'literal' ? child : this.substituteOutputReference(child, columns, clause)
+    )
+  }
+
+  private isSourceColumn(name: string): boolean {
+    return this.sources.some(source => this.findColumn(source, name) !== undefined)
+  }
+
+  private findColumn(source: Source, name: string): string | undefined {
+    return source.table.columns.find(column => column === name)
+      ?? source.table.columns.find(column => column.toLowerCase() === name.toLowerCase())
+  }
+
+  // Rewrites column references to their exact table alias and column name
+  private resolve(expression: Expression, clause: string): Expression {
+    if (expression.kind === 'column') {
+      return this.resolveColumn(expression.name, expression.table, clause)
+    }
+
+    if (expression.kind === 'star') {
+      throw new Error(`* is not allowed in ${clause}`)
+    }
+
+    if (expression.kind === 'function') {
+      if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+        const nested = expression.args.flatMap(arg => this.collectAggregates(arg))
+        if (nested.length > 0) {
+          throw new Error(`Aggregate functions cannot be nested in ${expression.name}`)
+        }
+        if (expression.name === 'COUNT' && expression.args.length === 1 && expression.args[0].kind === 'star') {
+          return expression
+        }
+        if (expression.args.length !== 1) {
+          throw new Error(`${expression.name} expects exactly one argument`)
+        }
+      } else if (!isScalarFunction(expression.name)) {
+        throw new Error(`Unknown function ${expression.name}`)
+      } else if (expression.name === 'DATE_TRUNC') {
+        this.checkTruncateUnit(expression.args[0])
+      }
+    }
+
+    return this.mapChildren(expression, child => this.resolve(child, clause))
+  }
+
+  // The unit is checked here so a mistyped one is reported before any row is read
+  private checkTruncateUnit(unit: Expression | undefined): void {
+    const units = TRUNCATE_UNITS.map(entry => `'${entry}'`).join(', ')
+    if (unit?.kind !== 'literal' || typeof unit.value !== 'string') {
+      throw new Error(`DATE_TRUNC expects a unit in quotes as its first argument: one of ${units}`)
+    }
+    if (!TRUNCATE_UNITS.includes(unit.value.toLowerCase())) {
+      throw new Error(`Unknown DATE_TRUNC unit '${unit.value}'; use one of ${units}`)
+    }
+  }
+
+  private resolveColumn(name: string, table: string | undefined, clause: string): Expression {
+    if (table) {
+      const source = this.findSource(table)
+      if (!source) {
+        throw new Error(`Unknown table or alias "${table}" in ${clause}`)
+      }
+      const column = this.findColumn(source, name)
+      if (!column) {
+        throw new Error(`Unknown column "${name}" in table "${source.table.name}"`)
+      }
+      return { kind: 'column', table: source.alias, name: column }
+    }
+
+    const matches = this.sources
+      .map(source => ({ source, column: this.findColumn(source, name) }))
+      .filter((match): match is { source: Source; column: string } => match.column !== undefined)
+
+    if (matches.length === 0) {
+      throw new Error(`Unknown column "${name}" in ${clause}`)
+    }
+    if (matches.length > 1) {
+      throw new Error(`Column "${name}" is ambiguous; qualify it with one of: ${matches.map(m => m.source.alias).join(', ')}`)
+    }
+    return { kind: 'column', table: matches[0].source.alias, name: matches[0].column }
+  }
+
+  private mapChildren(expression: Expression, fn: (child: Expression) => Expression): Expression {
+    switch (expression.kind) {
+      case 'unary':
+        return { ...expression, operand: fn(expression.operand) }
+      case 'binary':
+        return { ...expression, left: fn(expression.left), right: fn(expression.right) }
+      case 'function':
+        return { ...expression, args: expression.args.map(fn) }
+      case 'in':
+        return { ...expression, operand: fn(expression.operand), values: expression.values.map(fn) }
+      case 'between':
+        return { ...expression, operand: fn(expression.operand), low: fn(expression.low), high: fn(expression.high) }
+      case 'like':
+        return { ...expression, operand: fn(expression.operand), pattern: fn(expression.pattern) }
+      case 'isNull':
+        return { ...expression, operand: fn(expression.operand) }
+      case 'case':
+        return {
+          ...expression,
+          operand: expression.operand ? fn(expression.operand) : undefined,
+          branches: expression.branches.map(branch => ({ when: fn(branch.when), then: fn(branch.then) })),
+          otherwise: expression.otherwise ? fn(expression.otherwise) : undefined
+        }
+      default:
+        return expression
+    }
+  }
+
+  private collectAggregates(expression: Expression): Expression[] {
+    if (expression.kind === 'function' && AGGREGATE_FUNCTIONS.has(expression.name)) {
+      return [expression]
+    }
+    const found: Expression[] = []
+    this.mapChildren(expression, child => {
+      found.push(...this.collectAggregates(child))
+      return child
+    })
+    return found
+  }
+
+  private uniqueAggregates(expressions: Expression[]): Expression[] {
+    const byKey = new Map<string, Expression>()
+    for (const expression of expressions) {
+      for (const aggregate of this.collectAggregates(expression)) {
+        byKey.set(formatExpression(aggregate), aggregate)
+      }
+    }
+    return Array.from(byKey.values())
+  }
+}
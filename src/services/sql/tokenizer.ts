@@ -0,0 +1,108 @@
+export type TokenType = 'keyword' | 'identifier' | 'number' | 'string' | 'operator' | 'punctuation' | 'eof'
+
+export interface Token {
+  type: TokenType
+  value: string
+  position: number
+  end: number
+}
+
+export const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC',
+  'LIMIT', 'OFFSET', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN',
+  'TRUE', 'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'JOIN', 'INNER', 'LEFT',
+  'OUTER', 'CROSS', 'ON'
+])
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%']
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < sql.length) {
+    const char = sql[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Line comments
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      continue
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = sql.slice(i).match(/^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/)!
+      tokens.push({ type: 'number', value: match[0], position: i, end: i + match[0].length })
+      i += match[0].length
+      continue
+    }
+
+    if (char === "'") {
+      const { value, end } = readQuoted(sql, i, "'")
+      tokens.push({ type: 'string', value, position: i, end })
+      i = end
+      continue
+    }
+
+    if (char === '"' || char === '`' || char === '[') {
+      const { value, end } = readQuoted(sql, i, char === '[' ? ']' : char)
+      tokens.push({ type: 'identifier', value, position: i, end })
+      i = end
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!
+      const upper = match[0].toUpperCase()
+      const end = i + match[0].length
+      tokens.push(KEYWORDS.has(upper)
+        ? { type: 'keyword', value: upper, position: i, end }
+        : { type: 'identifier', value: match[0], position: i, end })
+      i += match[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator === '<>' ? '!=' : operator, position: i, end: i + operator.length })
+      i += operator.length
+      continue
+    }
+
+    if ('(),.;'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    throw new Error(`Unexpected character '${char}' at position ${i}`)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: sql.length, end: sql.length })
+  return tokens
+}
+
+function readQuoted(sql: string, start: number, closing: string): { value: string; end: number } {
+  let value = ''
+  let i = start + 1
+
+  while (i < sql.length) {
+    if (sql[i] === closing) {
+      // A doubled closing quote is an escaped quote
+      if (sql[i + 1] === closing && closing !== ']') {
+        value += closing
+        i += 2
+        continue
+      }
+      return { value, end: i + 1 }
+    }
+    value += sql[i]
+    i++
+  }
+
+  throw new Error(`Unterminated quoted text starting at position ${start}`)
+}
@@ -0,0 +1,47 @@
+import { Expression, SelectStatement } from './ast'
+
+export function childExpressions(expression: Expression): Expression[] {
+  switch (expression.kind) {
+    case 'unary':
+      return [expression.operand]
+    case 'binary':
+      return [expression.left, expression.right]
+    case 'function':
+      return expression.args
+    case 'in':
+      return [expression.operand, ...expression.values]
+    case 'between':
+      return [expression.operand, expression.low, expression.high]
+    case 'like':
+      return [expression.operand, expression.pattern]
+    case 'isNull':
+      return [expression.operand]
+    case 'case':
+      return [
+        ...(expression.operand ? [expression.operand] : []),
+        ...expression.branches.flatMap(branch => [branch.when, branch.then]),
+        ...(expression.otherwise ? [expression.otherwise] : [])
+      ]
+    default:
+      return []
+  }
+}
+
+// Every expression in the statement, each parent before its children
+export function statementExpressions(statement: SelectStatement): Expression[] {
+  const roots = [
+    ...statement.columns.map(item => item.expression),
+    ...statement.joins.flatMap(join => join.on ? [join.on] : []),
+    ...(statement.where ? [statement.where] : []),
+    ...statement.groupBy,
+    ...(statement.having ? [statement.having] : []),
+    ...statement.orderBy.map(item => item.expression)
+  ]
+  const all: Expression[] = []
+  const visit = (expression: Expression) => {
+    all.push(expression)
+    childExpressions(expression).forEach(visit)
+  }
+  roots.forEach(visit)
+  return all
+}
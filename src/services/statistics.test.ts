@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { Statistics } from './statistics'
+
+describe('Statistics', () => {
+  describe('tTestPValue', () => {
+    it.each([
+      [0, 10, 1],
+      [1, 1, 0.5],
+      [2, 10, 0.0734],
+      [2.228, 10, 0.05],
+      [2.042, 30, 0.05],
+      [-3.169, 10, 0.01],
+      [1.96, 1000, 0.0503]
+    ])('gives the two-sided p-value of t = %s with %s degrees of freedom', (t, degreesOfFreedom, p) => {
+      expect(Statistics.tTestPValue(t, degreesOfFreedom)).toBeCloseTo(p, 4)
+    })
+
+    it('is zero for an infinite t', () => {
+      expect(Statistics.tTestPValue(Infinity, 5)).toBe(0)
+    })
+  })
+
+  it('computes the sample standard deviation and interpolated quantiles', () => {
+    expect(Statistics.stddev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7), 10)
+    expect(Statistics.stddev([3])).toBe(0)
+    expect(Statistics.quantile([1, 2, 3, 4], 0.25)).toBe(1.75)
+    expect(Statistics.quantile([1, 2, 3, 4], 1)).toBe(4)
+  })
+
+  describe('linearTrend', () => {
+    it('fits a line and tests its slope', () => {
+      const trend = Statistics.linearTrend([0, 1, 2, 3, 4], [1, 3, 2, 5, 4])
+      expect(trend?.slope).toBeCloseTo(0.8, 10)
+      expect(trend?.intercept).toBeCloseTo(1.4, 10)
+      expect(trend?.rSquared).toBeCloseTo(0.64, 10)
+      expect(trend?.pValue).toBeCloseTo(0.1041, 4)
+    })
+
+    it('gives a p-value of zero for points on a line and needs three points', () => {
+      expect(Statistics.linearTrend([1, 2, 3], [2, 4, 6])).toMatchObject({ slope: 2, rSquared: 1, pValue: 0 })
+      expect(Statistics.linearTrend([1, 2], [2, 4])).toBeNull()
+      expect(Statistics.linearTrend([1, 1, 1], [2, 4, 6])).toBeNull()
+    })
+  })
+
+  describe('correlation', () => {
+    it('tests the Pearson coefficient', () => {
+      const result = Statistics.correlation([0, 1, 2, 3, 4], [1, 3, 2, 5, 4])
+      expect(result?.pearson).toBeCloseTo(0.8, 10)
+      expect(result?.pValue).toBeCloseTo(0.1041, 4)
+    })
+
+    it('ranks tied values by their average rank for Spearman', () => {
+      expect(Statistics.correlation([1, 2, 2, 3], [1, 2, 3, 4])?.spearman).toBeCloseTo(4.5 / Math.sqrt(4.5 * 5), 10)
+    })
+
+    it('gives a perfect Spearman coefficient for a curved but steady relationship', () => {
+      const xs = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+      const result = Statistics.correlation(xs, xs.map(x => x ** 4))
+      expect(result?.spearman).toBeCloseTo(1, 10)
+      expect(result?.pearson).toBeLessThan(0.95)
+    })
+
+    it('is null for a constant column', () => {
+      expect(Statistics.correlation([1, 2, 3], [5, 5, 5])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,169 @@
+export interface LinearTrend {
+  slope: number
+  intercept: number
+  rSquared: number
+  // Two-sided p-value of the slope differing from zero
+  pValue: number
+  count: number
+}
+
+export interface CorrelationResult {
+  pearson: number
+  spearman: number
+  // Two-sided p-value of the Pearson coefficient
+  pValue: number
+  count: number
+}
+
+const BETA_ITERATIONS = 200
+const BETA_EPSILON = 3e-14
+const LANCZOS = [
+  76.18009172947146, -86.50532032941677, 24.01409824083091,
+  -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+]
+
+// Descriptive statistics and significance tests used by the insight engine
+export class Statistics {
+  static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+  }
+
+  // Sample standard deviation
+  static stddev(values: number[]): number {
+    if (values.length < 2) return 0
+    const mean = this.mean(values)
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1))
+  }
+
+  // Linearly interpolated quantile of values sorted ascending
+  static quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q
+    const base = Math.floor(position)
+    const next = sorted[Math.min(base + 1, sorted.length - 1)]
+    return sorted[base] + (position - base) * (next - sorted[base])
+  }
+
+  // Least-squares line through the points with a t-test on the slope; null with fewer than three points
+  static linearTrend(xs: number[], ys: number[]): LinearTrend | null {
+    const count = xs.length
+    if (count < 3) return null
+    const meanX = this.mean(xs)
+    const meanY = this.mean(ys)
+    let sxx = 0
+    let sxy = 0
+    let syy = 0
+    for (let i = 0; i < count; i++) {
+      sxx += (xs[i] - meanX) ** 2
+      sxy += (xs[i] - meanX) * (ys[i] - meanY)
+      syy += (ys[i] - meanY) ** 2
+    }
+    if (sxx === 0) return null
+
+    const slope = sxy / sxx
+    const intercept = meanY - slope * meanX
+    const residual = Math.max(syy - slope * sxy, 0)
+    const rSquared = syy === 0 ? 1 : 1 - residual / syy
+    const standardError = Math.sqrt(residual / (count - 2) / sxx)
+    const pValue = standardError === 0 ? 0 : this.tTestPValue(slope / standardError, count - 2)
+    return { slope, intercept, rSquared, pValue, count }
+  }
+
+  static correlation(xs: number[], ys: number[]): CorrelationResult | null {
+    const count = xs.length
+    if (count < 3) return null
+    const pearson = this.pearson(xs, ys)
+    if (pearson === null) return null
+    const spearman = this.pearson(this.ranks(xs), this.ranks(ys)) ?? 0
+    const t = Math.abs(pearson) >= 1 ? Infinity : pearson * Math.sqrt((count - 2) / (1 - pearson ** 2))
+    return { pearson, spearman, pValue: this.tTestPValue(t, count - 2), count }
+  }
+
+  // Two-sided p-value of a Student t statistic
+  static tTestPValue(t: number, degreesOfFreedom: number): number {
+    if (!isFinite(t)) return 0
+    return this.incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5)
+  }
+
+  private static pearson(xs: number[], ys: number[]): number | null {
+    const meanX = this.mean(xs)
+    const meanY = this.mean(ys)
+    let sxx = 0
+    let syy = 0
+    let sxy = 0
+    for (let i = 0; i < xs.length; i++) {
+      sxx += (xs[i] - meanX) ** 2
+      syy += (ys[i] - meanY) ** 2
+      sxy += (xs[i] - meanX) * (ys[i] - meanY)
+    }
+    if (sxx === 0 || syy === 0) return null
+    return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)))
+  }
+
+  // Ranks starting at 1, with tied values sharing their average rank
+  private static ranks(values: number[]): number[] {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+    const ranks = new Array<number>(values.length)
+    for (let start = 0; start < order.length;) {
+      let end = start
+      while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+      const rank = (start + end) / 2 + 1
+      for (let i = start; i <= end; i++) ranks[order[i].index] = rank
+      start = end + 1
+    }
+    return ranks
+  }
+
+  // Regularized incomplete beta function I_x(a, b)
+  private static incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+    const front = Math.exp(
+      this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+    )
+    // The continued fraction converges quickly on this side of the mean; use symmetry otherwise
+    return x < (a + 1) / (a + b + 2)
+      ? front * this.betaFraction(x, a, b) / a
+      : 1 - front * this.betaFraction(1 - x, b, a) / b
+  }
+
+  // Continued fraction for the incomplete beta function, evaluated with Lentz's method
+  private static betaFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-300
+    let c = 1
+    let d = 1 - (a + b) * x / (a + 1)
+    if (Math.abs(d) < tiny) d = tiny
+    d = 1 / d
+    let result = d
+    for (let m = 1; m <= BETA_ITERATIONS; m++) {
+      const m2 = 2 * m
+      let term = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+      d = 1 + term * d
+      if (Math.abs(d) < tiny) d = tiny
+      c = 1 + term / c
+      if (Math.abs(c) < tiny) c = tiny
+      d = 1 / d
+      result *= d * c
+
+      term = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+      d = 1 + term * d
+      if (Math.abs(d) < tiny) d = tiny
+      c = 1 + term / c
+      if (Math.abs(c) < tiny) c = tiny
+      d = 1 / d
+      const delta = d * c
+      result *= delta
+      if (Math.abs(delta - 1) < BETA_EPSILON) break
+    }
+    return result
+  }
+
+  // Lanczos approximation of ln Γ(x)
+  private static logGamma(x: number): number {
+    let y = x
+    const base = x + 5.5
+    const tmp = base - (x + 0.5) * Math.log(base)
+    let series = 1.000000000190015
+    for (const coefficient of LANCZOS) series += coefficient / ++y
+    return -tmp + Math.log(2.5066282746310005 * series / x)
+  }
+}
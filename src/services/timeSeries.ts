@@ -0,0 +1,342 @@
+import { ChartData, ChartSeries, DataRow, TimePeriod } from '../types'
+import { ChartBuilder } from './chartBuilder'
+import { parseDate, truncateDate } from './sql'
+
+export type TimeSeriesTransform = 'change' | 'year_over_year' | 'cumulative' | 'moving_average'
+
+export interface TimeSeriesIntent {
+  // Left out when the question only asks for a trend; the span of the data then decides
+  period?: TimePeriod
+  transform?: TimeSeriesTransform
+  window?: number
+}
+
+interface SeriesOptions {
+  labels: Record<string, string>
+  // Counts and sums fill empty periods with zero; averages and extremes leave gaps
+  additive: boolean
+}
+
+interface Point {
+  date: string
+  value: number | null
+}
+
+const PERIOD_PATTERNS: [TimePeriod, RegExp][] = [
+  ['day', /\b(daily|per day|by day|each day|day by day|day[ -]over[ -]day)\b/],
+  ['week', /\b(weekly|per week|by week|each week|week[ -]over[ -]week|wow)\b/],
+  ['month', /\b(monthly|per month|by month|each month|month[ -]over[ -]month|mom)\b/],
+  ['quarter', /\b(quarterly|per quarter|by quarter|each quarter|quarter[ -]over[ -]quarter|qoq)\b/],
+  ['year', /\b(yearly|annual|annually|per year|by year|each year)\b/]
+]
+const TREND_PATTERN = /\b(trends?|trending|over time|timeline|time series|evolution|history|historical)\b/
+const YEAR_OVER_YEAR_PATTERN = /\b(year[ -]over[ -]year|yoy|vs\.? (the )?(previous|last|prior) year)\b/
+const CHANGE_PATTERN = /\b(day|week|month|quarter)[ -]over[ -]\1\b|\b(wow|mom|qoq|growth|change|increase|decrease)\b/
+const CUMULATIVE_PATTERN = /\b(cumulative|running total|to date|ytd|accumulated)\b/
+const MOVING_AVERAGE_PATTERN = /\b(moving|rolling|trailing)\s+(average|avg|mean)\b/
+const WINDOW_PATTERN = /\b(\d+)[ -](day|week|month|quarter|year|period)s?\b/
+
+const DEFAULT_WINDOWS: Record<TimePeriod, number> = { day: 7, week: 4, month: 3, quarter: 4, year: 3 }
+// Data spanning up to this many days is shown per day, per month, per quarter, else per year
+const AUTO_PERIOD_LIMITS: [TimePeriod, number][] = [['day', 92], ['month', 3 * 366], ['quarter', 10 * 366]]
+const PERIOD_NAMES: Record<TimePeriod, string> = { day: 'Day', week: 'Week', month: 'Month', quarter: 'Quarter', year: 'Year' }
+const ADVERBS: Record<TimePeriod, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly', quarter: 'Quarterly', year: 'Yearly' }
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+const DAY_MS = 24 * 60 * 60 * 1000
+// Stacked series over more periods than this are drawn as areas, which stay readable when bars get thin
+const MAX_BAR_PERIODS = 24
+
+// Date-aware analysis: periods, period-over-period change, running totals and moving averages
+export class TimeSeriesAnalyzer {
+  static detect(question: string): TimeSeriesIntent | null {
+    const lowercaseQuestion = question.toLowerCase()
+    const period = PERIOD_PATTERNS.find(([, pattern]) => pattern.test(lowercaseQuestion))?.[0]
+    const windowMatch = lowercaseQuestion.match(WINDOW_PATTERN)
+
+    let transform: TimeSeriesTransform | undefined
+    if (MOVING_AVERAGE_PATTERN.test(lowercaseQuestion)) transform = 'moving_average'
+    else if (CUMULATIVE_PATTERN.test(lowercaseQuestion)) transform = 'cumulative'
+    else if (YEAR_OVER_YEAR_PATTERN.test(lowercaseQuestion)) transform = 'year_over_year'
+    else if ((period || TREND_PATTERN.test(lowercaseQuestion)) && CHANGE_PATTERN.test(lowercaseQuestion)) transform = 'change'
+
+    if (!period && !transform && !TREND_PATTERN.test(lowercaseQuestion)) return null
+
+    const intent: TimeSeriesIntent = {}
+    // "7-day moving average" sets both the window and the period
+    const windowPeriod = windowMatch && windowMatch[2] !== 'period' ? windowMatch[2] as TimePeriod : undefined
+    const resolvedPeriod = period ?? (transform === 'moving_average' ? windowPeriod : undefined) ??
+      (transform === 'year_over_year' ? 'year' : undefined)
+    if (resolvedPeriod) intent.period = resolvedPeriod
+    if (transform) intent.transform = transform
+    if (transform === 'moving_average' && windowMatch) intent.window = Number(windowMatch[1])
+    return intent
+  }
+
+  // Picks a period that gives a readable number of points for the dates' span
+  static autoPeriod(first: string, last: string): TimePeriod {
+    const start = parseDate(first)
+    const end = parseDate(last)
+    if (!start || !end) return 'month'
+    const spanDays = (end.getTime() - start.getTime()) / DAY_MS
+    return AUTO_PERIOD_LIMITS.find(([, limit]) => spanDays <= limit)?.[0] ?? 'year'
+  }
+
+  // Builds a line chart from rows holding one date column and one numeric column, or a multi-series chart
+  // from several numeric columns or one split by a category column; null for other shapes
+  static toChart(rows: DataRow[], intent: TimeSeriesIntent, options: SeriesOptions): ChartData | null {
+    if (rows.length === 0) return null
+    const columns = Object.keys(rows[0])
+    if (columns.length > 2) return this.multiSeriesChart(rows, intent, options)
+    if (columns.length !== 2) return null
+
+    const dateKey = columns.find(key => rows.every(row => row[key] === null || this.isDateValue(row[key])))
+    const valueKey = columns.find(key => key !== dateKey && rows.every(row => row[key] === null || typeof row[key] === 'number'))
+    if (!dateKey || !valueKey) return null
+
+    const dated = rows
+      .filter(row => row[dateKey] !== null)
+      .map(row => ({ date: parseDate(row[dateKey]) as Date, value: row[valueKey] as number | null }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+    if (dated.length === 0) return null
+
+    const period = intent.period ??
+      this.autoPeriod(dated[0].date.toISOString(), dated[dated.length - 1].date.toISOString())
+    const points = this.resample(dated, period, options.additive)
+    const measure = options.labels[valueKey] ?? valueKey
+    const measureName = measure.charAt(0).toUpperCase() + measure.slice(1)
+    const range = `${this.formatPeriod(points[0].date, period)} to ${this.formatPeriod(points[points.length - 1].date, period)}`
+
+    const data = points.map(point => ({
+      name: this.formatPeriod(point.date, period),
+      date: point.date,
+      value: point.value
+    }))
+    let series: ChartSeries[] = [{ key: 'value', name: measureName }]
+    let yAxis = measureName
+    let title = `${measureName} by ${PERIOD_NAMES[period].toLowerCase()}`
+    let description = `${ADVERBS[period]} ${measure} from ${range}`
+
+    switch (intent.transform) {
+      case 'change':
+      case 'year_over_year': {
+        const previous = intent.transform === 'change'
+          ? (index: number) => points[index - 1]
+          : this.sameTimeLastYear(points, period)
+        const reference = intent.transform === 'change' ? `previous ${PERIOD_NAMES[period].toLowerCase()}` : 'a year earlier'
+        data.forEach((point, index) => {
+          Object.assign(point, { change: this.percentChange(points[index].value, previous(index)?.value ?? null) })
+        })
+        series = [{ key: 'change', name: `% change vs ${reference}` }]
+        yAxis = '% change'
+        title = `${measureName}: change vs ${reference}`
+        description = `Percentage change in ${ADVERBS[period].toLowerCase()} ${measure} compared with ${intent.transform === 'change' ? 'the ' : ''}${reference}, ${range}`
+        break
+      }
+      case 'cumulative': {
+        let total = 0
+        data.forEach((point, index) => {
+          total += points[index].value ?? 0
+          Object.assign(point, { cumulative: total })
+        })
+        series = [{ key: 'cumulative', name: `Cumulative ${measure}` }]
+        title = `Cumulative ${measure} by ${PERIOD_NAMES[period].toLowerCase()}`
+        description = `Running ${measure} per ${PERIOD_NAMES[period].toLowerCase()}, ${range}`
+        break
+      }
+      case 'moving_average': {
+        const window = Math.max(2, intent.window ?? DEFAULT_WINDOWS[period])
+        data.forEach((point, index) => {
+          Object.assign(point, { moving_average: this.trailingMean(points, index, window) })
+        })
+        const name = `${window}-${PERIOD_NAMES[period].toLowerCase()} moving average`
+        series = [{ key: 'value', name: measureName }, { key: 'moving_average', name }]
+        description = `${ADVERBS[period]} ${measure} with a ${name}, ${range}`
+        break
+      }
+    }
+
+    return {
+      type: 'line',
+      data,
+      xAxis: PERIOD_NAMES[period],
+      yAxis,
+      title,
+      description,
+      series,
+      timeAxis: period
+    }
+  }
+
+  // "Revenue and units by month" as one series per measure, or "sales by region by quarter" as one per region
+  private static multiSeriesChart(rows: DataRow[], intent: TimeSeriesIntent, options: SeriesOptions): ChartData | null {
+    // Changes, running totals and moving averages are only drawn for a single series
+    if (intent.transform) return null
+    const columns = Object.keys(rows[0])
+    const dateKey = columns.find(key => rows.every(row => row[key] === null || this.isDateValue(row[key])))
+    if (!dateKey) return null
+    const others = columns.filter(key => key !== dateKey)
+    const valueKeys = others.filter(key => rows.every(row => row[key] === null || typeof row[key] === 'number'))
+    const categoryKeys = others.filter(key => !valueKeys.includes(key))
+    const byMeasure = categoryKeys.length === 0 && valueKeys.length >= 2
+    const byCategory = categoryKeys.length === 1 && valueKeys.length === 1
+    if (!byMeasure && !byCategory) return null
+
+    const dated = rows.filter(row => row[dateKey] !== null)
+    const dates = dated.map(row => parseDate(row[dateKey]) as Date).sort((a, b) => a.getTime() - b.getTime())
+    if (dates.length === 0) return null
+    const period = intent.period ??
+      this.autoPeriod(dates[0].toISOString(), dates[dates.length - 1].toISOString())
+    // Every series covers the same periods so their points line up
+    const span: [string, string] = [truncateDate(dates[0], period), truncateDate(dates[dates.length - 1], period)]
+    const resampled = (subset: DataRow[], valueKey: string) => this.resample(
+      subset.map(row => ({ date: parseDate(row[dateKey]) as Date, value: row[valueKey] as number | null })),
+      period,
+      options.additive,
+      span
+    )
+    const label = (key: string) => options.labels[key] ?? key
+    const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+    const range = `${this.formatPeriod(span[0], period)} to ${this.formatPeriod(span[1], period)}`
+    const periodName = PERIOD_NAMES[period].toLowerCase()
+
+    if (byMeasure) {
+      const measures = valueKeys.map(key => resampled(dated, key))
+      const data = measures[0].map((point, index) => ({
+        name: this.formatPeriod(point.date, period),
+        date: point.date,
+        ...Object.fromEntries(valueKeys.map((key, measure) => [key, measures[measure][index].value]))
+      }))
+      const series = ChartBuilder.measureSeries(data, valueKeys, Object.fromEntries(valueKeys.map(key => [key, capitalize(label(key))])))
+      const left = series.filter(entry => entry.axis !== 'right').map(entry => entry.name)
+      const right = series.filter(entry => entry.axis === 'right').map(entry => entry.name)
+      const names = valueKeys.map(label)
+      const listed = `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+      return {
+        type: 'line',
+        data,
+        xAxis: PERIOD_NAMES[period],
+        yAxis: left.join(', '),
+        ...(right.length > 0 && { yAxisRight: right.join(', ') }),
+        title: `${capitalize(listed)} by ${periodName}`,
+        description: `${ADVERBS[period]} ${listed} from ${range}`,
+        series,
+        timeAxis: period
+      }
+    }
+
+    const [categoryKey] = categoryKeys
+    const [valueKey] = valueKeys
+    const categories = Array.from(new Set(dated.map(row => row[categoryKey])))
+    const flattened = categories.flatMap(category =>
+      resampled(dated.filter(row => row[categoryKey] === category), valueKey).map(point => ({
+        name: this.formatPeriod(point.date, period),
+        date: point.date,
+        [categoryKey]: category,
+        [valueKey]: point.value
+      }))
+    )
+    const { points, series } = ChartBuilder.pivot(flattened, 'name', categoryKey, valueKey, options.additive)
+    const measure = label(valueKey)
+    // Amounts that add up are stacked so each period's height is its total
+    const type = !options.additive ? 'line' : points.length <= MAX_BAR_PERIODS ? 'bar' : 'area'
+    return {
+      type,
+      data: points,
+      xAxis: PERIOD_NAMES[period],
+      yAxis: capitalize(measure),
+      title: `${capitalize(measure)} by ${periodName} and ${label(categoryKey)}`,
+      description: `${ADVERBS[period]} ${measure} for each ${label(categoryKey)}, ${range}`,
+      series,
+      ...(options.additive && { stacked: true }),
+      timeAxis: period
+    }
+  }
+
+  // Combines rows into periods and fills the periods in between so the axis has no jumps;
+  // a span stretches the series over periods outside its own rows
+  private static resample(
+    rows: { date: Date; value: number | null }[],
+    period: TimePeriod,
+    additive: boolean,
+    span?: [string, string]
+  ): Point[] {
+    const buckets = new Map<string, number[]>()
+    for (const row of rows) {
+      const key = truncateDate(row.date, period)
+      const values = buckets.get(key) ?? []
+      if (row.value !== null) values.push(row.value)
+      buckets.set(key, values)
+    }
+
+    const keys = Array.from(buckets.keys()).sort()
+    const [first, last] = span ?? [keys[0], keys[keys.length - 1]]
+    const points: Point[] = []
+    for (let key = first; key <= last; key = this.nextPeriod(key, period)) {
+      const values = buckets.get(key) ?? []
+      const value = values.length === 0
+        ? (additive ? 0 : null)
+        : additive
+          ? values.reduce((sum, entry) => sum + entry, 0)
+          : values.reduce((sum, entry) => sum + entry, 0) / values.length
+      points.push({ date: key, value })
+    }
+    return points
+  }
+
+  private static nextPeriod(date: string, period: TimePeriod): string {
+    const next = new Date(`${date}T00:00:00Z`)
+    if (period === 'day') next.setUTCDate(next.getUTCDate() + 1)
+    else if (period === 'week') next.setUTCDate(next.getUTCDate() + 7)
+    else if (period === 'month') next.setUTCMonth(next.getUTCMonth() + 1)
+    else if (period === 'quarter') next.setUTCMonth(next.getUTCMonth() + 3)
+    else next.setUTCFullYear(next.getUTCFullYear() + 1)
+    return next.toISOString().slice(0, 10)
+  }
+
+  // Looks up the period that started one year before each point
+  private static sameTimeLastYear(points: Point[], period: TimePeriod): (index: number) => Point | undefined {
+    const byDate = new Map(points.map(point => [point.date, point]))
+    return index => {
+      const date = new Date(`${points[index].date}T00:00:00Z`)
+      if (period === 'week') date.setUTCDate(date.getUTCDate() - 364)
+      else date.setUTCFullYear(date.getUTCFullYear() - 1)
+      return byDate.get(truncateDate(date, period))
+    }
+  }
+
+  private static percentChange(current: number | null, previous: number | null): number | null {
+    if (current === null || previous === null || previous === 0) return null
+    return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10
+  }
+
+  // Mean of the window ending at the index; empty until the window is full
+  private static trailingMean(points: Point[], index: number, window: number): number | null {
+    if (index < window - 1) return null
+    const values = points
+      .slice(index - window + 1, index + 1)
+      .map(point => point.value)
+      .filter((value): value is number => value !== null)
+    if (values.length === 0) return null
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+  }
+
+  private static formatPeriod(date: string, period: TimePeriod): string {
+    const [year, month, day] = date.split('-').map(Number)
+    switch (period) {
+      case 'day':
+        return `${MONTH_NAMES[month - 1]} ${day}, ${year}`
+      case 'week':
+        return `Week of ${MONTH_NAMES[month - 1]} ${day}, ${year}`
+      case 'month':
+        return `${MONTH_NAMES[month - 1]} ${year}`
+      case 'quarter':
+        return `Q${Math.floor((month - 1) / 3) + 1} ${year}`
+      default:
+        return String(year)
+    }
+  }
+
+  private static isDateValue(value: unknown): boolean {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))
+  }
+}
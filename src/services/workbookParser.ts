@@ -0,0 +1,117 @@
+import { CsvOptions, CsvPreview, DataTable, ParseLocale, ParseProgress, SheetSelection, SheetSummary } from '../types'
+
+export type ParserRequest =
+  | { type: 'read'; file: File }
+  | { type: 'load'; selection: SheetSelection; locale: ParseLocale }
+  | { type: 'previewCsv'; options: CsvOptions }
+  | { type: 'loadCsv'; options: CsvOptions; locale: ParseLocale }
+
+export type ParserResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'sheets'; sheets: SheetSummary[] }
+  | { type: 'csvPreview'; preview: CsvPreview }
+  | { type: 'tables'; tables: DataTable[] }
+  | { type: 'error'; message: string }
+
+// Workbooks come back as sheet summaries, delimited text as a preview with the sniffed options
+export type ReadResult = Extract<ParserResponse, { type: 'sheets' | 'csvPreview' }>
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled')
+    this.name = 'ParseCancelledError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: ParserResponse) => void
+  reject: (error: Error) => void
+}
+
+// Runs reading, cleaning and quality scoring in a Web Worker so large files do not block the UI.
+// The worker keeps the parsed workbook between read() and load(), so one parser handles one file.
+export class WorkbookParser {
+  private worker: Worker | null = null
+  private pending: PendingRequest | null = null
+
+  constructor(private onProgress: (progress: ParseProgress) => void = () => {}) {}
+
+  async read(file: File): Promise<ReadResult> {
+    const response = await this.send({ type: 'read', file })
+    if (response.type !== 'sheets' && response.type !== 'csvPreview') throw new Error('Unexpected response from parser')
+    return response
+  }
+
+  async load(selection: SheetSelection, locale: ParseLocale): Promise<DataTable[]> {
+    const response = await this.send({ type: 'load', selection, locale })
+    if (response.type !== 'tables') throw new Error('Unexpected response from parser')
+    return response.tables
+  }
+
+  async previewCsv(options: CsvOptions): Promise<CsvPreview> {
+    const response = await this.send({ type: 'previewCsv', options })
+    if (response.type !== 'csvPreview') throw new Error('Unexpected response from parser')
+    return response.preview
+  }
+
+  async loadCsv(options: CsvOptions, locale: ParseLocale): Promise<DataTable[]> {
+    const response = await this.send({ type: 'loadCsv', options, locale })
+    if (response.type !== 'tables') throw new Error('Unexpected response from parser')
+    return response.tables
+  }
+
+  // Stops the worker mid-parse; the pending read or load rejects with ParseCancelledError
+  cancel(): void {
+    const pending = this.pending
+    this.dispose()
+    pending?.reject(new ParseCancelledError())
+  }
+
+  dispose(): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.pending = null
+  }
+
+  private send(request: ParserRequest): Promise<ParserResponse> {
+    if (this.pending) {
+      return Promise.reject(new Error('The parser is already busy'))
+    }
+    if (request.type !== 'read' && !this.worker) {
+      return Promise.reject(new Error('Read a file before loading sheets'))
+    }
+
+    const worker = this.worker ?? this.createWorker()
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      worker.postMessage(request)
+    })
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('../workers/workbookParser.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const response = event.data
+      if (response.type === 'progress') {
+        this.onProgress(response.progress)
+        return
+      }
+
+      const pending = this.pending
+      this.pending = null
+      if (response.type === 'error') pending?.reject(new Error(response.message))
+      else pending?.resolve(response)
+    }
+
+    worker.onerror = (event) => {
+      event.preventDefault()
+      const pending = this.pending
+      this.dispose()
+      pending?.reject(new Error(event.message || 'The file parser stopped unexpectedly'))
+    }
+
+    this.worker = worker
+    return worker
+  }
+}
@@ -0,0 +1,40 @@
+import { DataTable, Workspace } from '../types'
+import { RelationshipDetector } from './relationshipDetector'
+
+export class WorkspaceManager {
+  static create(tables: DataTable[]): Workspace {
+    return this.addTables({ tables: [], relationships: [] }, tables)
+  }
+
+  static addTables(workspace: Workspace, tables: DataTable[]): Workspace {
+    const combined = [...workspace.tables]
+    for (const table of tables) {
+      combined.push({ ...table, name: this.uniqueName(table.name, combined) })
+    }
+    return { tables: combined, relationships: RelationshipDetector.detect(combined) }
+  }
+
+  static removeTable(workspace: Workspace, name: string): Workspace {
+    const tables = workspace.tables.filter(table => table.name !== name)
+    return { tables, relationships: RelationshipDetector.detect(tables) }
+  }
+
+  // Swaps in a new version of a table, such as one produced by cleaning, under the same name
+  static replaceTable(workspace: Workspace, table: DataTable): Workspace {
+    const tables = workspace.tables.map(existing => existing.name === table.name ? table : existing)
+    return { tables, relationships: RelationshipDetector.detect(tables) }
+  }
+
+  static getTable(workspace: Workspace, name: string): DataTable | undefined {
+    return workspace.tables.find(table => table.name === name)
+  }
+
+  private static uniqueName(name: string, tables: DataTable[]): string {
+    let candidate = name
+    let suffix = 2
+    while (tables.some(table => table.name === candidate)) {
+      candidate = `${name}_${suffix++}`
+    }
+    return candidate
+  }
+}
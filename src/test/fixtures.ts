@@ -0,0 +1,72 @@
+import { DataProcessor } from '../services/dataProcessor'
+import { SQLGenerationRequest, TableContext, ValueGrounder } from '../services/llm'
+import { ConversationContext, DataRow, DataTable } from '../types'
+
+const REGIONS = ['North', 'South', 'East', 'West']
+const SEGMENTS = ['Retail', 'Corporate']
+const PRODUCTS = ['Widget', 'Gadget', 'Gizmo']
+
+// 120 orders, one every three days from the start of 2023, with two price columns and a quantity
+export const salesRows: DataRow[] = Array.from({ length: 120 }, (_, index) => {
+  const units = 1 + (index % 5)
+  const unitPrice = 10 + (index % 7)
+  return {
+    Order_Date: new Date(Date.UTC(2023, 0, 1) + index * 3 * 86400000).toISOString().slice(0, 10),
+    Region: REGIONS[index % REGIONS.length],
+    Segment: SEGMENTS[index % SEGMENTS.length],
+    Product: PRODUCTS[index % PRODUCTS.length],
+    Units: units,
+    Unit_Price: unitPrice,
+    Total_Price: units * unitPrice
+  }
+})
+
+const SALES_LABELS: Record<string, string> = {
+  Order_Date: 'Order Date',
+  Unit_Price: 'Unit Price',
+  Total_Price: 'Total Price'
+}
+
+export function makeTable(name: string, data: DataRow[], labels: Record<string, string> = {}): DataTable {
+  const columns = Object.keys(data[0])
+  return {
+    name,
+    label: name,
+    data,
+    columns,
+    schema: DataProcessor.inferSchema(data, columns, labels),
+    metadata: {
+      fileName: `${name}.csv`,
+      fileSize: 0,
+      rowCount: data.length,
+      columnCount: columns.length,
+      dataQualityScore: 100,
+      sourceSheets: [],
+      parseIssues: [],
+      cleaningSteps: []
+    }
+  }
+}
+
+export const salesTable = (): DataTable => makeTable('sales', salesRows, SALES_LABELS)
+
+// What the analyst is told about a table: its schema and the values of its category columns
+export function tableContext(table: DataTable): TableContext {
+  const values: Record<string, string[]> = {}
+  for (const column of table.schema.filter(schema => schema.type === 'categorical')) {
+    values[column.name] = Array.from(new Set(table.data.map(row => String(row[column.name]))))
+  }
+  return { name: table.name, schema: table.schema, sampleRows: table.data.slice(0, 5), values }
+}
+
+export function makeRequest(question: string, tables: DataTable[], context?: ConversationContext): SQLGenerationRequest {
+  const contexts = tables.map(tableContext)
+  return {
+    question,
+    tables: contexts,
+    relationships: [],
+    history: [],
+    grounding: ValueGrounder.ground(question, contexts),
+    context
+  }
+}
@@ -17,7 +17,7 @@ export interface Query {
   question: string
   sql_query: string
   result_type: 'table' | 'chart' | 'insight'
-  result_data: any
+  result_data: AnalysisResult
   confidence_score: number
   created_at: string
 }
@@ -26,17 +26,247 @@ export interface DataRow {
   [key: string]: any
 }
 
+export type ColumnType =
+  | 'numeric'
+  | 'integer'
+  | 'date'
+  | 'datetime'
+  | 'boolean'
+  | 'categorical'
+  | 'text'
+  | 'identifier'
+
+export interface ColumnSchema {
+  // Sanitized identifier used in SQL and as the DataRow key
+  name: string
+  // Header text as it appeared in the file
+  label: string
+  type: ColumnType
+  nullable: boolean
+  nullCount: number
+  cardinality: number
+  min?: number | string
+  max?: number | string
+  sampleValues: any[]
+}
+
+export type DateOrder = 'DMY' | 'MDY' | 'YMD'
+
+// How text dates and numbers in the file are written
+export interface ParseLocale {
+  dateOrder: DateOrder
+  decimalSeparator: '.' | ','
+}
+
+// Cells in a number or date column whose text could not be read as one
+export interface ParseIssue {
+  // Column header as shown to the user
+  column: string
+  // Set when sheets were stacked into one table
+  sheet?: string
+  expected: 'number' | 'date'
+  count: number
+  // Data row numbers are 1-based
+  examples: { row: number; value: string }[]
+}
+
+export interface DatasetMetadata {
+  fileName: string
+  fileSize: number
+  rowCount: number
+  columnCount: number
+  dataQualityScore: number
+  sourceSheets: string[]
+  parseIssues: ParseIssue[]
+  // Cleaning steps applied since the file was loaded, in order
+  cleaningSteps: CleaningStep[]
+}
+
+// Cleaning steps refer to columns by their sanitized name so a recipe replays on a newer copy of the file
+export type CleaningStep =
+  // An empty list trims every text column
+  | { type: 'trim'; columns: string[] }
+  | { type: 'fill_nulls'; column: string; strategy: 'value' | 'mean' | 'median' | 'mode' | 'previous'; value?: string }
+  | { type: 'cast'; column: string; to: 'number' | 'text' | 'date' | 'boolean'; dateOrder?: DateOrder }
+  // New columns are given by their display label
+  | { type: 'split'; column: string; delimiter: string; into: string[]; keepOriginal: boolean }
+  | { type: 'merge'; columns: string[]; separator: string; into: string; keepOriginal: boolean }
+  // An empty list compares whole rows
+  | { type: 'dedupe'; columns: string[] }
+  | { type: 'standardize'; column: string; replacements: Record<string, string> }
+  | { type: 'drop_rows'; column: string; operator: RowFilterOperator; value?: string }
+
+export type CleaningStepType = CleaningStep['type']
+
+export type RowFilterOperator = 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'is_empty'
+
+export interface CleaningRecipe {
+  name: string
+  steps: CleaningStep[]
+  createdAt: string
+}
+
+export type QualityIssueKind =
+  | 'missing'
+  | 'mixed_types'
+  | 'outliers'
+  | 'duplicate_rows'
+  | 'inconsistent_spelling'
+  | 'casing'
+  | 'whitespace'
+  | 'date_range'
+
+export interface QualityIssue {
+  kind: QualityIssueKind
+  // Unset for issues spanning whole rows, such as duplicates
+  column?: string
+  severity: 'low' | 'medium' | 'high'
+  count: number
+  description: string
+  // Indexes into the table's data
+  rows: number[]
+  // For casing and spelling issues, each variant mapped to the column's usual spelling
+  replacements?: Record<string, string>
+}
+
+export interface ColumnQuality {
+  column: string
+  label: string
+  missingRate: number
+  issues: QualityIssue[]
+}
+
+export interface QualityReport {
+  columns: ColumnQuality[]
+  rowIssues: QualityIssue[]
+}
+
+export interface ValueFrequency {
+  value: string
+  count: number
+}
+
+export interface HistogramBin {
+  // A value range such as "10 – 20", or a period such as "2024-03" for dates
+  label: string
+  count: number
+}
+
+export interface ColumnProfile {
+  column: string
+  label: string
+  type: ColumnType
+  rowCount: number
+  nullCount: number
+  distinctCount: number
+  topValues: ValueFrequency[]
+  // Numeric columns only
+  stats?: { min: number; max: number; mean: number; median: number; stddev: number }
+  // Date columns only, as ISO strings
+  dateRange?: { min: string; max: string }
+  // Numeric and date columns only
+  histogram: HistogramBin[]
+}
+
+export interface DataTable {
+  name: string
+  label: string
+  data: DataRow[]
+  columns: string[]
+  schema: ColumnSchema[]
+  metadata: DatasetMetadata
+}
+
+export interface TableRelationship {
+  fromTable: string
+  fromColumn: string
+  toTable: string
+  toColumn: string
+  overlap: number
+  confidence: number
+}
+
+export interface Workspace {
+  tables: DataTable[]
+  relationships: TableRelationship[]
+}
+
+export interface SheetSummary {
+  name: string
+  rowCount: number
+  columnCount: number
+  headers: string[]
+  suggested: boolean
+}
+
+export type SheetLoadMode = 'single' | 'separate' | 'stack'
+
+export interface SheetSelection {
+  sheets: string[]
+  mode: SheetLoadMode
+}
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export interface CsvOptions {
+  delimiter: string
+  encoding: CsvEncoding
+  // null when fields are never quoted
+  quote: '"' | "'" | null
+  decimal: '.' | ','
+}
+
+export interface CsvPreview {
+  options: CsvOptions
+  rows: string[][]
+  // Estimated from the sampled bytes
+  totalRows: number
+}
+
+export type ParsePhase = 'reading' | 'parsing' | 'cleaning' | 'scoring'
+
+export interface ParseProgress {
+  phase: ParsePhase
+  bytesRead: number
+  totalBytes: number
+  rowsParsed: number
+  totalRows: number
+}
+
+export type TimePeriod = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+export interface ChartSeries {
+  // Key of the plotted value in each data point
+  key: string
+  name: string
+  // 'right' plots the series against a second axis, for a measure on a very different scale
+  axis?: 'left' | 'right'
+}
+
 export interface ChartData {
   type: 'bar' | 'line' | 'pie' | 'scatter' | 'area'
+  // Scatter points carry "x" and "y"; other charts a "name" and their series values
   data: any[]
   xAxis?: string
   yAxis?: string
   title: string
   description?: string
+  // Plotted values; a single "value" series when omitted
+  series?: ChartSeries[]
+  // Stacks bars and areas of the series on top of each other instead of side by side
+  stacked?: boolean
+  // Title of the right-hand axis when a series is plotted against it
+  yAxisRight?: string
+  // Key of a category in each point that picks its colour, e.g. "name" to give every bar its own colour
+  colorBy?: string
+  // Set when points are periods of this length, each carrying its start date as "date"
+  timeAxis?: TimePeriod
 }
 
 export interface TableData {
   columns: string[]
+  // Display labels keyed by result column, for columns that come straight from the data
+  columnLabels?: Record<string, string>
   rows: DataRow[]
   title: string
   description?: string
@@ -48,11 +278,108 @@ export interface InsightData {
   description: string
   value?: number | string
   confidence: number
+  // Set by statistical tests: whether the finding passed the significance test or may be noise
+  significant?: boolean
+  evidence?: InsightEvidence
+}
+
+export interface InsightStatistic {
+  label: string
+  value: string
+}
+
+// What an insight was computed from, shown when the insight is expanded
+export interface InsightEvidence {
+  statistics: InsightStatistic[]
+  chart?: ChartData
+  // The rows that stand out, e.g. the outlying records
+  table?: TableData
+}
+
+// Asked back when the question could mean more than one column, e.g. which price to average
+export interface ClarificationData {
+  // e.g. 'By "price", did you mean Unit Price or List Price?'
+  prompt: string
+  // The question being clarified, asked again once an option is picked
+  question: string
+  // Word of the question the options stand for
+  term: string
+  options: ClarificationOption[]
+  // Picks made for earlier clarifications of the same question
+  chosen: ClarificationChoice[]
+}
+
+export interface ClarificationOption {
+  label: string
+  table: string
+  column: string
+}
+
+// The column picked for a word of the question
+export interface ClarificationChoice {
+  term: string
+  table: string
+  column: string
 }
 
 export interface AnalysisResult {
-  type: 'table' | 'chart' | 'insight'
-  data: ChartData | TableData | InsightData
+  type: 'table' | 'chart' | 'insight' | 'clarification'
+  data: ChartData | TableData | InsightData | ClarificationData
   sql_query?: string
+  // The analyst's own query, kept when the user edits sql_query and runs it again
+  generated_sql?: string
   confidence_score: number
+  // Why the score is what it is, e.g. which words matched nothing or how few rows stood behind it
+  confidence_explanation?: string
+  // How the rows were computed, one plain-language step per stage of the executed query
+  explanation?: string[]
+  // State a follow-up question can build on
+  context?: ConversationContext
+  // Parts of the previous answer this one kept, e.g. its filters
+  carried?: CarriedContext[]
+  // How words of the question were matched to columns and values
+  grounding?: GroundedTerm[]
+}
+
+// A notable pattern found without being asked, with a question that explores it further
+export interface ExplorationFinding {
+  id: string
+  // Higher scores are shown first
+  score: number
+  question: string
+  result: AnalysisResult
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  sql_query?: string
+}
+
+// What the last answer was computed from; filters and grouping are kept as SQL expressions
+export interface ConversationContext {
+  question: string
+  sql: string
+  filters: string[]
+  groupBy: string[]
+  measures: string[]
+  resultColumns: string[]
+  rowCount: number
+}
+
+export interface ConversationState {
+  turns: ConversationTurn[]
+  last?: ConversationContext
+}
+
+// "North" → Region = 'North', or "sales" → Revenue when only a column was matched
+export interface GroundedTerm {
+  term: string
+  column: string
+  value?: string
+}
+
+export interface CarriedContext {
+  kind: 'filter' | 'grouping' | 'measure'
+  description: string
 }
@@ -0,0 +1,93 @@
+import * as XLSX from 'xlsx'
+import { DataProcessor } from '../services/dataProcessor'
+import { ParserRequest, ParserResponse } from '../services/workbookParser'
+import { ParsePhase, ParseProgress } from '../types'
+
+// Byte and row updates arrive far faster than the UI can usefully show them
+const PROGRESS_THROTTLE_MS = 100
+
+const scope = self as unknown as Worker
+
+let file: File | null = null
+let workbook: XLSX.WorkBook | null = null
+// Raw bytes of a delimited file, kept so it can be re-parsed with different options
+let delimited: Uint8Array | null = null
+let progress: ParseProgress = { phase: 'reading', bytesRead: 0, totalBytes: 0, rowsParsed: 0, totalRows: 0 }
+let lastReport = 0
+
+const post = (response: ParserResponse) => scope.postMessage(response)
+
+const report = (update: Partial<ParseProgress> & { phase: ParsePhase }) => {
+  const phaseChanged = update.phase !== progress.phase
+  progress = { ...progress, ...update }
+
+  const now = Date.now()
+  if (phaseChanged || now - lastReport >= PROGRESS_THROTTLE_MS) {
+    lastReport = now
+    post({ type: 'progress', progress })
+  }
+}
+
+scope.onmessage = async (event: MessageEvent<ParserRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === 'read') {
+      file = request.file
+      progress = { phase: 'reading', bytesRead: 0, totalBytes: file.size, rowsParsed: 0, totalRows: 0 }
+      post({ type: 'progress', progress })
+
+      const data = await DataProcessor.readFile(file, bytesRead => report({ phase: 'reading', bytesRead }))
+      report({ phase: 'parsing', bytesRead: data.length })
+
+      if (DataProcessor.isDelimitedFile(file.name)) {
+        delimited = data
+        workbook = null
+        post({ type: 'csvPreview', preview: DataProcessor.previewDelimited(data) })
+        return
+      }
+
+      delimited = null
+      const parsed = DataProcessor.parseWorkbook(data)
+      workbook = parsed.workbook
+      post({ type: 'sheets', sheets: parsed.sheets })
+      return
+    }
+
+    if (request.type === 'previewCsv' || request.type === 'loadCsv') {
+      if (!delimited || !file) {
+        throw new Error('No delimited file has been read yet')
+      }
+      if (request.type === 'previewCsv') {
+        post({ type: 'csvPreview', preview: DataProcessor.previewDelimited(delimited, request.options) })
+        return
+      }
+
+      const { totalRows } = DataProcessor.previewDelimited(delimited, request.options)
+      report({ phase: 'parsing', rowsParsed: 0, totalRows })
+      const table = DataProcessor.loadDelimited(delimited, file, request.options, request.locale, (phase, rowsParsed) =>
+        report({ phase, rowsParsed: Math.min(rowsParsed, totalRows) })
+      )
+      post({ type: 'tables', tables: [table] })
+      return
+    }
+
+    if (!workbook || !file) {
+      throw new Error('No workbook has been read yet')
+    }
+
+    const selected = workbook.SheetNames.filter(name => request.selection.sheets.includes(name))
+    const totalRows = selected.reduce((sum, name) => {
+      const range = XLSX.utils.decode_range(workbook!.Sheets[name]['!ref'] || 'A1:A1')
+      return sum + range.e.r - range.s.r
+    }, 0)
+    report({ phase: 'parsing', rowsParsed: 0, totalRows })
+
+    const tables = DataProcessor.loadSheets(workbook, file, request.selection, request.locale, (phase, rowsParsed) =>
+      report({ phase, rowsParsed: Math.min(rowsParsed, totalRows) })
+    )
+    post({ type: 'tables', tables })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}